@@ -0,0 +1,34 @@
+import { SeededRandom, deriveSeed } from './Random';
+
+// 다음 과일 크기 결정 (작은 크기일수록 높은 확률)
+export function pickNextFruitSize(maxFruitSize: number, rng: SeededRandom): number {
+  // 스폰 가능 최대 크기: maxFruitSize - 1 (최소 1, 최대 5)
+  const maxSpawn = Math.min(Math.max(1, maxFruitSize - 1), 5);
+
+  if (maxSpawn === 1) return 1;
+
+  // 각 크기별 가중치 계산 (작을수록 높음)
+  // 크기 1: 가중치 maxSpawn, 크기 2: 가중치 maxSpawn-1, ...
+  const weights: number[] = [];
+  for (let size = 1; size <= maxSpawn; size++) {
+    weights.push(maxSpawn - size + 1);
+  }
+
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+
+  let random = rng.next() * totalWeight;
+  for (let i = 0; i < weights.length; i++) {
+    random -= weights[i];
+    if (random <= 0) {
+      return i + 1;
+    }
+  }
+
+  return 1;
+}
+
+// 방 시드 + 턴 번호로 과일 크기 결정
+// 누가 계산하든 같은 (seed, turnNumber, maxFruitSize)면 같은 크기 → 모든 클라이언트가 같은 과일 큐를 봄
+export function fruitSizeForTurn(seed: number, turnNumber: number, maxFruitSize: number): number {
+  return pickNextFruitSize(maxFruitSize, new SeededRandom(deriveSeed(seed, 'spawn', turnNumber)));
+}
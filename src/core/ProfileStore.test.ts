@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ProfileGameRecord, ProfileStore as ProfileStoreType } from './ProfileStore';
+import { PROFILE_VERSION, getAverageShare, parseProfile } from './ProfileStore';
+
+// 테스트 환경(Node)에는 localStorage가 없으므로 Map으로 대신함
+function createLocalStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => Array.from(items.keys())[index] ?? null,
+    removeItem: (key) => void items.delete(key),
+    setItem: (key, value) => void items.set(key, String(value)),
+  };
+}
+
+// 싱글톤이므로 모듈을 새로 불러와 저장소에서 다시 읽게 함
+async function freshStore(): Promise<ProfileStoreType> {
+  vi.resetModules();
+  const { ProfileStore } = await import('./ProfileStore');
+  return ProfileStore.getInstance();
+}
+
+function game(id: string, overrides: Partial<ProfileGameRecord> = {}): ProfileGameRecord {
+  return {
+    id,
+    endedAt: 1000,
+    playerCount: 2,
+    partyScore: 100,
+    score: 50,
+    merges: 3,
+    biggestFruit: 4,
+    detonations: 0,
+    ...overrides,
+  };
+}
+
+describe('ProfileStore', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createLocalStorage());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('aggregates finished games into the profile totals', async () => {
+    const store = await freshStore();
+
+    store.recordGame(game('g1', { partyScore: 200, score: 50, merges: 4, biggestFruit: 6 }));
+    store.recordGame(game('g2', { partyScore: 400, score: 300, merges: 2, biggestFruit: 5, detonations: 1 }));
+    store.recordGame(game('g3', { partyScore: 0, score: 0, merges: 0, biggestFruit: 1 }));
+
+    const profile = store.current;
+    expect(profile.gamesPlayed).toBe(3);
+    expect(profile.bestPartyScore).toBe(400);
+    expect(profile.totalMerges).toBe(6);
+    expect(profile.biggestFruit).toBe(6);
+    expect(profile.detonations).toBe(1);
+    // (0.25 + 0.75 + 0) / 3, 파티 점수 0인 게임은 기여율 0
+    expect(getAverageShare(profile)).toBeCloseTo(1 / 3);
+    expect(profile.recentGames.map((record) => record.id)).toEqual(['g3', 'g2', 'g1']);
+  });
+
+  it('counts the same game only once', async () => {
+    const store = await freshStore();
+
+    expect(store.recordGame(game('g1'))).toBe(true);
+    expect(store.recordGame(game('g1', { merges: 10 }))).toBe(false);
+
+    expect(store.current.gamesPlayed).toBe(1);
+    expect(store.current.totalMerges).toBe(3);
+  });
+
+  it('keeps only the 20 most recent games but counts them all', async () => {
+    const store = await freshStore();
+
+    for (let i = 0; i < 25; i++) {
+      store.recordGame(game(`g${i}`));
+    }
+
+    expect(store.current.gamesPlayed).toBe(25);
+    expect(store.current.recentGames).toHaveLength(20);
+    expect(store.current.recentGames[0].id).toBe('g24');
+  });
+
+  it('reports an average share of zero before any game', async () => {
+    const store = await freshStore();
+    expect(getAverageShare(store.current)).toBe(0);
+  });
+
+  it('persists the profile across reloads', async () => {
+    const store = await freshStore();
+    store.setName('Alice');
+    store.recordGame(game('g1'));
+    expect(store.unlockAchievement('first_merge')).toBe(true);
+    expect(store.unlockAchievement('first_merge')).toBe(false);
+
+    const reloaded = await freshStore();
+    expect(reloaded).not.toBe(store);
+    expect(reloaded.current.name).toBe('Alice');
+    expect(reloaded.current.gamesPlayed).toBe(1);
+    expect(reloaded.current.achievements.first_merge).toBeGreaterThan(0);
+  });
+
+  it('starts over when the saved profile is unreadable', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    localStorage.setItem('player_profile', '{broken');
+
+    const store = await freshStore();
+    expect(store.current.gamesPlayed).toBe(0);
+  });
+
+  it('imports an exported profile but keeps the current name', async () => {
+    const source = await freshStore();
+    source.setName('Alice');
+    source.recordGame(game('g1', { partyScore: 900 }));
+    const exported = source.export();
+
+    vi.stubGlobal('localStorage', createLocalStorage());
+    const target = await freshStore();
+    target.setName('Bob');
+    target.import(exported);
+
+    expect(target.current.name).toBe('Bob');
+    expect(target.current.bestPartyScore).toBe(900);
+  });
+});
+
+describe('parseProfile', () => {
+  const valid = {
+    version: PROFILE_VERSION,
+    name: 'Alice',
+    createdAt: 1,
+    gamesPlayed: 1,
+    bestPartyScore: 10,
+    totalMerges: 1,
+    biggestFruit: 2,
+    detonations: 0,
+    contributionShareTotal: 0.5,
+    recentGames: [],
+  };
+
+  it('fills in achievements missing from older files', () => {
+    expect(parseProfile(JSON.stringify(valid)).achievements).toEqual({});
+  });
+
+  it('rejects malformed files', () => {
+    expect(() => parseProfile('nope')).toThrow('Invalid profile file');
+    expect(() => parseProfile(JSON.stringify({ ...valid, version: PROFILE_VERSION + 1 }))).toThrow('Unsupported profile version');
+    expect(() => parseProfile(JSON.stringify({ ...valid, totalMerges: -1 }))).toThrow('Invalid profile file');
+    expect(() => parseProfile(JSON.stringify({ ...valid, gamesPlayed: '3' }))).toThrow('Invalid profile file');
+    expect(() => parseProfile(JSON.stringify({ ...valid, recentGames: null }))).toThrow('Invalid profile file');
+  });
+});
@@ -0,0 +1,161 @@
+// 플레이어 프로필 (이 브라우저의 localStorage에만 저장, JSON으로 내보내기/가져오기)
+const PROFILE_KEY = 'player_profile';
+export const PROFILE_VERSION = 1;
+const RECENT_GAMES_LIMIT = 20; // 최근 게임 기록 수 (같은 게임 중복 기록 방지에도 사용)
+
+// 끝난 게임 하나에서 내 기록
+export interface ProfileGameRecord {
+  id: string;            // 게임 ID (방 ID + 시작 시각)
+  endedAt: number;
+  playerCount: number;
+  partyScore: number;
+  score: number;         // 내 기여 점수
+  merges: number;        // 내가 만든 합성 수
+  biggestFruit: number;  // 내가 만든 가장 큰 크기
+  detonations: number;   // 내가 터뜨린 크기 10 폭발 수
+}
+
+export interface PlayerProfile {
+  version: number;
+  name: string;
+  createdAt: number;
+  gamesPlayed: number;
+  bestPartyScore: number;
+  totalMerges: number;
+  biggestFruit: number;
+  detonations: number;
+  contributionShareTotal: number; // 게임마다 (내 점수 / partyScore)의 합, 평균은 getAverageShare
+  recentGames: ProfileGameRecord[];
+  achievements: Record<string, number>; // 업적 ID → 처음 얻은 시각
+}
+
+function createProfile(name = ''): PlayerProfile {
+  return {
+    version: PROFILE_VERSION,
+    name,
+    createdAt: Date.now(),
+    gamesPlayed: 0,
+    bestPartyScore: 0,
+    totalMerges: 0,
+    biggestFruit: 0,
+    detonations: 0,
+    contributionShareTotal: 0,
+    recentGames: [],
+    achievements: {},
+  };
+}
+
+// 평균 기여율 (0~1)
+export function getAverageShare(profile: PlayerProfile): number {
+  return profile.gamesPlayed > 0 ? profile.contributionShareTotal / profile.gamesPlayed : 0;
+}
+
+// 가져온 파일 검사 (형식이 다르면 Error)
+export function parseProfile(text: string): PlayerProfile {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid profile file');
+  }
+
+  const profile = value as Partial<PlayerProfile> | null;
+  if (!profile || typeof profile !== 'object' || typeof profile.version !== 'number') {
+    throw new Error('Invalid profile file');
+  }
+  if (profile.version !== PROFILE_VERSION) {
+    throw new Error('Unsupported profile version');
+  }
+
+  const numbers = [
+    profile.gamesPlayed, profile.bestPartyScore, profile.totalMerges,
+    profile.biggestFruit, profile.detonations, profile.contributionShareTotal,
+  ];
+  if (numbers.some((n) => typeof n !== 'number' || !Number.isFinite(n) || n < 0) || !Array.isArray(profile.recentGames)) {
+    throw new Error('Invalid profile file');
+  }
+  // 업적이 없던 때 내보낸 파일은 빈 목록으로
+  if (profile.achievements !== undefined && (typeof profile.achievements !== 'object' || profile.achievements === null)) {
+    throw new Error('Invalid profile file');
+  }
+  return { ...createProfile(), ...profile } as PlayerProfile;
+}
+
+export class ProfileStore {
+  private static instance: ProfileStore;
+  private profile: PlayerProfile;
+
+  private constructor() {
+    this.profile = this.load();
+  }
+
+  static getInstance(): ProfileStore {
+    if (!ProfileStore.instance) {
+      ProfileStore.instance = new ProfileStore();
+    }
+    return ProfileStore.instance;
+  }
+
+  get current(): Readonly<PlayerProfile> {
+    return this.profile;
+  }
+
+  setName(name: string): void {
+    if (this.profile.name === name) return;
+    this.profile.name = name;
+    this.save();
+  }
+
+  // 끝난 게임 반영 (같은 게임은 한 번만)
+  recordGame(record: ProfileGameRecord): boolean {
+    if (this.profile.recentGames.some((game) => game.id === record.id)) return false;
+
+    const profile = this.profile;
+    profile.gamesPlayed++;
+    profile.bestPartyScore = Math.max(profile.bestPartyScore, record.partyScore);
+    profile.totalMerges += record.merges;
+    profile.biggestFruit = Math.max(profile.biggestFruit, record.biggestFruit);
+    profile.detonations += record.detonations;
+    profile.contributionShareTotal += record.partyScore > 0 ? record.score / record.partyScore : 0;
+    profile.recentGames = [record, ...profile.recentGames].slice(0, RECENT_GAMES_LIMIT);
+
+    this.save();
+    return true;
+  }
+
+  // 처음 얻은 업적이면 기록하고 true
+  unlockAchievement(id: string): boolean {
+    if (this.profile.achievements[id]) return false;
+    this.profile.achievements[id] = Date.now();
+    this.save();
+    return true;
+  }
+
+  export(): string {
+    return JSON.stringify(this.profile, null, 2);
+  }
+
+  // 가져온 프로필로 교체 (이름은 지금 쓰는 이름 유지)
+  import(text: string): void {
+    const name = this.profile.name;
+    this.profile = parseProfile(text);
+    if (name) this.profile.name = name;
+    this.save();
+  }
+
+  private load(): PlayerProfile {
+    const saved = localStorage.getItem(PROFILE_KEY);
+    if (!saved) return createProfile();
+
+    try {
+      return parseProfile(saved);
+    } catch {
+      console.warn('[Profile] 저장된 프로필을 읽지 못해 새로 만듦');
+      return createProfile();
+    }
+  }
+
+  private save(): void {
+    localStorage.setItem(PROFILE_KEY, JSON.stringify(this.profile));
+  }
+}
@@ -0,0 +1,62 @@
+// 시드 기반 난수 생성기 (mulberry32)
+// 같은 시드면 브라우저/Node 어디서든 같은 수열을 만듦
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // 0 이상 1 미만
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // 0 이상 max 미만 정수
+  nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  // 현재 내부 상태 (스냅샷 저장/복원용)
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+
+  // ID용 base36 문자열
+  nextId(length = 5): string {
+    let id = '';
+    for (let i = 0; i < length; i++) {
+      id += this.nextInt(36).toString(36);
+    }
+    return id;
+  }
+}
+
+// 새 게임용 시드 (시드 자체는 비결정적이어도 됨)
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+// 시드에서 용도별 하위 시드 파생 (FNV-1a)
+// 예: deriveSeed(roomSeed, 'spawn', turnNumber) → 턴별 독립 난수열
+export function deriveSeed(seed: number, ...parts: Array<string | number>): number {
+  return hashString([seed >>> 0, ...parts].join(':'));
+}
+
+// 문자열 해시 (FNV-1a 32bit)
+export function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
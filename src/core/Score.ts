@@ -0,0 +1,37 @@
+// 게임오버 최종 점수 계산 (게임오버 화면과 리더보드 검증이 같은 식 사용)
+
+export interface FinalScore {
+  participantCount: number;
+  multiplier: number;
+  finalScore: number;
+}
+
+// 배율용 인원 수: 중간 참가자는 참가한 턴 비율만큼만 셈 (예: 20턴 중 10턴 참가 = 0.5명)
+export function getParticipantCount(players: Array<{ joinedTurn?: number }>, lastTurn: number): number {
+  const totalTurns = lastTurn + 1;
+  return players.reduce((count, player) => {
+    if (player.joinedTurn === undefined) return count + 1;
+    const playedTurns = Math.max(0, totalTurns - player.joinedTurn);
+    return count + Math.min(1, playedTurns / totalTurns);
+  }, 0);
+}
+
+export function getPlayerMultiplier(playerCount: number): number {
+  // 인원 범위: 1~10명
+  const clampedCount = Math.max(1, Math.min(10, playerCount));
+
+  // 로그 기반 배율: 1명 = x1.0, 10명 = x2.0 (증가폭 점점 감소)
+  // 공식: 1 + ln(n) / ln(10)
+  if (clampedCount === 1) return 1.0;
+  return 1 + Math.log(clampedCount) / Math.log(10);
+}
+
+export function getFinalScore(
+  partyScore: number,
+  players: Array<{ joinedTurn?: number }>,
+  lastTurn: number
+): FinalScore {
+  const participantCount = getParticipantCount(players, lastTurn);
+  const multiplier = getPlayerMultiplier(participantCount);
+  return { participantCount, multiplier, finalScore: Math.floor(partyScore * multiplier) };
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_COMBO_MULTIPLIER,
+  MAX_FRUIT_SIZE,
+  getComboMultiplier,
+  getFruitData,
+  getScoreForMerge,
+} from './config';
+
+describe('combo scoring', () => {
+  it('uses the combo count as the multiplier up to the cap', () => {
+    for (let combo = 1; combo <= MAX_COMBO_MULTIPLIER; combo++) {
+      expect(getComboMultiplier(combo)).toBe(combo);
+    }
+    expect(getComboMultiplier(MAX_COMBO_MULTIPLIER + 1)).toBe(MAX_COMBO_MULTIPLIER);
+    expect(getComboMultiplier(100)).toBe(MAX_COMBO_MULTIPLIER);
+  });
+
+  it('never drops the multiplier below one', () => {
+    expect(getComboMultiplier(0)).toBe(1);
+    expect(getComboMultiplier(-3)).toBe(1);
+  });
+
+  it('multiplies the base fruit score by the capped multiplier', () => {
+    for (let size = 2; size <= MAX_FRUIT_SIZE; size++) {
+      const base = getFruitData(size).score;
+      expect(getScoreForMerge(size)).toBe(base);
+      expect(getScoreForMerge(size, 3)).toBe(base * 3);
+      expect(getScoreForMerge(size, 9)).toBe(base * MAX_COMBO_MULTIPLIER);
+    }
+  });
+});
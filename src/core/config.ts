@@ -8,6 +8,8 @@ export const GAME_CONFIG = {
   DROP_AREA_Y: 80,           // 레거시 호환용 (싱글플레이어)
   WALL_THICKNESS: 20,
   GRAVITY: 1,
+  QUICK_MATCH_MIN_PLAYERS: 2,  // 빠른 매칭 방 자동 시작 최소 인원
+  QUICK_MATCH_COUNTDOWN: 10,   // 최소 인원이 모인 뒤 자동 시작까지 (초)
 } as const;
 
 // 불꽃놀이 테마 색상
@@ -26,12 +28,18 @@ export const FRUIT_DATA: FruitData[] = [
 
 export const MAX_FRUIT_SIZE = 10;
 export const SETTLE_FRAMES = 15; // 과일 안정화 대기 프레임 (거의 즉시)
+export const MAX_COMBO_MULTIPLIER = 5; // 콤보 배율 상한
 
 export function getFruitData(size: number): FruitData {
   const index = Math.min(size - 1, FRUIT_DATA.length - 1);
   return FRUIT_DATA[index];
 }
 
-export function getScoreForMerge(resultSize: number): number {
-  return getFruitData(resultSize).score;
+// 드롭 한 번의 n번째 합성은 점수 xn (상한 MAX_COMBO_MULTIPLIER)
+export function getComboMultiplier(combo: number): number {
+  return Math.min(Math.max(combo, 1), MAX_COMBO_MULTIPLIER);
+}
+
+export function getScoreForMerge(resultSize: number, combo = 1): number {
+  return getFruitData(resultSize).score * getComboMultiplier(combo);
 }
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_PLAYERS } from '../network/NetworkManager';
+import { GAME_OVER_CHECK_FRAMES } from './GameSimulation';
+import { GameEventBus, type GameEvent } from './GameEvents';
+import { AchievementEvaluator, type AchievementId } from './Achievements';
+
+const ME = 'me';
+const OTHER = 'other';
+
+function launch(frame: number, playerId = ME, playerCount = 2): GameEvent {
+  return { type: 'launch', frame, playerId, size: 1, playerCount };
+}
+
+function merge(frame: number, overrides: Partial<Extract<GameEvent, { type: 'merge' }>> = {}): GameEvent {
+  return {
+    type: 'merge',
+    frame,
+    playerId: ME,
+    size: 3,
+    x: 200,
+    y: 400,
+    scoreGain: 10,
+    combo: 1,
+    exploded: false,
+    bankShot: false,
+    overLineFrames: 0,
+    ...overrides,
+  };
+}
+
+// 이벤트를 순서대로 보내고 달성 알림 목록 반환
+function evaluate(events: GameEvent[]): AchievementId[] {
+  const bus = new GameEventBus();
+  const unlocked: AchievementId[] = [];
+  new AchievementEvaluator(bus, ME, (achievement) => unlocked.push(achievement.id));
+  events.forEach((event) => bus.emit(event));
+  return unlocked;
+}
+
+describe('AchievementEvaluator', () => {
+  it('unlocks full_house for my launch in a full room only', () => {
+    expect(evaluate([launch(0, ME, MAX_PLAYERS)])).toEqual(['full_house']);
+    expect(evaluate([launch(0, ME, MAX_PLAYERS - 1)])).toEqual([]);
+    expect(evaluate([launch(0, OTHER, MAX_PLAYERS)])).toEqual([]);
+  });
+
+  it('unlocks chain_reaction on the third merge after a single launch', () => {
+    expect(evaluate([launch(0), merge(10), merge(20), merge(30)])).toEqual(['chain_reaction']);
+    // 다음 발사에서 다시 셈
+    expect(evaluate([launch(0), merge(10), merge(20), launch(40), merge(50)])).toEqual([]);
+    // 다른 플레이어의 합성은 세지 않음
+    expect(evaluate([launch(0), merge(10), merge(20, { playerId: OTHER }), merge(30)])).toEqual([]);
+  });
+
+  it('unlocks first_detonation and bank_shot from my merge flags', () => {
+    expect(evaluate([launch(0), merge(10, { exploded: true })])).toEqual(['first_detonation']);
+    expect(evaluate([launch(0), merge(10, { bankShot: true })])).toEqual(['bank_shot']);
+    expect(evaluate([launch(0), merge(10, { playerId: OTHER, exploded: true, bankShot: true })])).toEqual([]);
+  });
+
+  it('unlocks comeback once the countdown would have ended without a game over', () => {
+    const overLineFrames = 30;
+    const deadline = 100 + GAME_OVER_CHECK_FRAMES - overLineFrames;
+
+    expect(evaluate([merge(100, { overLineFrames }), launch(deadline)])).toEqual([]);
+    expect(evaluate([merge(100, { overLineFrames }), launch(deadline + 1)])).toEqual(['comeback']);
+    // 다른 플레이어의 합성으로 판정
+    expect(evaluate([merge(100, { overLineFrames }), merge(deadline + 1, { playerId: OTHER })])).toEqual(['comeback']);
+  });
+
+  it('does not unlock comeback when the game ends during the countdown', () => {
+    expect(evaluate([
+      merge(100, { overLineFrames: 30 }),
+      { type: 'game_over', frame: 120, partyScore: 10 },
+      launch(100 + GAME_OVER_CHECK_FRAMES),
+    ])).toEqual([]);
+  });
+
+  it('stops listening after destroy', () => {
+    const bus = new GameEventBus();
+    const unlocked: AchievementId[] = [];
+    const evaluator = new AchievementEvaluator(bus, ME, (achievement) => unlocked.push(achievement.id));
+
+    evaluator.destroy();
+    bus.emit(launch(0, ME, MAX_PLAYERS));
+
+    expect(unlocked).toEqual([]);
+  });
+});
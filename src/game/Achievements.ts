@@ -0,0 +1,82 @@
+import { MAX_PLAYERS } from '../network/NetworkManager';
+import { GAME_OVER_CHECK_FRAMES } from './GameSimulation';
+import type { GameEvent, GameEventBus } from './GameEvents';
+
+const CHAIN_MERGES = 3; // 드롭 한 번으로 이만큼 합성하면 연쇄
+
+export type AchievementId = 'first_detonation' | 'chain_reaction' | 'comeback' | 'full_house' | 'bank_shot';
+
+export interface AchievementInfo {
+  id: AchievementId;
+  name: string;
+  description: string;
+}
+
+export const ACHIEVEMENTS: AchievementInfo[] = [
+  { id: 'first_detonation', name: 'Grand Finale', description: 'Detonate a size-10 firework' },
+  { id: 'chain_reaction', name: 'Chain Reaction', description: `Trigger ${CHAIN_MERGES} merges with a single drop` },
+  { id: 'comeback', name: 'Comeback', description: 'Merge during the game-over countdown and survive it' },
+  { id: 'full_house', name: 'Full House', description: `Launch in a full ${MAX_PLAYERS}-player room` },
+  { id: 'bank_shot', name: 'Bank Shot', description: 'Bounce a launch off a wall into a merge' },
+];
+
+export function getAchievement(id: string): AchievementInfo | undefined {
+  return ACHIEVEMENTS.find((achievement) => achievement.id === id);
+}
+
+// 게임 신호로 내 업적 판정 (이미 얻은 업적인지는 호출하는 쪽에서 확인)
+export class AchievementEvaluator {
+  private bus: GameEventBus;
+  private playerId: string;
+  private onUnlock: (achievement: AchievementInfo) => void;
+  private chainMerges = 0; // 마지막 드롭 이후 합성 수
+  private comebackDeadline: number | null = null; // 이 프레임을 넘기고도 게임오버가 없으면 역전
+
+  constructor(bus: GameEventBus, playerId: string, onUnlock: (achievement: AchievementInfo) => void) {
+    this.bus = bus;
+    this.playerId = playerId;
+    this.onUnlock = onUnlock;
+    this.bus.on(this.handleEvent);
+  }
+
+  destroy(): void {
+    this.bus.off(this.handleEvent);
+  }
+
+  private handleEvent = (event: GameEvent): void => {
+    switch (event.type) {
+      case 'launch':
+        this.checkComeback(event.frame);
+        this.chainMerges = 0;
+        if (event.playerId === this.playerId && event.playerCount >= MAX_PLAYERS) {
+          this.unlock('full_house');
+        }
+        break;
+      case 'merge':
+        this.checkComeback(event.frame);
+        if (event.playerId !== this.playerId) break;
+
+        if (++this.chainMerges >= CHAIN_MERGES) this.unlock('chain_reaction');
+        if (event.exploded) this.unlock('first_detonation');
+        if (event.bankShot) this.unlock('bank_shot');
+        // 카운트다운이 끝났을 프레임까지 게임오버가 없으면 카운트다운이 풀린 것
+        if (event.overLineFrames > 0 && this.comebackDeadline === null) {
+          this.comebackDeadline = event.frame + GAME_OVER_CHECK_FRAMES - event.overLineFrames;
+        }
+        break;
+      case 'game_over':
+        this.comebackDeadline = null;
+        break;
+    }
+  };
+
+  private checkComeback(frame: number): void {
+    if (this.comebackDeadline === null || frame <= this.comebackDeadline) return;
+    this.comebackDeadline = null;
+    this.unlock('comeback');
+  }
+
+  private unlock(id: AchievementId): void {
+    this.onUnlock(getAchievement(id)!);
+  }
+}
@@ -1,21 +1,32 @@
-import Matter from 'matter-js';
-import { Physics } from '../core/Physics';
-import { GAME_CONFIG, getFruitData, getScoreForMerge } from '../core/config';
+import { GAME_CONFIG, getFruitData } from '../core/config';
 import type { GameConfig, GameState, TurnState } from '../core/types';
-import { Fruit } from './Fruit';
-import { Renderer } from './Renderer';
+import { SeededRandom, createSeed } from '../core/Random';
+import { GameSimulation, type SimulationEvent, type WorldLayout } from './GameSimulation';
+import { Renderer, type FruitView } from './Renderer';
+
+const PLAYER_ID = '1';
+
+// 싱글플레이어 월드: 위에서 떨어뜨려 바닥에 쌓고, 상단 라인을 넘으면 위험
+function createLayout(config: GameConfig): WorldLayout {
+  return {
+    width: config.width,
+    height: config.height,
+    gravityY: GAME_CONFIG.GRAVITY,
+    ceilingY: null,
+    launchY: GAME_CONFIG.DROP_AREA_Y,
+    gameOverY: GAME_CONFIG.GAME_OVER_LINE_Y,
+  };
+}
 
 export class Game {
-  private physics: Physics;
+  private simulation: GameSimulation;
   private renderer: Renderer;
   private config: GameConfig;
 
-  private fruits: Map<number, Fruit> = new Map();
-  private currentFruit: Fruit | null = null;
-  private nextFruitId = 0;
+  private canDrop = false;
 
   private gameState: GameState = {
-    players: [{ id: '1', name: 'Player 1', score: 0 }],
+    players: [{ id: PLAYER_ID, name: 'Player 1', score: 0 }],
     currentPlayerIndex: 0,
     partyScore: 0,
     maxFruitSize: 1,
@@ -31,85 +42,32 @@ export class Game {
   private turnTimer: number | null = null;
   private isRunning = false;
 
-  constructor(canvas: HTMLCanvasElement, config: GameConfig) {
+  constructor(canvas: HTMLCanvasElement, config: GameConfig, seed: number = createSeed()) {
     this.config = config;
-    this.physics = new Physics();
-    this.renderer = new Renderer(canvas, config.width, config.height);
+    const layout = createLayout(config);
+    this.simulation = new GameSimulation({ rng: new SeededRandom(seed), layout });
+    this.renderer = new Renderer(canvas, config.width, config.height, layout);
 
-    this.physics.createWalls(config.width, config.height);
-    this.setupCollisionHandling();
     this.setupInput(canvas);
   }
 
-  private setupCollisionHandling(): void {
-    this.physics.onCollision((pairs) => {
-      for (const pair of pairs) {
-        this.handleCollision(pair.bodyA, pair.bodyB);
-      }
-    });
-  }
-
-  private handleCollision(bodyA: Matter.Body, bodyB: Matter.Body): void {
-    const fruitA = this.findFruitByBody(bodyA);
-    const fruitB = this.findFruitByBody(bodyB);
-
-    if (!fruitA || !fruitB) return;
-    if (!fruitA.isDropped || !fruitB.isDropped) return;
-    if (fruitA.size !== fruitB.size) return;
-
-    this.mergeFruits(fruitA, fruitB);
-  }
-
-  private findFruitByBody(body: Matter.Body): Fruit | undefined {
-    for (const fruit of this.fruits.values()) {
-      if (fruit.body === body) return fruit;
-    }
-    return undefined;
-  }
-
-  private mergeFruits(fruitA: Fruit, fruitB: Fruit): void {
-    const newSize = fruitA.size + 1;
-    const midX = (fruitA.x + fruitB.x) / 2;
-    const midY = (fruitA.y + fruitB.y) / 2;
-
-    this.removeFruit(fruitA);
-    this.removeFruit(fruitB);
-
-    const newFruit = this.createFruit(midX, midY, newSize);
-    newFruit.isDropped = true;
-
-    const score = getScoreForMerge(newSize);
-    this.addScore(score);
-
-    if (newSize > this.gameState.maxFruitSize) {
-      this.gameState.maxFruitSize = newSize;
-    }
-  }
-
-  private createFruit(x: number, y: number, size: number): Fruit {
-    const fruitData = getFruitData(size);
-    const body = this.physics.createCircle(x, y, fruitData.radius, {
-      label: `fruit_${size}`,
-    });
-    const fruit = new Fruit(body, size);
-    this.fruits.set(this.nextFruitId++, fruit);
-    return fruit;
-  }
-
-  private removeFruit(fruit: Fruit): void {
-    this.physics.removeBody(fruit.body);
-    for (const [id, f] of this.fruits) {
-      if (f === fruit) {
-        this.fruits.delete(id);
-        break;
+  private handleSimulationEvents(events: SimulationEvent[]): void {
+    for (const event of events) {
+      if (event.type === 'merge') {
+        this.updateScore();
+      } else if (event.type === 'game_over') {
+        this.gameState.isGameOver = true;
+        this.endGame();
       }
     }
   }
 
-  private addScore(score: number): void {
+  // 점수는 시뮬레이션 누적값을 그대로 반영
+  private updateScore(): void {
     const currentPlayer = this.gameState.players[this.gameState.currentPlayerIndex];
-    currentPlayer.score += score;
-    this.gameState.partyScore += score;
+    currentPlayer.score = this.simulation.scores[currentPlayer.id] ?? 0;
+    this.gameState.partyScore = this.simulation.partyScore;
+    this.gameState.maxFruitSize = this.simulation.maxFruitSize;
     this.updateScoreDisplay();
   }
 
@@ -123,42 +81,48 @@ export class Game {
     }
   }
 
+  private clampDropX(x: number): number {
+    const radius = getFruitData(this.turnState.currentFruitSize).radius;
+    return Math.max(radius + 4, Math.min(this.config.width - radius - 4, x));
+  }
+
   private setupInput(canvas: HTMLCanvasElement): void {
     canvas.addEventListener('mousemove', (e) => {
-      if (!this.currentFruit || this.gameState.isGameOver) return;
+      if (!this.canDrop || this.gameState.isGameOver) return;
       const rect = canvas.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const radius = this.currentFruit.radius;
-      this.turnState.dropX = Math.max(radius + 4, Math.min(this.config.width - radius - 4, x));
-      this.currentFruit.setPosition(this.turnState.dropX, GAME_CONFIG.DROP_AREA_Y);
+      this.turnState.dropX = this.clampDropX(e.clientX - rect.left);
     });
 
     canvas.addEventListener('click', () => {
-      if (!this.currentFruit || this.gameState.isGameOver) return;
+      if (!this.canDrop || this.gameState.isGameOver) return;
       this.dropCurrentFruit();
     });
 
     document.addEventListener('keydown', (e) => {
-      if (!this.currentFruit || this.gameState.isGameOver) return;
+      if (!this.canDrop || this.gameState.isGameOver) return;
       const moveSpeed = 10;
-      const radius = this.currentFruit.radius;
 
       if (e.key === 'ArrowLeft') {
-        this.turnState.dropX = Math.max(radius + 4, this.turnState.dropX - moveSpeed);
+        this.turnState.dropX = this.clampDropX(this.turnState.dropX - moveSpeed);
       } else if (e.key === 'ArrowRight') {
-        this.turnState.dropX = Math.min(this.config.width - radius - 4, this.turnState.dropX + moveSpeed);
+        this.turnState.dropX = this.clampDropX(this.turnState.dropX + moveSpeed);
       } else if (e.key === ' ' || e.key === 'Enter') {
         this.dropCurrentFruit();
       }
-      this.currentFruit.setPosition(this.turnState.dropX, GAME_CONFIG.DROP_AREA_Y);
     });
   }
 
   private dropCurrentFruit(): void {
-    if (!this.currentFruit) return;
-
-    this.currentFruit.drop();
-    this.currentFruit = null;
+    if (!this.canDrop) return;
+    this.canDrop = false;
+
+    // 싱글플레이어는 제자리에서 놓아 떨어뜨림 (속도 0)
+    this.simulation.launch({
+      playerId: PLAYER_ID,
+      x: this.turnState.dropX,
+      velocity: { x: 0, y: 0 },
+      size: this.turnState.currentFruitSize,
+    });
 
     if (this.turnTimer) {
       clearInterval(this.turnTimer);
@@ -166,23 +130,12 @@ export class Game {
     }
 
     setTimeout(() => {
-      this.checkGameOver();
       if (!this.gameState.isGameOver) {
         this.startTurn();
       }
     }, 500);
   }
 
-  private checkGameOver(): void {
-    for (const fruit of this.fruits.values()) {
-      if (fruit.isDropped && fruit.y - fruit.radius < GAME_CONFIG.GAME_OVER_LINE_Y) {
-        this.gameState.isGameOver = true;
-        this.endGame();
-        return;
-      }
-    }
-  }
-
   private endGame(): void {
     this.isRunning = false;
     if (this.turnTimer) {
@@ -191,24 +144,11 @@ export class Game {
     alert(`Game Over! Party Score: ${this.gameState.partyScore}`);
   }
 
-  private getRandomFruitSize(): number {
-    const maxSpawnSize = Math.max(1, this.gameState.maxFruitSize - 1);
-    const clampedMax = Math.min(maxSpawnSize, 5);
-    return Math.floor(Math.random() * clampedMax) + 1;
-  }
-
   private startTurn(): void {
     this.turnState.timeRemaining = GAME_CONFIG.TURN_TIME;
-    this.turnState.currentFruitSize = this.getRandomFruitSize();
-    this.turnState.dropX = this.config.width / 2;
-
-    const fruit = this.createFruit(
-      this.turnState.dropX,
-      GAME_CONFIG.DROP_AREA_Y,
-      this.turnState.currentFruitSize
-    );
-    fruit.setStatic(true);
-    this.currentFruit = fruit;
+    this.turnState.currentFruitSize = this.simulation.nextFruitSize();
+    this.turnState.dropX = this.clampDropX(this.config.width / 2);
+    this.canDrop = true;
 
     this.turnTimer = window.setInterval(() => {
       this.turnState.timeRemaining--;
@@ -227,15 +167,26 @@ export class Game {
     }
   }
 
+  private getFruitViews(): FruitView[] {
+    const views: FruitView[] = [];
+    for (const [id, body] of this.simulation.bodies) {
+      const size = this.simulation.getFruitSize(id);
+      if (!size) continue;
+      views.push({ ...getFruitData(size), x: body.position.x, y: body.position.y, angle: body.angle });
+    }
+    return views;
+  }
+
   private gameLoop = (): void => {
     if (!this.isRunning) return;
 
-    this.physics.update();
-    this.renderer.render(
-      Array.from(this.fruits.values()),
-      this.turnState.dropX,
-      this.currentFruit
-    );
+    this.handleSimulationEvents(this.simulation.step());
+
+    // 떨어뜨리기 전 과일은 드롭 위치에 미리보기로만 표시
+    const preview = this.canDrop
+      ? { ...getFruitData(this.turnState.currentFruitSize), x: this.turnState.dropX, y: GAME_CONFIG.DROP_AREA_Y }
+      : null;
+    this.renderer.render(this.getFruitViews(), this.turnState.dropX, preview);
 
     requestAnimationFrame(this.gameLoop);
   };
@@ -252,4 +203,9 @@ export class Game {
       clearInterval(this.turnTimer);
     }
   }
+
+  destroy(): void {
+    this.stop();
+    this.simulation.destroy();
+  }
 }
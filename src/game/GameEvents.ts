@@ -0,0 +1,40 @@
+// 게임 진행 신호 (MultiplayerGame → 업적 판정 등)
+// 권위자는 시뮬레이션 이벤트에서, 나머지 클라이언트는 방 이벤트 로그에서 같은 형식으로 만듦
+export type GameEvent =
+  | { type: 'launch'; frame: number; playerId: string; size: number; playerCount: number }
+  | {
+      type: 'merge';
+      frame: number;
+      playerId: string;       // 합성을 일으킨 드롭의 플레이어 (새 과일 소유자)
+      size: number;           // 합성 결과 크기 (폭발이면 MAX_FRUIT_SIZE)
+      x: number;
+      y: number;
+      scoreGain: number;
+      combo: number;          // 같은 드롭의 몇 번째 합성인지
+      exploded: boolean;
+      bankShot: boolean;
+      overLineFrames: number;
+    }
+  | { type: 'game_over'; frame: number; partyScore: number };
+
+type GameEventListener = (event: GameEvent) => void;
+
+export class GameEventBus {
+  private listeners: GameEventListener[] = [];
+
+  on(listener: GameEventListener): void {
+    this.listeners.push(listener);
+  }
+
+  off(listener: GameEventListener): void {
+    this.listeners = this.listeners.filter((l) => l !== listener);
+  }
+
+  emit(event: GameEvent): void {
+    this.listeners.forEach((listener) => listener(event));
+  }
+
+  clear(): void {
+    this.listeners = [];
+  }
+}
@@ -0,0 +1,285 @@
+import { describe, expect, it } from 'vitest';
+import { SeededRandom } from '../core/Random';
+import { MAX_COMBO_MULTIPLIER, MAX_FRUIT_SIZE, getScoreForMerge } from '../core/config';
+import {
+  GAME_OVER_CHECK_FRAMES,
+  DROP_GRACE_FRAMES,
+  GameSimulation,
+  type LaunchInput,
+  type WorldLayout,
+  type MergeEvent,
+  type SimulationEvent,
+} from './GameSimulation';
+
+function createSimulation(seed = 42): GameSimulation {
+  return new GameSimulation({ rng: new SeededRandom(seed) });
+}
+
+// 첫 합성이 나올 때까지 진행 (최대 maxFrames)
+function stepUntilMerge(simulation: GameSimulation, maxFrames = 120): MergeEvent {
+  for (let i = 0; i < maxFrames; i++) {
+    for (const event of simulation.step()) {
+      if (event.type === 'merge') return event.merge;
+    }
+  }
+  throw new Error('No merge within frame budget');
+}
+
+// 시드 고정 무작위 발사 목록 (게임오버까지 갈 만큼 충분히)
+function randomInputs(seed: number, count: number): LaunchInput[] {
+  const rng = new SeededRandom(seed);
+  return Array.from({ length: count }, (_, i) => ({
+    playerId: `p${i % 3}`,
+    x: 60 + rng.next() * 280,
+    velocity: { x: (rng.next() - 0.5) * 6, y: -10 },
+    size: 1 + rng.nextInt(3),
+  }));
+}
+
+describe('GameSimulation scoring', () => {
+  it('credits the whole merge score to a single owner', () => {
+    const simulation = createSimulation();
+    simulation.addFruit('a', 200, 300, 2, undefined, 'p1');
+    simulation.addFruit('b', 200 + 40, 300, 2, undefined, 'p1');
+
+    const merge = stepUntilMerge(simulation);
+
+    expect(merge.newSize).toBe(3);
+    expect(merge.combo).toBe(1);
+    expect(merge.scoreGain).toBe(getScoreForMerge(3));
+    expect(merge.credits).toEqual([{ playerId: 'p1', score: getScoreForMerge(3) }]);
+    expect(simulation.scores).toEqual({ p1: getScoreForMerge(3) });
+    expect(simulation.partyScore).toBe(getScoreForMerge(3));
+    expect(simulation.maxFruitSize).toBe(3);
+    simulation.destroy();
+  });
+
+  it('splits the merge score between two owners', () => {
+    const simulation = createSimulation();
+    simulation.addFruit('a', 200, 300, 3, undefined, 'p1');
+    simulation.addFruit('b', 200 + 58, 300, 3, undefined, 'p2');
+
+    const merge = stepUntilMerge(simulation);
+    const gain = getScoreForMerge(4);
+    const half = Math.floor(gain / 2);
+
+    expect(merge.credits).toEqual([
+      { playerId: 'p1', score: half },
+      { playerId: 'p2', score: gain - half },
+    ]);
+    expect(simulation.partyScore).toBe(gain);
+    simulation.destroy();
+  });
+
+  it('keeps the party score equal to the sum of merge gains', () => {
+    const result = GameSimulation.run(randomInputs(7, 80), { rng: new SeededRandom(42) });
+    const merged = result.merges.reduce((sum, merge) => sum + merge.scoreGain, 0);
+    const credited = Object.values(result.scores).reduce((sum, score) => sum + score, 0);
+
+    expect(result.merges.length).toBeGreaterThan(0);
+    expect(result.partyScore).toBe(merged);
+    expect(credited).toBe(merged);
+  });
+
+  it('produces the same result for the same seed and inputs', () => {
+    const inputs = randomInputs(11, 60);
+    const a = GameSimulation.run(inputs, { rng: new SeededRandom(3) });
+    const b = GameSimulation.run(inputs, { rng: new SeededRandom(3) });
+
+    expect(b).toEqual(a);
+  });
+});
+
+// 발사 이후 같은 프레임에 터지는 크기 2 쌍을 count개 배치
+function addMergingPairs(simulation: GameSimulation, count: number): void {
+  for (let i = 0; i < count; i++) {
+    const x = i % 2 === 0 ? 70 : 290;
+    const y = 150 + Math.floor(i / 2) * 100;
+    simulation.addFruit(`pair${i}_a`, x, y, 2, undefined, 'p1');
+    simulation.addFruit(`pair${i}_b`, x + 40, y, 2, undefined, 'p1');
+  }
+}
+
+function collectMerges(simulation: GameSimulation, frames: number): MergeEvent[] {
+  const merges: MergeEvent[] = [];
+  for (let i = 0; i < frames; i++) {
+    for (const event of simulation.step()) {
+      if (event.type === 'merge') merges.push(event.merge);
+    }
+  }
+  return merges;
+}
+
+const LAUNCH: LaunchInput = { playerId: 'p1', x: 200, velocity: { x: 0, y: -10 }, size: 1 };
+
+describe('GameSimulation combo', () => {
+  it('counts merges after a launch and caps the multiplier', () => {
+    const simulation = createSimulation();
+    addMergingPairs(simulation, MAX_COMBO_MULTIPLIER + 1);
+    simulation.launch(LAUNCH);
+
+    const merges = collectMerges(simulation, 1);
+
+    expect(merges.map((merge) => merge.combo)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(merges.map((merge) => merge.scoreGain)).toEqual([1, 2, 3, 4, 5, 5].map((n) => getScoreForMerge(3) * n));
+    expect(simulation.partyScore).toBe(merges.reduce((sum, merge) => sum + merge.scoreGain, 0));
+    simulation.destroy();
+  });
+
+  it('restarts the combo on the next launch', () => {
+    const simulation = createSimulation();
+    addMergingPairs(simulation, 2);
+    simulation.launch(LAUNCH);
+    expect(collectMerges(simulation, 1).map((merge) => merge.combo)).toEqual([1, 2]);
+
+    simulation.addFruit('late_a', 70, 450, 2, undefined, 'p2');
+    simulation.addFruit('late_b', 110, 450, 2, undefined, 'p2');
+    simulation.launch({ ...LAUNCH, playerId: 'p2' });
+    const [merge] = collectMerges(simulation, 1);
+
+    expect(merge.combo).toBe(1);
+    expect(merge.scoreGain).toBe(getScoreForMerge(3));
+    simulation.destroy();
+  });
+
+  it('chains combos consistently over a scripted game', () => {
+    const result = GameSimulation.run(randomInputs(42, 150), { rng: new SeededRandom(7) });
+    let previous = 0;
+
+    for (const merge of result.merges) {
+      // 콤보는 새 드롭마다 1부터, 같은 드롭 안에서는 1씩 증가
+      expect([1, previous + 1]).toContain(merge.combo);
+      expect(merge.scoreGain).toBe(getScoreForMerge(merge.newSize, merge.combo));
+      previous = merge.combo;
+    }
+    expect(result.merges.some((merge) => merge.combo > 1)).toBe(true);
+    expect(result.partyScore).toBe(result.merges.reduce((sum, merge) => sum + merge.scoreGain, 0));
+  });
+});
+
+describe('GameSimulation explosion', () => {
+  it('removes a size-10 merge and pushes nearby fruits away', () => {
+    const simulation = createSimulation();
+    simulation.addFruit('a', 200, 190, MAX_FRUIT_SIZE - 1, undefined, 'p1');
+    simulation.addFruit('b', 200, 190 + 222, MAX_FRUIT_SIZE - 1, undefined, 'p1');
+    simulation.addFruit('c', 50, 300, 1, undefined, 'p2');
+    const before = simulation.bodies.get('c')!.position.x;
+
+    const merge = stepUntilMerge(simulation);
+
+    expect(merge.exploded).toBe(true);
+    expect(merge.newFruitId).toBeNull();
+    expect(merge.newSize).toBe(MAX_FRUIT_SIZE);
+    expect(merge.scoreGain).toBe(getScoreForMerge(MAX_FRUIT_SIZE));
+    expect(simulation.maxFruitSize).toBe(MAX_FRUIT_SIZE);
+    expect(simulation.hasFruit('a')).toBe(false);
+    expect(simulation.hasFruit('b')).toBe(false);
+    expect(simulation.bodies.size).toBe(1);
+
+    simulation.step();
+    expect(simulation.bodies.get('c')!.position.x).toBeLessThan(before);
+    simulation.destroy();
+  });
+});
+
+describe('GameSimulation game over', () => {
+  it('ends the game exactly GAME_OVER_CHECK_FRAMES after the countdown starts', () => {
+    const simulation = createSimulation();
+    const inputs = randomInputs(5, 200);
+    const events: SimulationEvent[] = [];
+    let countdownStart: number | null = null;
+    let lastLaunch = 0;
+
+    for (const input of inputs) {
+      if (simulation.gameOverFrame !== null) break;
+      simulation.launch(input);
+      lastLaunch = simulation.frame;
+      simulation.drainEvents();
+
+      for (let i = 0; i < 60 && simulation.gameOverFrame === null; i++) {
+        events.push(...simulation.step());
+        if (simulation.gameOverTimer === 0) {
+          countdownStart = null;
+        } else if (countdownStart === null) {
+          countdownStart = simulation.frame;
+          // 드롭 직후 유예 기간에는 카운트다운이 새로 시작되지 않음
+          expect(simulation.frame - lastLaunch).toBeGreaterThanOrEqual(DROP_GRACE_FRAMES);
+        }
+      }
+    }
+    for (let i = 0; i < DROP_GRACE_FRAMES + GAME_OVER_CHECK_FRAMES && simulation.gameOverFrame === null; i++) {
+      events.push(...simulation.step());
+      if (simulation.gameOverTimer === 0) countdownStart = null;
+      else if (countdownStart === null) countdownStart = simulation.frame;
+    }
+
+    const gameOver = events.filter((event) => event.type === 'game_over');
+    expect(gameOver).toHaveLength(1);
+    expect(simulation.gameOverFrame).toBe(gameOver[0].frame);
+    expect(simulation.gameOverFrame! - countdownStart!).toBe(GAME_OVER_CHECK_FRAMES - 1);
+    simulation.destroy();
+  });
+
+  it('stops the scripted run at the game-over frame', () => {
+    const result = GameSimulation.run(randomInputs(5, 200), { rng: new SeededRandom(42) });
+
+    expect(result.gameOverFrame).not.toBeNull();
+    expect(result.frames).toBe(result.gameOverFrame);
+    expect(result.merges.every((merge) => merge.frame <= result.gameOverFrame!)).toBe(true);
+  });
+});
+
+// 싱글플레이어와 같은 배치 (아래쪽 중력, 천장 없음, 위에서 떨어뜨림)
+const DROP_LAYOUT: WorldLayout = {
+  width: 400,
+  height: 600,
+  gravityY: 1,
+  ceilingY: null,
+  launchY: 80,
+  gameOverY: 100,
+};
+
+describe('GameSimulation layout', () => {
+  it('drops a still fruit that falls onto the floor of a downward-gravity world', () => {
+    const simulation = new GameSimulation({ rng: new SeededRandom(42), layout: DROP_LAYOUT });
+    const id = simulation.launch({ playerId: 'p1', x: 200, velocity: { x: 0, y: 0 }, size: 2 });
+
+    for (let i = 0; i < 200; i++) simulation.step();
+
+    const body = simulation.bodies.get(id)!;
+    expect(body.position.y).toBeGreaterThan(DROP_LAYOUT.height - 30);
+    expect(simulation.isAtRest()).toBe(true);
+    simulation.destroy();
+  });
+
+  it('merges with the same scoring rules as the default world', () => {
+    const simulation = new GameSimulation({ rng: new SeededRandom(42), layout: DROP_LAYOUT });
+    simulation.addFruit('a', 200, 500, 2, undefined, 'p1');
+    simulation.addFruit('b', 240, 500, 2, undefined, 'p1');
+
+    const merge = stepUntilMerge(simulation);
+
+    expect(merge.newSize).toBe(3);
+    expect(merge.scoreGain).toBe(getScoreForMerge(3));
+    expect(simulation.partyScore).toBe(getScoreForMerge(3));
+    simulation.destroy();
+  });
+
+  it('ends the game when a fruit rests above the top line', () => {
+    // 낮은 월드: 바닥에 놓인 크기 4 과일의 상단이 라인 위로 나옴
+    const layout: WorldLayout = { ...DROP_LAYOUT, height: 150 };
+    const simulation = new GameSimulation({ rng: new SeededRandom(42), layout });
+    simulation.launch({ playerId: 'p1', x: 200, velocity: { x: 0, y: 0 }, size: 4 });
+
+    let gameOverFrame: number | null = null;
+    for (let i = 0; i < DROP_GRACE_FRAMES + GAME_OVER_CHECK_FRAMES && gameOverFrame === null; i++) {
+      for (const event of simulation.step()) {
+        if (event.type === 'game_over') gameOverFrame = event.frame;
+      }
+    }
+
+    // 유예 기간이 끝난 직후 카운트다운 시작
+    expect(gameOverFrame).toBe(DROP_GRACE_FRAMES + GAME_OVER_CHECK_FRAMES - 1);
+    simulation.destroy();
+  });
+});
@@ -0,0 +1,793 @@
+import Matter from 'matter-js';
+import { FRUIT_DATA, MAX_FRUIT_SIZE, getScoreForMerge } from '../core/config';
+import { hashString, type SeededRandom } from '../core/Random';
+import { pickNextFruitSize } from '../core/FruitQueue';
+
+// 월드 규격 (상하 반전: 하단에서 발사, 천장에 쌓임)
+export const WORLD_WIDTH = 400;
+export const WORLD_HEIGHT = 600;
+export const CEILING_Y = 70;        // 천장 Y좌표 (상단 UI 영역 바로 아래)
+export const LAUNCH_Y = 540;        // 발사 위치 (하단)
+export const GAME_OVER_Y = 500;     // 게임오버 라인 (하단, 오브젝트가 여기까지 내려오면 위험)
+export const FRAME_MS = 1000 / 60;  // 고정 시간 간격
+
+export const MIN_LAUNCH_SPEED = 5;  // 최소 발사 속도
+export const MAX_LAUNCH_SPEED = 15; // 최대 발사 속도
+
+export const GAME_OVER_CHECK_FRAMES = 120; // 게임오버 판정까지 2초 (60fps * 2)
+export const DROP_GRACE_FRAMES = 180;      // 드롭 후 3초 동안은 게임오버 체크 안함
+const COMBO_WINDOW_FRAMES = DROP_GRACE_FRAMES; // 콤보는 드롭 후 모두 멈출 때까지, 최대 3초
+const REST_SPEED = 0.3;                    // 이 속도 미만이면 멈춘 것으로 취급
+
+// 합성 시 튕김 계수 (속도 벡터 크기에 비례)
+const MERGE_BOUNCE_MULTIPLIER = 3.0; // 합성 전 속도의 300%로 튕김
+
+// 크기 10 폭발 충격파
+const EXPLOSION_RADIUS = 200;      // 충격파 영향 범위 (px)
+const EXPLOSION_FORCE = 0.05;      // 충격파 힘
+
+// 스크립트 실행 기본값
+const DEFAULT_LAUNCH_INTERVAL_FRAMES = 60;                               // 발사 간격 1초
+const DEFAULT_FINAL_FRAMES = DROP_GRACE_FRAMES + GAME_OVER_CHECK_FRAMES; // 마지막 발사 후 게임오버 판정까지
+
+// 월드 배치 (중력 방향, 벽, 발사 위치, 게임오버 라인)
+export interface WorldLayout {
+  width: number;
+  height: number;
+  gravityY: number;         // 음수면 위쪽 중력 (천장에 쌓임), 양수면 바닥에 쌓임
+  ceilingY: number | null;  // 천장 Y좌표 (null이면 천장 없음)
+  launchY: number;          // 발사 위치
+  gameOverY: number;        // 게임오버 라인 (쌓인 과일이 이 선을 넘으면 위험)
+}
+
+// 멀티플레이 월드 (상하 반전: 하단에서 발사, 천장에 쌓임)
+export const DEFAULT_LAYOUT: WorldLayout = {
+  width: WORLD_WIDTH,
+  height: WORLD_HEIGHT,
+  gravityY: -1,
+  ceilingY: CEILING_Y,
+  launchY: LAUNCH_Y,
+  gameOverY: GAME_OVER_Y,
+};
+
+export interface LaunchInput {
+  playerId: string;
+  x: number;
+  velocity: { x: number; y: number };
+  size: number;
+  frame?: number; // 발사할 시뮬레이션 프레임 (run 전용, 생략 시 이전 발사 + 간격)
+}
+
+export interface ScoreCredit {
+  playerId: string;
+  score: number;
+}
+
+export interface MergeEvent {
+  frame: number;
+  removedIds: [string, string];
+  newFruitId: string | null; // 크기 10 폭발이면 null
+  newSize: number;
+  x: number;
+  y: number;
+  scoreGain: number;
+  combo: number;             // 같은 드롭의 몇 번째 합성인지 (콤보 구간 밖이면 1)
+  credits: ScoreCredit[];    // 점수 분배 (소유자가 같으면 전체, 다르면 절반씩)
+  ownerId: string | null;    // 새 과일 소유자
+  exploded: boolean;
+  bankShot: boolean;         // 발사된 과일이 다른 과일보다 좌우 벽에 먼저 닿은 뒤 합성
+  overLineFrames: number;    // 합성 시점의 게임오버 카운트다운 진행 프레임 (0이면 카운트다운 없음)
+}
+
+export type SimulationEvent =
+  | { type: 'launch'; frame: number; fruitId: string; input: LaunchInput }
+  | { type: 'merge'; merge: MergeEvent }
+  | { type: 'game_over'; frame: number };
+
+// 과일 하나의 전체 물리 상태 (스냅샷용)
+export interface FruitSnapshot {
+  id: string;
+  size: number;
+  ownerId?: string | null;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  angle: number;
+  angularVelocity: number;
+  inFlight?: { vx: number; vy: number } | null;
+}
+
+// 시뮬레이션 전체 상태 (재동기화 시 그대로 복원)
+// Firebase에 저장되므로 빈 값(null, 빈 배열/객체)은 생략될 수 있음
+export interface SimulationSnapshot {
+  frame: number;
+  lastDropFrame: number;
+  lastDropPlayerId?: string | null;
+  combo?: number;
+  comboOpen?: boolean;
+  overLineFrames: number;
+  gameOverFrame?: number | null;
+  maxFruitSize: number;
+  scores?: Record<string, number>;
+  partyScore: number;
+  rngState: number;
+  fruits?: FruitSnapshot[];
+}
+
+export interface SimulationOptions {
+  rng: SeededRandom;
+  // true면 합성/점수/게임오버를 판정 (호스트), false면 물리 이동만 (비호스트 예측 렌더링)
+  authoritative?: boolean;
+  layout?: WorldLayout; // 생략 시 DEFAULT_LAYOUT
+}
+
+export interface RunOptions {
+  launchIntervalFrames?: number; // frame 없는 입력 사이 간격
+  finalFrames?: number;          // 마지막 발사 후 더 진행할 프레임
+}
+
+export interface SimulationResult {
+  merges: MergeEvent[];
+  scores: Record<string, number>;
+  partyScore: number;
+  maxFruitSize: number;
+  gameOverFrame: number | null;
+  frames: number;
+}
+
+// 캔버스/DOM/타이머 없이 게임 규칙만 돌리는 헤드리스 시뮬레이션
+// MultiplayerGame, Game 모두 이 위에서 렌더링만 담당 (월드 배치만 다름)
+export class GameSimulation {
+  private engine: Matter.Engine;
+  private rng: SeededRandom;
+  private authoritative: boolean;
+  private layout: WorldLayout;
+
+  private fruits = new Map<string, Matter.Body>();
+  private fruitSizes = new Map<string, number>();
+  private fruitOwners = new Map<string, string>();
+
+  // 비행 중인 과일 (중력 무시, 충돌 시 해제) - 발사 속도 저장
+  private inFlightFruits = new Map<string, { vx: number; vy: number }>();
+
+  // 충돌 처리 (같은 프레임 안의 합성은 엔진 업데이트 후 순서대로 처리)
+  private mergedPairs = new Set<string>();
+  private pendingMerges: Array<{ idA: string; idB: string; size: number; pairKey: string; bankShot: boolean }> = [];
+
+  // 뱅크샷 판정: 발사 후 아직 다른 과일에 닿지 않은 과일, 그중 좌우 벽에 닿은 과일 (스냅샷에는 저장 안 함)
+  private freshLaunches = new Set<string>();
+  private wallBounced = new Set<string>();
+
+  private currentFrame = 0;
+  private lastDropFrame = 0;
+  private lastDropPlayerId: string | null = null; // 마지막 드롭한 플레이어 (합성 점수용)
+
+  // 콤보: 드롭 후 안정화될 때까지의 합성 수
+  private combo = 0;
+  private comboOpen = false;
+
+  // 게임오버 판정
+  private overLineFrames = 0;
+  private overLine = false;
+  private gameOverAt: number | null = null;
+
+  private maxSize = 1;
+  private playerScores: Record<string, number> = {};
+  private totalScore = 0;
+
+  private events: SimulationEvent[] = [];
+
+  constructor(options: SimulationOptions) {
+    this.rng = options.rng;
+    this.authoritative = options.authoritative ?? true;
+    this.layout = options.layout ?? DEFAULT_LAYOUT;
+    this.engine = this.createEngine();
+  }
+
+  private createEngine(): Matter.Engine {
+    const engine = Matter.Engine.create();
+    const { width, height, gravityY, ceilingY } = this.layout;
+    engine.world.gravity.y = gravityY;
+
+    // 벽 생성 (바닥, 좌우 벽, 천장)
+    const walls = [
+      Matter.Bodies.rectangle(width / 2, height + 10, width + 40, 20, { isStatic: true, label: 'floor' }),
+      Matter.Bodies.rectangle(-10, height / 2, 20, height * 2, { isStatic: true, label: 'wall' }),
+      Matter.Bodies.rectangle(width + 10, height / 2, 20, height * 2, { isStatic: true, label: 'wall' }),
+    ];
+    if (ceilingY !== null) {
+      // 천장 (UI 영역 아래, 폭죽이 여기에 쌓임)
+      walls.push(Matter.Bodies.rectangle(width / 2, ceilingY - 10, width + 40, 20, { isStatic: true, label: 'ceiling' }));
+    }
+    Matter.Composite.add(engine.world, walls);
+
+    Matter.Events.on(engine, 'collisionStart', (event) => this.handleCollision(event));
+    return engine;
+  }
+
+  // 입력 목록을 처음부터 끝까지 실행 (회귀 테스트용)
+  static run(inputs: LaunchInput[], options: SimulationOptions & RunOptions): SimulationResult {
+    const simulation = new GameSimulation(options);
+    const interval = options.launchIntervalFrames ?? DEFAULT_LAUNCH_INTERVAL_FRAMES;
+    const finalFrames = options.finalFrames ?? DEFAULT_FINAL_FRAMES;
+    const merges: MergeEvent[] = [];
+
+    const stepUntil = (targetFrame: number) => {
+      while (simulation.frame < targetFrame && simulation.gameOverFrame === null) {
+        for (const event of simulation.step()) {
+          if (event.type === 'merge') merges.push(event.merge);
+        }
+      }
+    };
+
+    let nextFrame = 0;
+    for (const input of inputs) {
+      stepUntil(input.frame ?? nextFrame);
+      if (simulation.gameOverFrame !== null) break;
+
+      simulation.launch(input);
+      simulation.drainEvents();
+      nextFrame = simulation.frame + interval;
+    }
+    stepUntil(simulation.frame + finalFrames);
+
+    const result: SimulationResult = {
+      merges,
+      scores: { ...simulation.scores },
+      partyScore: simulation.partyScore,
+      maxFruitSize: simulation.maxFruitSize,
+      gameOverFrame: simulation.gameOverFrame,
+      frames: simulation.frame,
+    };
+    simulation.destroy();
+    return result;
+  }
+
+  get frame(): number {
+    return this.currentFrame;
+  }
+
+  get bodies(): ReadonlyMap<string, Matter.Body> {
+    return this.fruits;
+  }
+
+  get maxFruitSize(): number {
+    return this.maxSize;
+  }
+
+  get scores(): Readonly<Record<string, number>> {
+    return this.playerScores;
+  }
+
+  get partyScore(): number {
+    return this.totalScore;
+  }
+
+  get gameOverFrame(): number | null {
+    return this.gameOverAt;
+  }
+
+  // 게임오버 카운트다운 (경고 표시용)
+  get gameOverTimer(): number {
+    return this.overLineFrames;
+  }
+
+  get isOverLine(): boolean {
+    return this.overLine;
+  }
+
+  get worldLayout(): WorldLayout {
+    return this.layout;
+  }
+
+  get isAuthoritative(): boolean {
+    return this.authoritative;
+  }
+
+  setAuthoritative(authoritative: boolean): void {
+    this.authoritative = authoritative;
+  }
+
+  getFruitSize(id: string): number | undefined {
+    return this.fruitSizes.get(id);
+  }
+
+  getOwner(id: string): string | undefined {
+    return this.fruitOwners.get(id);
+  }
+
+  setOwner(id: string, ownerId: string): void {
+    this.fruitOwners.set(id, ownerId);
+  }
+
+  hasFruit(id: string): boolean {
+    return this.fruits.has(id);
+  }
+
+  // 서버의 maxFruitSize 반영 (다른 클라이언트가 만든 최대 크기)
+  raiseMaxFruitSize(size: number): void {
+    if (size > this.maxSize) {
+      this.maxSize = size;
+    }
+  }
+
+  nextFruitSize(): number {
+    return pickNextFruitSize(this.maxSize, this.rng);
+  }
+
+  createFruitId(): string {
+    return `fruit_${this.currentFrame}_${this.rng.nextId()}`;
+  }
+
+  // 플레이어 발사: 비행 상태로 생성, 게임오버 유예 시작
+  // 속도 0이면 제자리에 놓기만 함 (비행 없이 바로 중력 적용)
+  launch(input: LaunchInput, fruitId: string = this.createFruitId()): string {
+    this.lastDropFrame = this.currentFrame;
+    this.lastDropPlayerId = input.playerId;
+    this.combo = 0;
+    this.comboOpen = true;
+
+    const inFlight = input.velocity.x !== 0 || input.velocity.y !== 0;
+    this.addFruit(fruitId, input.x, this.layout.launchY, input.size, input.velocity, input.playerId, inFlight);
+    this.freshLaunches.add(fruitId);
+    this.events.push({ type: 'launch', frame: this.currentFrame, fruitId, input });
+
+    return fruitId;
+  }
+
+  addFruit(
+    id: string,
+    x: number,
+    y: number,
+    size: number,
+    initialVelocity?: { x: number; y: number },
+    ownerId?: string,
+    inFlight = false
+  ): Matter.Body {
+    const data = FRUIT_DATA[size - 1] || FRUIT_DATA[0];
+
+    const fruit = Matter.Bodies.circle(x, y, data.radius, {
+      restitution: 0.4,
+      friction: 0.3,
+      frictionAir: 0.01,
+      density: 0.001,
+      label: `${id}_${size}`,
+    });
+
+    Matter.Composite.add(this.engine.world, fruit);
+    this.fruits.set(id, fruit);
+    this.fruitSizes.set(id, size);
+
+    if (ownerId) {
+      this.fruitOwners.set(id, ownerId);
+    }
+
+    // 초기 속도 설정 (발사용)
+    if (initialVelocity) {
+      Matter.Body.setVelocity(fruit, initialVelocity);
+      if (inFlight) {
+        this.inFlightFruits.set(id, { vx: initialVelocity.x, vy: initialVelocity.y });
+      }
+    }
+
+    return fruit;
+  }
+
+  removeFruit(id: string): void {
+    const fruit = this.fruits.get(id);
+    if (!fruit) return;
+
+    Matter.Composite.remove(this.engine.world, fruit);
+    this.fruits.delete(id);
+    this.fruitSizes.delete(id);
+    this.fruitOwners.delete(id);
+    this.inFlightFruits.delete(id);
+    this.freshLaunches.delete(id);
+    this.wallBounced.delete(id);
+  }
+
+  // 원격 상태 반영 (호스트 인계): 위치/속도/회전 모두 덮어씀
+  applyMotion(
+    id: string,
+    motion: { x: number; y: number; vx: number; vy: number; angle: number; angularVelocity: number }
+  ): void {
+    const fruit = this.fruits.get(id);
+    if (!fruit) return;
+
+    Matter.Body.setPosition(fruit, { x: motion.x, y: motion.y });
+    Matter.Body.setAngle(fruit, motion.angle);
+    Matter.Body.setVelocity(fruit, { x: motion.vx, y: motion.vy });
+    Matter.Body.setAngularVelocity(fruit, motion.angularVelocity);
+  }
+
+  // 원격 상태 반영 (비호스트): 위치 고정, 속도 제거
+  moveFruit(id: string, x: number, y: number): void {
+    const fruit = this.fruits.get(id);
+    if (!fruit) return;
+
+    Matter.Body.setPosition(fruit, { x, y });
+    Matter.Body.setVelocity(fruit, { x: 0, y: 0 });
+  }
+
+  // 모든 과일이 멈췄는지 (비행 중/이동 중 과일, 게임오버 라인에 걸린 과일 없음)
+  isAtRest(): boolean {
+    if (this.inFlightFruits.size > 0 || this.pendingMerges.length > 0) return false;
+
+    for (const body of this.fruits.values()) {
+      const speed = Math.sqrt(body.velocity.x ** 2 + body.velocity.y ** 2);
+      if (speed >= REST_SPEED) return false;
+    }
+    return !this.checkFruitsOverLine();
+  }
+
+  // 상태 해시 (클라이언트 간 불일치 감지용, 위치는 소수 둘째 자리까지)
+  stateHash(): string {
+    const parts = [`${this.currentFrame}`, `${this.totalScore}`, `${this.maxSize}`];
+
+    for (const id of Array.from(this.fruits.keys()).sort()) {
+      const body = this.fruits.get(id)!;
+      parts.push([
+        id,
+        this.fruitSizes.get(id),
+        this.fruitOwners.get(id) ?? '',
+        body.position.x.toFixed(2),
+        body.position.y.toFixed(2),
+      ].join(':'));
+    }
+
+    for (const playerId of Object.keys(this.playerScores).sort()) {
+      parts.push(`${playerId}=${this.playerScores[playerId]}`);
+    }
+
+    return hashString(parts.join('|')).toString(36);
+  }
+
+  snapshot(): SimulationSnapshot {
+    const fruits: FruitSnapshot[] = [];
+    for (const [id, body] of this.fruits) {
+      fruits.push({
+        id,
+        size: this.fruitSizes.get(id) ?? 1,
+        ownerId: this.fruitOwners.get(id) ?? null,
+        x: body.position.x,
+        y: body.position.y,
+        vx: body.velocity.x,
+        vy: body.velocity.y,
+        angle: body.angle,
+        angularVelocity: body.angularVelocity,
+        inFlight: this.inFlightFruits.get(id) ?? null,
+      });
+    }
+
+    return {
+      frame: this.currentFrame,
+      lastDropFrame: this.lastDropFrame,
+      lastDropPlayerId: this.lastDropPlayerId,
+      combo: this.combo,
+      comboOpen: this.comboOpen,
+      overLineFrames: this.overLineFrames,
+      gameOverFrame: this.gameOverAt,
+      maxFruitSize: this.maxSize,
+      scores: { ...this.playerScores },
+      partyScore: this.totalScore,
+      rngState: this.rng.getState(),
+      fruits,
+    };
+  }
+
+  // 스냅샷으로 전체 상태 교체 (엔진도 새로 만들어 충돌 캐시까지 초기화)
+  // restoreRng=false면 자기 ID 난수열 유지 (호스트 인계 시 이전 호스트와 ID 충돌 방지)
+  restore(snapshot: SimulationSnapshot, restoreRng = true): void {
+    this.destroy();
+    this.engine = this.createEngine();
+
+    this.mergedPairs.clear();
+    this.pendingMerges = [];
+    this.events = [];
+
+    this.currentFrame = snapshot.frame;
+    this.lastDropFrame = snapshot.lastDropFrame;
+    this.lastDropPlayerId = snapshot.lastDropPlayerId ?? null;
+    this.combo = snapshot.combo ?? 0;
+    this.comboOpen = snapshot.comboOpen ?? false;
+    this.overLineFrames = snapshot.overLineFrames;
+    this.overLine = snapshot.overLineFrames > 0;
+    this.gameOverAt = snapshot.gameOverFrame ?? null;
+    this.maxSize = snapshot.maxFruitSize;
+    this.playerScores = { ...(snapshot.scores ?? {}) };
+    this.totalScore = snapshot.partyScore;
+    if (restoreRng) {
+      this.rng.setState(snapshot.rngState);
+    }
+
+    for (const fruit of snapshot.fruits ?? []) {
+      const body = this.addFruit(fruit.id, fruit.x, fruit.y, fruit.size, undefined, fruit.ownerId ?? undefined);
+      Matter.Body.setAngle(body, fruit.angle);
+      Matter.Body.setVelocity(body, { x: fruit.vx, y: fruit.vy });
+      Matter.Body.setAngularVelocity(body, fruit.angularVelocity);
+      if (fruit.inFlight) {
+        this.inFlightFruits.set(fruit.id, { ...fruit.inFlight });
+      }
+    }
+  }
+
+  // 이번 step 전후로 쌓인 이벤트 꺼내기
+  drainEvents(): SimulationEvent[] {
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  // 고정 시간 간격 1프레임 진행
+  step(): SimulationEvent[] {
+    this.currentFrame++;
+
+    this.applyInFlightVelocities();
+    Matter.Engine.update(this.engine, FRAME_MS);
+    this.resolvePendingMerges();
+
+    if (this.authoritative) {
+      this.updateCombo();
+      this.updateGameOverCheck();
+    }
+
+    return this.drainEvents();
+  }
+
+  destroy(): void {
+    Matter.Events.off(this.engine, 'collisionStart');
+    Matter.World.clear(this.engine.world, false);
+    Matter.Engine.clear(this.engine);
+    this.fruits.clear();
+    this.fruitSizes.clear();
+    this.fruitOwners.clear();
+    this.inFlightFruits.clear();
+    this.freshLaunches.clear();
+    this.wallBounced.clear();
+  }
+
+  // 비행 중인 과일: 중력 무시하고 직선 비행
+  // 방법: 저장된 발사 속도를 매 프레임 직접 적용
+  private applyInFlightVelocities(): void {
+    for (const [fruitId, storedVelocity] of this.inFlightFruits.entries()) {
+      const body = this.fruits.get(fruitId);
+      if (!body) continue;
+
+      // 화면 경계 체크 - 벽에 닿으면 비행 상태 해제
+      const { x, y } = body.position;
+      const radius = FRUIT_DATA[(this.fruitSizes.get(fruitId) ?? 1) - 1]?.radius || 15;
+      const { width, height, ceilingY } = this.layout;
+
+      if (x - radius <= 5 || x + radius >= width - 5 ||
+          y - radius <= (ceilingY ?? 0) + 5 || y + radius >= height - 5) {
+        this.inFlightFruits.delete(fruitId);
+        continue;
+      }
+
+      Matter.Body.setVelocity(body, {
+        x: storedVelocity.vx,
+        y: storedVelocity.vy
+      });
+    }
+  }
+
+  private parseFruitLabel(label: string): { id: string; size: number } | null {
+    const lastUnderscore = label.lastIndexOf('_');
+    if (lastUnderscore === -1) return null;
+    const id = label.substring(0, lastUnderscore);
+    const size = parseInt(label.substring(lastUnderscore + 1));
+    if (isNaN(size)) return null;
+    return { id, size };
+  }
+
+  private handleCollision(event: Matter.IEventCollision<Matter.Engine>): void {
+    for (const pair of event.pairs) {
+      const fruitA = this.parseFruitLabel(pair.bodyA.label);
+      const fruitB = this.parseFruitLabel(pair.bodyB.label);
+
+      // 벽이나 다른 오브젝트와 충돌 시 비행 상태 해제 (중력 적용 시작)
+      if (fruitA) this.inFlightFruits.delete(fruitA.id);
+      if (fruitB) this.inFlightFruits.delete(fruitB.id);
+
+      // 발사된 과일이 다른 과일보다 좌우 벽에 먼저 닿음
+      const wallFruit = pair.bodyA.label === 'wall' ? fruitB : pair.bodyB.label === 'wall' ? fruitA : null;
+      if (wallFruit && this.freshLaunches.has(wallFruit.id)) {
+        this.wallBounced.add(wallFruit.id);
+      }
+
+      if (!fruitA || !fruitB) continue;
+
+      const bankShot = this.wallBounced.has(fruitA.id) || this.wallBounced.has(fruitB.id);
+      for (const id of [fruitA.id, fruitB.id]) {
+        this.freshLaunches.delete(id);
+        this.wallBounced.delete(id);
+      }
+
+      // 합성 판정은 권위자(호스트)만
+      if (!this.authoritative) continue;
+      if (fruitA.size !== fruitB.size) continue;
+
+      const pairKey = [fruitA.id, fruitB.id].sort().join('-');
+      if (this.mergedPairs.has(pairKey)) continue;
+      this.mergedPairs.add(pairKey);
+
+      this.pendingMerges.push({ idA: fruitA.id, idB: fruitB.id, size: fruitA.size, pairKey, bankShot });
+    }
+  }
+
+  private resolvePendingMerges(): void {
+    const merges = this.pendingMerges;
+    this.pendingMerges = [];
+
+    for (const merge of merges) {
+      this.resolveMerge(merge.idA, merge.idB, merge.size, merge.bankShot);
+      this.mergedPairs.delete(merge.pairKey);
+    }
+  }
+
+  private resolveMerge(idA: string, idB: string, size: number, bankShot: boolean): void {
+    const bodyA = this.fruits.get(idA);
+    const bodyB = this.fruits.get(idB);
+
+    // 같은 프레임에 다른 합성으로 이미 사라진 과일
+    if (!bodyA || !bodyB) return;
+
+    const midX = (bodyA.position.x + bodyB.position.x) / 2;
+    const midY = (bodyA.position.y + bodyB.position.y) / 2;
+    const newSize = size + 1;
+
+    const ownerA = this.fruitOwners.get(idA);
+    const ownerB = this.fruitOwners.get(idB);
+
+    // 두 오브젝트의 속도 벡터 합산 (제거 전에 저장)
+    // 속도 크기에 비례해서 튕김 (느리게 부딪히면 거의 안 튕김)
+    const combinedVelocity = {
+      x: (bodyA.velocity.x + bodyB.velocity.x) * 0.5 * MERGE_BOUNCE_MULTIPLIER,
+      y: (bodyA.velocity.y + bodyB.velocity.y) * 0.5 * MERGE_BOUNCE_MULTIPLIER,
+    };
+
+    this.removeFruit(idA);
+    this.removeFruit(idB);
+
+    // 드롭 후 안정화 전의 합성은 콤보 (n번째 합성은 점수 xn)
+    const combo = this.comboOpen ? ++this.combo : 1;
+    const scoreGain = getScoreForMerge(newSize, combo);
+
+    const credits = this.splitScore(scoreGain, ownerA, ownerB);
+    for (const credit of credits) {
+      this.playerScores[credit.playerId] = (this.playerScores[credit.playerId] || 0) + credit.score;
+    }
+    if (credits.length > 0) {
+      this.totalScore += scoreGain;
+    }
+
+    // 새 과일 소유자: 마지막 드롭한 플레이어
+    const newOwnerId = this.lastDropPlayerId || ownerA || ownerB || null;
+
+    let newFruitId: string | null = null;
+    const exploded = newSize >= MAX_FRUIT_SIZE;
+
+    if (exploded) {
+      // 크기 10이면 폭발하며 사라지고 주변 공들에게 충격파
+      this.applyExplosionForce(midX, midY);
+      this.raiseMaxFruitSize(MAX_FRUIT_SIZE);
+    } else {
+      // 새 과일 생성 (두 오브젝트의 속도 벡터 합산 방향으로 튕김)
+      newFruitId = this.createFruitId();
+      this.addFruit(newFruitId, midX, midY, newSize, combinedVelocity, newOwnerId ?? undefined);
+      this.raiseMaxFruitSize(newSize);
+    }
+
+    this.events.push({
+      type: 'merge',
+      merge: {
+        frame: this.currentFrame,
+        removedIds: [idA, idB],
+        newFruitId,
+        newSize,
+        x: midX,
+        y: midY,
+        scoreGain,
+        combo,
+        credits,
+        ownerId: newOwnerId,
+        exploded,
+        bankShot,
+        overLineFrames: this.overLineFrames,
+      },
+    });
+  }
+
+  // 드롭 후 모두 멈췄거나 콤보 구간이 지나면 콤보 종료
+  private updateCombo(): void {
+    if (!this.comboOpen) return;
+    if (this.currentFrame - this.lastDropFrame > COMBO_WINDOW_FRAMES || this.isAtRest()) {
+      this.comboOpen = false;
+    }
+  }
+
+  // 점수 분배: 소유자가 같으면 전체, 다르면 절반씩, 한 쪽만 있으면 그 플레이어에게
+  private splitScore(scoreGain: number, ownerA?: string, ownerB?: string): ScoreCredit[] {
+    if (scoreGain <= 0) return [];
+
+    if (ownerA && ownerB && ownerA === ownerB) {
+      return [{ playerId: ownerA, score: scoreGain }];
+    }
+    if (ownerA && ownerB) {
+      const halfScore = Math.floor(scoreGain / 2);
+      return [
+        { playerId: ownerA, score: halfScore },
+        { playerId: ownerB, score: scoreGain - halfScore },
+      ];
+    }
+    const owner = ownerA || ownerB;
+    return owner ? [{ playerId: owner, score: scoreGain }] : [];
+  }
+
+  // 폭발 충격파 적용 (주변 공들을 밀어냄)
+  private applyExplosionForce(centerX: number, centerY: number): void {
+    for (const body of this.fruits.values()) {
+      const dx = body.position.x - centerX;
+      const dy = body.position.y - centerY;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+
+      // 충격파 범위 내의 공들에게만 적용
+      if (distance > 0 && distance < EXPLOSION_RADIUS) {
+        // 거리에 반비례하는 힘 (가까울수록 강함)
+        const forceMagnitude = EXPLOSION_FORCE * (1 - distance / EXPLOSION_RADIUS);
+
+        Matter.Body.applyForce(body, body.position, {
+          x: (dx / distance) * forceMagnitude,
+          y: (dy / distance) * forceMagnitude,
+        });
+      }
+    }
+  }
+
+  // 과일이 게임오버 라인 위에 있는지 확인 (즉시 판정 아님)
+  private checkFruitsOverLine(): boolean {
+    const { gravityY, gameOverY } = this.layout;
+
+    for (const [id, fruit] of this.fruits) {
+      const radius = FRUIT_DATA[(this.fruitSizes.get(id) ?? 1) - 1]?.radius || 15;
+      // 과일이 쌓이는 반대쪽 끝(위쪽 중력이면 하단, 아래쪽 중력이면 상단)이 라인을 넘고, 속도가 거의 없을 때만
+      const speed = Math.sqrt(fruit.velocity.x ** 2 + fruit.velocity.y ** 2);
+      const overLine = gravityY < 0
+        ? fruit.position.y + radius > gameOverY
+        : fruit.position.y - radius < gameOverY;
+      if (overLine && speed < 2) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private updateGameOverCheck(): void {
+    if (this.gameOverAt !== null) return;
+
+    const overLine = this.checkFruitsOverLine();
+    const graceActive = this.currentFrame - this.lastDropFrame < DROP_GRACE_FRAMES;
+
+    if (overLine) {
+      if (this.overLineFrames > 0) {
+        // 이미 카운트다운 진행중이면 계속 (새 드롭과 무관하게)
+        this.overLineFrames++;
+        this.overLine = true;
+      } else if (!graceActive) {
+        // 카운트다운 시작 (3초 유예 기간 지난 후에만)
+        this.overLineFrames = 1;
+        this.overLine = true;
+      }
+
+      if (this.overLineFrames >= GAME_OVER_CHECK_FRAMES) {
+        this.gameOverAt = this.currentFrame;
+        this.events.push({ type: 'game_over', frame: this.currentFrame });
+      }
+    } else {
+      // 과일이 라인 안쪽으로 돌아오면 카운트다운 종료
+      this.overLineFrames = 0;
+      this.overLine = false;
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import type { GameSync } from '../network/GameSync';
+import type { LockstepInput, LockstepResync, RoomState } from '../network/types';
+import {
+  type GameSimulation,
+  type SimulationEvent,
+  DROP_GRACE_FRAMES,
+  GAME_OVER_CHECK_FRAMES,
+} from './GameSimulation';
+
+const MIN_TURN_FRAMES = 60;                                              // 턴마다 최소 진행 프레임
+const MAX_TURN_FRAMES = DROP_GRACE_FRAMES + GAME_OVER_CHECK_FRAMES + 60; // 안 멈춰도 여기서 정지 (게임오버 판정 포함)
+const CATCH_UP_STEPS = 8;                                                // 밀린 입력이 있으면 한 프레임에 여러 스텝
+const HASH_HISTORY = 16;                                                 // 비교용으로 보관할 최근 턴 해시 수
+
+// 락스텝 동기화: 모든 클라이언트가 같은 입력을 같은 순서로 적용
+// 턴마다 발사 → 과일이 멈출 때까지(결정적 조건) 진행 → 정지 후 상태 해시 보고
+// 호스트는 해시가 다른 클라이언트를 발견하면 스냅샷을 배포해 전원 재동기화
+export class LockstepController {
+  private simulation: GameSimulation;
+  private sync: GameSync;
+  private onEvents: (events: SimulationEvent[]) => void;
+
+  private appliedTurn = -1;                 // 마지막으로 끝까지 진행한 턴
+  private activeTurn: number | null = null; // 진행 중인 턴 (null이면 정지 상태)
+  private activeFrames = 0;
+
+  private localHashes = new Map<number, string>();
+  private lastResyncId: string | null = null;
+  private lastResyncTurn = -1; // 호스트: 이 턴까지는 재동기화 배포 완료
+
+  constructor(
+    simulation: GameSimulation,
+    sync: GameSync,
+    onEvents: (events: SimulationEvent[]) => void
+  ) {
+    this.simulation = simulation;
+    this.sync = sync;
+    this.onEvents = onEvents;
+  }
+
+  get lastAppliedTurn(): number {
+    return this.appliedTurn;
+  }
+
+  // 게임 루프 매 프레임: 대기 중인 입력 적용 + 턴 진행
+  update(): void {
+    const room = this.sync.room;
+    if (!room) return;
+
+    const pending = this.getPendingInputs(room);
+    let steps = pending.length > 1 ? CATCH_UP_STEPS : 1;
+
+    while (steps-- > 0) {
+      if (this.activeTurn === null) {
+        const input = pending.shift();
+        if (!input) return;
+        this.beginTurn(input);
+      }
+
+      this.onEvents(this.simulation.step());
+      this.activeFrames++;
+
+      if (this.isTurnComplete()) {
+        this.finishTurn();
+      }
+    }
+  }
+
+  handleRoomUpdate(room: RoomState): void {
+    this.applyResync(room.resync);
+    this.checkForDesync(room);
+  }
+
+  // 아직 적용하지 않은 입력 (턴 번호 순)
+  private getPendingInputs(room: RoomState): LockstepInput[] {
+    const after = this.activeTurn ?? this.appliedTurn;
+    return Object.values(room.inputs ?? {})
+      .filter((input) => input.turnNumber > after)
+      .sort((a, b) => a.turnNumber - b.turnNumber);
+  }
+
+  private beginTurn(input: LockstepInput): void {
+    this.activeTurn = input.turnNumber;
+    this.activeFrames = 0;
+
+    this.simulation.launch({
+      playerId: input.playerId,
+      x: input.x,
+      velocity: { x: input.velocityX, y: input.velocityY },
+      size: input.size,
+    });
+  }
+
+  // 턴 종료 조건 (시뮬레이션 상태만으로 판단 → 모든 클라이언트에서 같은 프레임)
+  private isTurnComplete(): boolean {
+    if (this.simulation.gameOverFrame !== null) return true;
+    if (this.activeFrames >= MAX_TURN_FRAMES) return true;
+    return this.activeFrames >= MIN_TURN_FRAMES && this.simulation.isAtRest();
+  }
+
+  private finishTurn(): void {
+    const turn = this.activeTurn!;
+    this.appliedTurn = turn;
+    this.activeTurn = null;
+
+    const hash = this.simulation.stateHash();
+    this.rememberHash(turn, hash);
+    this.sync.reportStateHash(turn, hash);
+
+    const room = this.sync.room;
+    if (room) {
+      this.checkForDesync(room);
+    }
+  }
+
+  private rememberHash(turn: number, hash: string): void {
+    this.localHashes.set(turn, hash);
+    for (const oldTurn of this.localHashes.keys()) {
+      if (oldTurn <= turn - HASH_HISTORY) {
+        this.localHashes.delete(oldTurn);
+      }
+    }
+  }
+
+  // 호스트 전용: 다른 클라이언트의 해시와 비교, 다르면 현재 상태 배포
+  private checkForDesync(room: RoomState): void {
+    if (!this.sync.isHost || this.activeTurn !== null) return;
+
+    for (const [playerId, report] of Object.entries(room.stateHashes ?? {})) {
+      if (playerId === this.sync.playerId) continue;
+      if (report.turnNumber <= this.lastResyncTurn) continue;
+
+      const expected = this.localHashes.get(report.turnNumber);
+      if (!expected || expected === report.hash) continue;
+
+      console.warn(`[Lockstep] 상태 불일치 감지 (턴 ${report.turnNumber}, ${playerId}), 재동기화 배포`);
+      this.lastResyncTurn = this.appliedTurn;
+      this.sync.publishResync(
+        this.appliedTurn,
+        this.localHashes.get(this.appliedTurn) ?? this.simulation.stateHash(),
+        this.simulation.snapshot()
+      );
+      return;
+    }
+  }
+
+  // 재동기화 스냅샷 복원 (호스트 포함 전원, 이후 입력은 다시 적용)
+  private applyResync(resync: LockstepResync | null | undefined): void {
+    if (!resync || resync.id === this.lastResyncId) return;
+    this.lastResyncId = resync.id;
+
+    this.simulation.restore(resync.snapshot);
+    this.appliedTurn = resync.turnNumber;
+    this.activeTurn = null;
+    this.activeFrames = 0;
+
+    const hash = this.simulation.stateHash();
+    this.localHashes.clear();
+    this.rememberHash(resync.turnNumber, hash);
+
+    if (hash !== resync.hash) {
+      console.warn(`[Lockstep] 복원 후 해시 불일치 (턴 ${resync.turnNumber})`);
+    }
+    console.log(`[Lockstep] 턴 ${resync.turnNumber} 스냅샷으로 재동기화`);
+  }
+}
@@ -1,35 +1,50 @@
-import Matter from 'matter-js';
 import { GameSync, type GameSyncEvent } from '../network/GameSync';
-import type { RoomPlayer, FruitState, RoomState } from '../network/types';
-import { FRUIT_DATA, MAX_FRUIT_SIZE, SETTLE_FRAMES } from '../core/config';
+import type { RoomPlayer, FruitState, FruitSyncData, RoomState, GameAction } from '../network/types';
+import { FRUIT_DATA, SETTLE_FRAMES, getScoreForMerge } from '../core/config';
 import { AudioManager } from '../core/AudioManager';
-
-const WIDTH = 400;
-const HEIGHT = 600;
-const UI_AREA_HEIGHT = 70;    // 상단 UI 영역 높이
-const CEILING_Y = UI_AREA_HEIGHT; // 천장 Y좌표 (오브젝트가 여기에 쌓임)
-const LAUNCH_Y = 540;         // 발사 위치 (하단)
-const GAME_OVER_Y = 500;      // 게임오버 라인 (하단, 오브젝트가 여기까지 내려오면 위험)
+import { SeededRandom, deriveSeed } from '../core/Random';
+import { fruitSizeForTurn } from '../core/FruitQueue';
+import { getFinalScore } from '../core/Score';
+import { ProfileStore } from '../core/ProfileStore';
+import {
+  GameSimulation,
+  type MergeEvent,
+  type SimulationEvent,
+  WORLD_WIDTH,
+  WORLD_HEIGHT,
+  CEILING_Y,
+  LAUNCH_Y,
+  GAME_OVER_Y,
+  GAME_OVER_CHECK_FRAMES,
+  MIN_LAUNCH_SPEED,
+  MAX_LAUNCH_SPEED,
+} from './GameSimulation';
+import { LockstepController } from './LockstepController';
+import { SnapshotInterpolator } from './SnapshotInterpolator';
+import { drawFruit } from './Renderer';
+import { buildReplay, type GameReplay } from './Replay';
+import { GameEventBus, type GameEvent } from './GameEvents';
+import { AchievementEvaluator, type AchievementInfo } from './Achievements';
+import { ReplayViewer, downloadReplay } from '../ui/ReplayViewer';
+import { showAchievementToast } from '../ui/AchievementToast';
+import { escapeHtml } from '../ui/Html';
+
+const WIDTH = WORLD_WIDTH;
+const HEIGHT = WORLD_HEIGHT;
+const UI_AREA_HEIGHT = CEILING_Y; // 상단 UI 영역 높이 (천장 위)
 const TURN_TIME = 10;
+const TURN_SKIP_GRACE = 5; // 시간 초과 후 턴을 건너뛰기까지 추가로 기다리는 시간 (초)
 const SYNC_INTERVAL = 5; // 호스트가 몇 프레임마다 동기화할지
-const GAME_OVER_CHECK_FRAMES = 120; // 게임오버 판정까지 2초 (60fps * 2)
-const DROP_GRACE_FRAMES = 180; // 드롭 후 3초 동안은 게임오버 체크 안함
+const CHECKPOINT_INTERVAL = 60; // 호스트가 몇 프레임마다 월드 체크포인트를 저장할지 (호스트 인계용)
 const DROP_DELAY_MS = 1000; // 턴 시작 후 발사 활성화까지 1초
+const TIMER_TICK_MS = 250; // 턴 타이머 갱신 간격 (서버 시각 기준으로 다시 계산)
+const JOIN_BUTTON = { x: WIDTH / 2 - 70, y: HEIGHT - 56, width: 140, height: 36 }; // 관전자 중간 참가 버튼
 
 // 슬링샷 관련 상수 (모바일 최적화)
 const SLINGSHOT_ZONE_TOP = 350;    // 터치 영역 시작 Y좌표 (넓은 터치 영역)
 const PULL_START_THRESHOLD = 30;   // 당기기 시작 임계값 (LAUNCH_Y 기준 아래로 이 거리)
 const MIN_PULL_DISTANCE = 40;      // 최소 당김 거리 (모바일에서 실수 방지)
 const MAX_PULL_DISTANCE = 120;     // 최대 당김 거리 (손가락 이동 범위 고려)
-const MIN_LAUNCH_SPEED = 5;        // 최소 발사 속도
-const MAX_LAUNCH_SPEED = 15;       // 최대 발사 속도
-
-// 합성 시 튕김 계수 (속도 벡터 크기에 비례)
-const MERGE_BOUNCE_MULTIPLIER = 3.0; // 합성 전 속도의 300%로 튕김
-
-// 크기 10 폭발 충격파
-const EXPLOSION_RADIUS = 200;      // 충격파 영향 범위 (px)
-const EXPLOSION_FORCE = 0.05;      // 충격파 힘
 
 type TurnPhase = 'waiting' | 'ready' | 'dropping' | 'settling';
 type SlingshotPhase = 'idle' | 'positioning' | 'pulling';
@@ -46,24 +61,36 @@ interface Particle {
   size: number;
 }
 
+// 콤보 표시 ("x3 COMBO", 합성 위치에서 떠오르며 사라짐)
+interface FloatingText {
+  x: number;
+  y: number;
+  text: string;
+  life: number;
+  maxLife: number;
+}
+
+// 플레이어별 콤보 기록 (게임오버 화면 점수 내역용)
+interface ComboStats {
+  best: number;
+  bonus: number; // 콤보 배율로 더 얻은 점수 (드롭한 플레이어 기준)
+}
+
 export class MultiplayerGame {
   private ctx: CanvasRenderingContext2D;
   private sync: GameSync;
 
-  // Matter.js (호스트만 실제로 사용)
-  private engine: Matter.Engine;
-  private fruits = new Map<string, Matter.Body>();
+  // 게임 규칙 + 물리 (호스트만 합성/게임오버 판정)
+  private simulation: GameSimulation;
+  private lockstep: LockstepController | null = null; // 락스텝 모드일 때만 사용
 
   // 게임 상태
-  private maxFruitSize = 1;
   private isRunning = false;
 
   // 턴 상태
   private turnPhase: TurnPhase = 'waiting';
   private dropX = WIDTH / 2;
   private currentFruitSize = 1;
-  private droppedFruitId: string | null = null;
-  private lastDropPlayerId: string | null = null; // 마지막 드롭한 플레이어 (합성 점수용)
 
   // 비호스트용: 드롭 요청 후 로컬 예측 렌더링용 임시 과일
   private pendingDropFruitId: string | null = null;
@@ -85,30 +112,37 @@ export class MultiplayerGame {
   private slingshotCurrentY = 0;
   private launchVelocity: { x: number; y: number } = { x: 0, y: 0 };
 
-  // 비행 중인 과일 (중력 무시, 충돌 시 해제) - 발사 속도 저장
-  private inFlightFruits = new Map<string, { vx: number; vy: number }>();
-
-  // 과일 소유자 (fruitId -> playerId)
-  private fruitOwners = new Map<string, string>();
-
-  // 충돌 처리
-  private mergedPairs = new Set<string>();
   private settleCheckTimer = 0;
+  private launchTurnNumber = 0; // 내가 발사한 턴
+
+  // 호스트: 턴 진행 (다음 턴은 호스트만 기록)
+  private settlingTurn: number | null = null; // 스냅샷 모드: 발사돼서 안정화 중인 턴
+  private turnAdvanceFrames = 0;
+  private lastAdvancedTurn = -1;              // 다음 턴 요청을 이미 보낸 턴
   private frameCount = 0;
 
   // Firebase에서 받은 과일 상태 (비호스트용)
   private remoteFruits: Record<string, FruitState> = {};
+  private interpolator = new SnapshotInterpolator(); // 비호스트: 원격 과일 보간 렌더링
+
+  // 호스트 인계
+  private wasAuthority = false;
+  private lastCheckpointHash: string | null = null; // 바뀐 게 없으면 체크포인트 저장 생략
+
+  // 권위자가 된 시점의 방 점수 - 시뮬레이션 누적값 (스냅샷 모드 인계/재입장, 락스텝은 항상 0)
+  // 기록하는 점수 = 기준값 + 시뮬레이션 누적값
+  private scoreBase: Record<string, number> = {};
+  private partyScoreBase = 0;
 
   // 호스트가 삭제한 과일 ID (Firebase 동기화 지연으로 인한 재생성 방지)
   private deletedFruitIds = new Set<string>();
 
   // 폭죽 파티클 시스템
   private particles: Particle[] = [];
-
-  // 게임오버 판정 타이머
-  private gameOverTimer = 0;
-  private isOverLine = false;
-  private lastDropFrame = 0; // 마지막 드롭 프레임 (3초 후부터 게임오버 체크)
+  private floatingTexts: FloatingText[] = [];
+  private comboStats: Record<string, ComboStats> = {};
+  private effectsRng: SeededRandom; // 연출용 난수 (같은 시드면 같은 폭죽 모양)
+  private tempIdRng: SeededRandom;  // 비호스트 임시 과일 ID용
 
   // 도시 창문 패턴 (고정)
   private windowPattern: boolean[][] = [];
@@ -122,6 +156,7 @@ export class MultiplayerGame {
   private boundPointerMove: (e: PointerEvent) => void;
   private boundPointerUp: (e: PointerEvent) => void;
   private boundContextMenu: (e: Event) => void;
+  private boundPageHide: () => void;
 
   // 오디오 매니저
   private audio: AudioManager;
@@ -129,6 +164,13 @@ export class MultiplayerGame {
   // Play Again 콜백
   private onPlayAgainCallback: (() => void) | null = null;
 
+  // 게임오버 화면에서 연 리플레이
+  private replayViewer: ReplayViewer | null = null;
+
+  // 발사/합성/게임오버 신호 → 업적 판정
+  private gameEvents = new GameEventBus();
+  private achievements: AchievementEvaluator;
+
   constructor(canvas: HTMLCanvasElement, sync: GameSync) {
     this.audio = AudioManager.getInstance();
     this.ctx = canvas.getContext('2d')!;
@@ -142,23 +184,30 @@ export class MultiplayerGame {
     this.boundPointerMove = this.handlePointerMove.bind(this);
     this.boundPointerUp = this.handlePointerUp.bind(this);
     this.boundContextMenu = (e: Event) => e.preventDefault();
-
-    // Matter.js 엔진 생성 (호스트만 실제로 물리 계산)
-    this.engine = Matter.Engine.create();
-    this.engine.world.gravity.y = -1; // 중력이 위쪽으로 (오브젝트가 천장에 쌓임)
-
-    // 벽 생성 (바닥, 좌우 벽, 천장)
-    const walls = [
-      Matter.Bodies.rectangle(WIDTH / 2, HEIGHT + 10, WIDTH + 40, 20, { isStatic: true, label: 'floor' }),
-      Matter.Bodies.rectangle(-10, HEIGHT / 2, 20, HEIGHT * 2, { isStatic: true, label: 'wall' }),
-      Matter.Bodies.rectangle(WIDTH + 10, HEIGHT / 2, 20, HEIGHT * 2, { isStatic: true, label: 'wall' }),
-      // 천장 (UI 영역 아래, 폭죽이 여기에 쌓임)
-      Matter.Bodies.rectangle(WIDTH / 2, CEILING_Y - 10, WIDTH + 40, 20, { isStatic: true, label: 'ceiling' }),
-    ];
-    Matter.Composite.add(this.engine.world, walls);
-
-    // 충돌 이벤트 (호스트만)
-    Matter.Events.on(this.engine, 'collisionStart', (event) => this.handleCollision(event));
+    this.boundPageHide = () => this.saveCheckpoint(); // 나가는 호스트: 마지막 월드 상태 남기기
+
+    // 시뮬레이션 생성
+    // 스냅샷 모드: 호스트 여부는 매 프레임 반영, 과일 ID 난수는 플레이어별로 파생 → 호스트가 바뀌어도 ID 충돌 없음
+    // 락스텝 모드: 모두가 권위자, 과일 ID 난수도 공유 → 모든 클라이언트에서 같은 ID
+    const seed = this.sync.seed;
+    const isLockstep = this.sync.syncMode === 'lockstep';
+    this.simulation = new GameSimulation({
+      rng: new SeededRandom(isLockstep ? deriveSeed(seed, 'ids') : deriveSeed(seed, 'ids', this.sync.playerId)),
+      authoritative: isLockstep,
+    });
+    if (isLockstep) {
+      this.lockstep = new LockstepController(this.simulation, this.sync, (events) => this.handleSimulationEvents(events));
+    }
+    this.effectsRng = new SeededRandom(deriveSeed(seed, 'effects'));
+    this.tempIdRng = new SeededRandom(deriveSeed(seed, 'temp', this.sync.playerId));
+    this.wasAuthority = this.sync.isAuthority;
+    if (this.sync.room) {
+      this.resetScoreBase(this.sync.room);
+    }
+    this.achievements = new AchievementEvaluator(this.gameEvents, this.sync.playerId, (achievement) =>
+      this.handleAchievement(achievement)
+    );
+    this.gameEvents.on((event) => this.handleGameEvent(event));
 
     // 입력 설정
     this.setupInput();
@@ -204,6 +253,9 @@ export class MultiplayerGame {
     // 컨텍스트 메뉴 방지
     canvas.addEventListener('contextmenu', this.boundContextMenu);
 
+    // 탭을 닫는 호스트는 마지막 월드 상태 저장
+    window.addEventListener('pagehide', this.boundPageHide);
+
     // 터치 디바이스에서 스크롤 방지
     canvas.style.touchAction = 'none';
   }
@@ -310,6 +362,15 @@ export class MultiplayerGame {
   }
 
   private handlePointerDown(e: PointerEvent): void {
+    // 관전자: 중간 참가 버튼
+    if (this.sync.isSpectator) {
+      const { x, y } = this.getCanvasPosition(e);
+      if (this.sync.canTakeSeat && this.isInJoinButton(x, y)) {
+        this.sync.takeSeat().catch((error) => console.error('[MultiplayerGame] 중간 참가 실패:', error));
+      }
+      return;
+    }
+
     // 내 턴이 아니거나 ready 상태가 아니거나 발사 비활성화면 무시
     if (!this.sync.isMyTurn || this.turnPhase !== 'ready' || !this.dropEnabled) return;
 
@@ -334,6 +395,11 @@ export class MultiplayerGame {
     }
   }
 
+  private isInJoinButton(x: number, y: number): boolean {
+    const b = JOIN_BUTTON;
+    return x >= b.x && x <= b.x + b.width && y >= b.y && y <= b.y + b.height;
+  }
+
   private handlePointerMove(e: PointerEvent): void {
     if (this.slingshotPhase === 'idle') return;
 
@@ -682,10 +748,30 @@ export class MultiplayerGame {
         case 'drop_request':
           this.handleDropRequest(event.playerId, event.x, event.size, event.velocityX, event.velocityY);
           break;
+        case 'drop_rejected':
+          this.handleDropRejected(event.reason);
+          break;
+        case 'player_join':
+          this.handlePlayerJoin(event.playerId, event.playerName);
+          break;
+        case 'action':
+          this.handleAction(event.action);
+          break;
       }
     });
   }
 
+  // 게임 중 새 플레이어: 호스트가 playerOrder 끝에 추가 (현재 턴 순서는 그대로, 다음 턴부터 참가)
+  private handlePlayerJoin(playerId: string, playerName: string): void {
+    const room = this.sync.room;
+    if (!room || room.status !== 'playing' || room.playerOrder.includes(playerId)) return;
+
+    console.log(`[MultiplayerGame] 중간 참가: ${playerName}`);
+    if (this.sync.isHost) {
+      this.sync.admitLateJoiners();
+    }
+  }
+
   private handleGameStart(): void {
     const room = this.sync.room;
     if (!room) return;
@@ -701,13 +787,18 @@ export class MultiplayerGame {
     const room = this.sync.room;
     if (!room) return;
 
+    // 락스텝: 과일 상태는 주고받지 않음 (입력과 재동기화만 반영)
+    if (this.lockstep) {
+      this.handleLockstepRoomUpdate(room);
+      return;
+    }
+
     // Firebase에서 과일 상태 업데이트
     this.remoteFruits = room.fruits || {};
+    this.interpolator.push(this.remoteFruits, performance.now());
 
     // 서버의 maxFruitSize 동기화 (모든 플레이어)
-    if (room.maxFruitSize > this.maxFruitSize) {
-      this.maxFruitSize = room.maxFruitSize;
-    }
+    this.simulation.raiseMaxFruitSize(room.maxFruitSize);
 
     // 호스트 부재 감지 및 승격 처리
     if (this.sync.shouldBecomeHost) {
@@ -715,26 +806,116 @@ export class MultiplayerGame {
       return; // 승격 후 다음 room_update에서 처리
     }
 
-    if (this.sync.isHost) {
+    // 방금 권위자가 됐으면 이전 호스트(또는 심판)의 물리 월드 인계
+    if (this.sync.isAuthority && !this.wasAuthority) {
+      this.takeOverAsHost(room);
+      this.resetScoreBase(room);
+    }
+    this.wasAuthority = this.sync.isAuthority;
+
+    if (this.sync.isAuthority) {
       // 호스트: Firebase에 새로 추가된 과일만 물리 엔진에 추가 (비호스트가 드롭한 과일)
       this.addNewFruitsFromRemote();
-
-      // 호스트: 연결 해제된 플레이어 감지 및 정리
-      this.checkAndCleanupDisconnectedPlayers(room);
     } else {
-      // 비호스트: Firebase 상태를 로컬에 반영
+      // 비호스트 (또는 심판이 있는 방의 호스트): Firebase 상태를 로컬에 반영
       this.syncFruitsFromRemote();
     }
+
+    // 호스트: 연결 해제된 플레이어 감지 및 정리
+    if (this.sync.isHost) {
+      this.checkAndCleanupDisconnectedPlayers();
+    }
   }
 
-  // 호스트 전용: players와 playerOrder 불일치 감지 및 정리
-  private checkAndCleanupDisconnectedPlayers(room: RoomState): void {
-    const activePlayers = Object.keys(room.players);
-    const hasDisconnected = room.playerOrder.some(
-      (id: string) => !activePlayers.includes(id)
-    );
+  // 시뮬레이션이 게임 처음부터 돌지 않았으면 (체크포인트 복원, 도중 인계) 그 전 점수를 기준값으로 유지
+  private resetScoreBase(room: RoomState): void {
+    this.scoreBase = {};
+    this.partyScoreBase = 0;
+    if (this.lockstep) return;
+
+    for (const [playerId, player] of Object.entries(room.players)) {
+      this.scoreBase[playerId] = player.score - (this.simulation.scores[playerId] ?? 0);
+    }
+    this.partyScoreBase = room.partyScore - this.simulation.partyScore;
+  }
+
+  // 호스트 인계: 체크포인트에서 물리 월드 복원 후, 더 최신인 동기화 과일 상태로 보정
+  private takeOverAsHost(room: RoomState): void {
+    // 예측용 임시 과일 정리 (이제 내가 직접 시뮬레이션)
+    if (this.pendingDropFruitId) {
+      this.simulation.removeFruit(this.pendingDropFruitId);
+      this.pendingDropFruitId = null;
+      this.pendingDropSynced = false;
+    }
+    this.lastCheckpointHash = null;
+
+    // 이전 호스트가 받아주지 못한 중간 참가자
+    this.sync.admitLateJoiners();
+
+    // 이전 호스트가 발사만 하고 다음 턴을 못 열었으면 이어서 진행
+    if (room.status === 'playing' && !room.currentFruit && !room.dropRequest) {
+      this.markTurnLaunched();
+    }
+
+    const checkpoint = room.checkpoint;
+    if (!checkpoint) {
+      console.log('[Host] 체크포인트 없음, 동기화된 과일 위치로 이어서 진행');
+      return;
+    }
+
+    // ID 난수열은 내 것 유지 (이전 호스트가 이미 만든 ID와 겹치지 않도록)
+    this.simulation.restore(checkpoint.snapshot, false);
 
-    if (hasDisconnected) {
+    for (const id of Array.from(this.simulation.bodies.keys())) {
+      if (!this.remoteFruits[id]) {
+        this.simulation.removeFruit(id); // 체크포인트 이후 합성으로 사라진 과일
+      }
+    }
+    for (const [id, fruit] of Object.entries(this.remoteFruits)) {
+      // 체크포인트 이후 새로 생긴 과일은 addNewFruitsFromRemote에서 추가
+      if (!this.simulation.hasFruit(id)) continue;
+      if (fruit.frame === undefined || fruit.frame <= checkpoint.frame) continue;
+
+      this.simulation.applyMotion(id, {
+        x: fruit.x,
+        y: fruit.y,
+        vx: fruit.vx ?? 0,
+        vy: fruit.vy ?? 0,
+        angle: fruit.angle ?? 0,
+        angularVelocity: fruit.angularVelocity ?? 0,
+      });
+    }
+
+    console.log(`[Host] 프레임 ${checkpoint.frame} 체크포인트에서 물리 월드 인계`);
+  }
+
+  // 호스트 전용: 물리 월드 전체 저장 (바뀐 게 없으면 생략)
+  private saveCheckpoint(): void {
+    if (!this.sync.isAuthority || this.lockstep || !this.isRunning) return;
+
+    const hash = this.simulation.stateHash();
+    if (hash === this.lastCheckpointHash) return;
+    this.lastCheckpointHash = hash;
+
+    this.sync.saveCheckpoint(this.simulation.snapshot());
+  }
+
+  private handleLockstepRoomUpdate(room: RoomState): void {
+    if (this.sync.shouldBecomeHost) {
+      this.sync.promoteToHost();
+      return;
+    }
+
+    if (this.sync.isHost) {
+      this.checkAndCleanupDisconnectedPlayers();
+    }
+
+    this.lockstep?.handleRoomUpdate(room);
+  }
+
+  // 호스트 전용: players와 playerOrder 불일치, 재접속 유예 시간 초과 감지 및 정리
+  private checkAndCleanupDisconnectedPlayers(): void {
+    if (this.sync.needsPlayerCleanup) {
       this.sync.cleanupDisconnectedPlayers();
     }
   }
@@ -746,9 +927,9 @@ export class MultiplayerGame {
       if (this.deletedFruitIds.has(id)) {
         continue;
       }
-      if (!this.fruits.has(id)) {
+      if (!this.simulation.hasFruit(id)) {
         // 새 과일 생성 (비호스트가 드롭한 것, ownerId 포함)
-        this.createFruitWithId(id, fruitState.x, fruitState.y, fruitState.size, undefined, fruitState.ownerId);
+        this.simulation.addFruit(id, fruitState.x, fruitState.y, fruitState.size, undefined, fruitState.ownerId);
       }
       // 기존 과일 위치는 업데이트하지 않음 (호스트가 물리 시뮬레이션 권위자)
     }
@@ -773,59 +954,55 @@ export class MultiplayerGame {
     }
 
     // 원격에 없는 로컬 과일 제거
-    for (const [id, body] of this.fruits) {
+    for (const id of Array.from(this.simulation.bodies.keys())) {
       if (!remoteIds.has(id)) {
         // 임시 과일은 동기화 완료 후에만 제거
         if (id === this.pendingDropFruitId) {
           if (this.pendingDropSynced) {
-            Matter.Composite.remove(this.engine.world, body);
-            this.fruits.delete(id);
+            this.simulation.removeFruit(id);
             this.pendingDropFruitId = null;
           }
           // 아직 동기화 안됐으면 임시 과일 유지
           continue;
         }
-        Matter.Composite.remove(this.engine.world, body);
-        this.fruits.delete(id);
+        this.simulation.removeFruit(id);
       }
     }
 
     // 원격 과일 생성 또는 위치 업데이트
     for (const [id, fruitState] of Object.entries(this.remoteFruits)) {
-      const existingBody = this.fruits.get(id);
-      if (existingBody) {
+      if (this.simulation.hasFruit(id)) {
         // 위치 업데이트
-        Matter.Body.setPosition(existingBody, { x: fruitState.x, y: fruitState.y });
-        Matter.Body.setVelocity(existingBody, { x: 0, y: 0 });
+        this.simulation.moveFruit(id, fruitState.x, fruitState.y);
         // ownerId 업데이트
         if (fruitState.ownerId) {
-          this.fruitOwners.set(id, fruitState.ownerId);
+          this.simulation.setOwner(id, fruitState.ownerId);
         }
       } else {
         // 새 과일 생성 (ownerId 포함)
-        this.createFruitWithId(id, fruitState.x, fruitState.y, fruitState.size, undefined, fruitState.ownerId);
+        this.simulation.addFruit(id, fruitState.x, fruitState.y, fruitState.size, undefined, fruitState.ownerId);
       }
     }
   }
 
-  // 마지막으로 처리한 턴 시작 시간 (중복 방지)
-  private lastTurnStartTime = 0;
+  // 마지막으로 처리한 턴 (중복 방지)
+  private lastTurnKey: string | null = null;
 
   private handleTurnStart(_playerId: string, fruitSize: number, fruitX: number): void {
     const room = this.sync.room;
     if (!room) return;
 
     // 이미 처리한 턴이면 무시 (중복 방지)
-    if (room.turnStartTime === this.lastTurnStartTime) {
+    if (this.sync.turnKey === this.lastTurnKey) {
       return;
     }
 
-    // settling 중이면 턴 시작 무시
-    if (this.turnPhase === 'settling') {
+    // settling 중이면 내가 발사한 턴의 턴 시작은 무시 (심판이 먼저 다음 턴을 열었으면 진행)
+    if (this.turnPhase === 'settling' && (room.turnNumber || 0) <= this.launchTurnNumber) {
       return;
     }
 
-    this.lastTurnStartTime = room.turnStartTime;
+    this.lastTurnKey = this.sync.turnKey;
 
     this.stopTimer();
     this.clearDropDelay();
@@ -836,11 +1013,7 @@ export class MultiplayerGame {
 
     // 이전 턴의 임시 과일 상태 정리
     if (this.pendingDropFruitId) {
-      const tempFruit = this.fruits.get(this.pendingDropFruitId);
-      if (tempFruit) {
-        Matter.Composite.remove(this.engine.world, tempFruit);
-        this.fruits.delete(this.pendingDropFruitId);
-      }
+      this.simulation.removeFruit(this.pendingDropFruitId);
       this.pendingDropFruitId = null;
       this.pendingDropSynced = false;
     }
@@ -878,27 +1051,18 @@ export class MultiplayerGame {
     velocityX: number,
     velocityY: number
   ): void {
-    if (!this.sync.isHost) return;
-
-    // 드롭 프레임 기록
-    this.lastDropFrame = this.frameCount;
-    this.lastDropPlayerId = playerId; // 합성 점수용
+    if (!this.sync.isAuthority) return;
 
-    // 고유 ID 생성
-    const fruitId = `fruit_${Date.now()}_${Math.random().toString(36).substring(2, 7)}`;
-
-    // 물리 엔진에 과일 생성 (발사 위치와 전달받은 속도, 소유자 = 요청한 플레이어)
-    this.createFruitWithId(
-      fruitId,
+    // 시뮬레이션에 발사 (발사 위치와 전달받은 속도, 소유자 = 요청한 플레이어)
+    // 비행 상태(충돌 전까지 중력 무시)와 게임오버 유예도 시뮬레이션이 처리
+    const fruitId = this.simulation.launch({
+      playerId,
       x,
-      LAUNCH_Y,
+      velocity: { x: velocityX, y: velocityY },
       size,
-      { x: velocityX, y: velocityY },
-      playerId
-    );
+    });
 
-    // 비행 상태로 마크 (충돌 전까지 중력 무시) - 발사 속도 저장
-    this.inFlightFruits.set(fruitId, { vx: velocityX, vy: velocityY });
+    this.markTurnLaunched();
 
     // Firebase에 과일 동기화 (호스트 권한으로 직접 수행, isMyTurn 체크 없음)
     this.sync.hostAddFruit(fruitId, x, LAUNCH_Y, size, playerId);
@@ -909,17 +1073,32 @@ export class MultiplayerGame {
     // 드롭 사운드는 요청한 클라이언트가 이미 재생함
   }
 
+  // 심판이 내 드롭 요청을 거부: 임시 과일 제거 후 같은 턴 다시 진행 (심판이 턴 시작 시간을 갱신)
+  private handleDropRejected(reason: string): void {
+    console.warn('[Referee] 드롭 요청 거부됨:', reason);
+
+    if (this.pendingDropFruitId) {
+      this.simulation.removeFruit(this.pendingDropFruitId);
+      this.pendingDropFruitId = null;
+      this.pendingDropSynced = false;
+    }
+    if (this.turnPhase === 'settling') {
+      this.turnPhase = 'waiting';
+    }
+  }
+
   private startTimer(): void {
     this.stopTimer();
     this.timeRemaining = TURN_TIME;
+    // 남은 시간은 서버 시각 기준 turnStartTime에서 계산 (클라이언트마다 시계가 달라도 같은 시점에 만료)
     this.timerInterval = window.setInterval(() => {
-      this.timeRemaining--;
+      this.timeRemaining = Math.ceil(this.sync.turnTimeRemaining);
       if (this.timeRemaining <= 0) {
         // 타임아웃 시 강제 발사 (기본 속도)
         this.dropEnabled = true;
         this.launchFruit();
       }
-    }, 1000);
+    }, TIMER_TICK_MS);
   }
 
   private stopTimer(): void {
@@ -938,53 +1117,55 @@ export class MultiplayerGame {
     this.dropEnabled = false;
     this.audio.playSFX('DROP');
 
-    // 드롭 프레임 기록 (3초 후부터 게임오버 체크)
-    this.lastDropFrame = this.frameCount;
-
     // 동적 발사 속도 사용 (당기지 않았으면 기본 속도)
     const velocity = (this.launchVelocity.x !== 0 || this.launchVelocity.y !== 0)
       ? this.launchVelocity
       : { x: 0, y: -MAX_LAUNCH_SPEED * 0.5 }; // 타임아웃 시 중간 속도로 발사
 
-    if (this.sync.isHost) {
-      // 호스트: 직접 과일 생성 및 물리 시뮬레이션
-      const fruitId = `fruit_${Date.now()}_${Math.random().toString(36).substring(2, 7)}`;
-      this.droppedFruitId = fruitId;
-      this.lastDropPlayerId = this.sync.playerId; // 합성 점수용
-
-      // 발사 위치와 동적 속도로 생성 (소유자 = 현재 플레이어)
-      this.createFruitWithId(
-        fruitId,
-        this.dropX,
-        LAUNCH_Y,
-        this.currentFruitSize,
+    this.launchTurnNumber = this.sync.room?.turnNumber || 0;
+
+    if (this.lockstep) {
+      // 락스텝: 입력만 전송, 나를 포함한 모든 클라이언트가 받은 순서대로 적용
+      this.turnPhase = 'settling';
+      this.settleCheckTimer = 0;
+
+      this.sync.submitLockstepInput({
+        x: this.dropX,
+        size: this.currentFruitSize,
+        velocityX: velocity.x,
+        velocityY: velocity.y,
+      });
+    } else if (this.sync.isAuthority) {
+      // 호스트: 시뮬레이션에 직접 발사 (소유자 = 현재 플레이어)
+      const fruitId = this.simulation.launch({
+        playerId: this.sync.playerId,
+        x: this.dropX,
         velocity,
-        this.sync.playerId
-      );
-      // 비행 상태로 마크 (충돌 전까지 중력 무시) - 발사 속도 저장
-      this.inFlightFruits.set(fruitId, { vx: velocity.x, vy: velocity.y });
+        size: this.currentFruitSize,
+      });
 
       this.turnPhase = 'settling';
       this.settleCheckTimer = 0;
+      this.markTurnLaunched();
 
       // Firebase에 과일 동기화 (velocity 포함)
       this.sync.dropFruitWithVelocity(fruitId, this.dropX, LAUNCH_Y, this.currentFruitSize, velocity, this.sync.playerId);
     } else {
       // 비호스트: 드롭 요청 전송 + 로컬 예측 렌더링용 임시 과일 생성
       // 로컬 예측 렌더링용 임시 과일 생성 (발사 애니메이션, 소유자 = 현재 플레이어)
-      const tempFruitId = `temp_${Date.now()}_${Math.random().toString(36).substring(2, 7)}`;
+      const tempFruitId = `temp_${this.simulation.frame}_${this.tempIdRng.nextId()}`;
       this.pendingDropFruitId = tempFruitId;
       this.pendingDropSynced = false;
-      this.createFruitWithId(
+      // 비행 상태로 생성 (충돌 전까지 중력 무시)
+      this.simulation.addFruit(
         tempFruitId,
         this.dropX,
         LAUNCH_Y,
         this.currentFruitSize,
         velocity,
-        this.sync.playerId
+        this.sync.playerId,
+        true
       );
-      // 비행 상태로 마크 (충돌 전까지 중력 무시) - 발사 속도 저장
-      this.inFlightFruits.set(tempFruitId, { vx: velocity.x, vy: velocity.y });
 
       this.turnPhase = 'settling';
       this.settleCheckTimer = 0;
@@ -998,232 +1179,135 @@ export class MultiplayerGame {
     this.launchVelocity = { x: 0, y: 0 };
   }
 
-  private createFruitWithId(
-    id: string,
-    x: number,
-    y: number,
-    size: number,
-    initialVelocity?: { x: number; y: number },
-    ownerId?: string
-  ): Matter.Body {
-    const data = FRUIT_DATA[size - 1] || FRUIT_DATA[0];
-
-    const fruit = Matter.Bodies.circle(x, y, data.radius, {
-      restitution: 0.4,
-      friction: 0.3,
-      frictionAir: 0.01,
-      density: 0.001,
-      label: `${id}_${size}`,
-    });
-
-    Matter.Composite.add(this.engine.world, fruit);
-    this.fruits.set(id, fruit);
-
-    // 과일 소유자 저장
-    if (ownerId) {
-      this.fruitOwners.set(id, ownerId);
-    }
-
-    // 초기 속도 설정 (발사용)
-    if (initialVelocity) {
-      Matter.Body.setVelocity(fruit, initialVelocity);
-    }
-
-    return fruit;
-  }
-
-  private removeFruitById(id: string): void {
-    const fruit = this.fruits.get(id);
-    if (fruit) {
-      Matter.Composite.remove(this.engine.world, fruit);
-      this.fruits.delete(id);
-      // 호스트: 삭제된 과일 ID 기록 (Firebase 동기화 지연으로 인한 재생성 방지)
-      if (this.sync.isHost) {
-        this.deletedFruitIds.add(id);
+  private handleSimulationEvents(events: SimulationEvent[]): void {
+    for (const event of events) {
+      switch (event.type) {
+        case 'launch':
+          this.sync.logLaunch(event.frame, event.fruitId, event.input);
+          this.gameEvents.emit({
+            type: 'launch',
+            frame: event.frame,
+            playerId: event.input.playerId,
+            size: event.input.size,
+            playerCount: Object.keys(this.sync.room?.players ?? {}).length,
+          });
+          break;
+        case 'merge':
+          this.handleMerge(event.merge);
+          this.gameEvents.emit({
+            type: 'merge',
+            frame: event.merge.frame,
+            playerId: event.merge.ownerId ?? event.merge.credits[0]?.playerId ?? '',
+            size: event.merge.newSize,
+            x: event.merge.x,
+            y: event.merge.y,
+            scoreGain: event.merge.scoreGain,
+            combo: event.merge.combo,
+            exploded: event.merge.exploded,
+            bankShot: event.merge.bankShot,
+            overLineFrames: event.merge.overLineFrames,
+          });
+          break;
+        case 'game_over':
+          // 락스텝에서는 모두가 판정하므로 호스트만 보고
+          if (this.sync.isHost) {
+            this.sync.reportGameOver(event.frame);
+          }
+          this.gameEvents.emit({ type: 'game_over', frame: event.frame, partyScore: this.simulation.partyScore });
+          break;
       }
     }
   }
 
-  private parseFruitLabel(label: string): { id: string; size: number } | null {
-    const lastUnderscore = label.lastIndexOf('_');
-    if (lastUnderscore === -1) return null;
-    const id = label.substring(0, lastUnderscore);
-    const size = parseInt(label.substring(lastUnderscore + 1));
-    if (isNaN(size)) return null;
-    return { id, size };
+  // 시뮬레이션을 판정하지 않는 클라이언트 (스냅샷 모드 비호스트, 심판 방의 호스트): 이벤트 로그로 게임 신호 생성
+  private handleAction(action: GameAction): void {
+    if (this.lockstep || this.sync.isAuthority) return; // 시뮬레이션 이벤트에서 이미 보냄
+
+    const data = action.data;
+    switch (action.type) {
+      case 'drop':
+        if (typeof data.frame !== 'number') return; // 발사 프레임이 없는 이전 형식
+        this.gameEvents.emit({
+          type: 'launch',
+          frame: data.frame,
+          playerId: action.playerId,
+          size: Number(data.size),
+          playerCount: Object.keys(this.sync.room?.players ?? {}).length,
+        });
+        break;
+      case 'merge':
+        this.gameEvents.emit({
+          type: 'merge',
+          frame: Number(data.frame),
+          playerId: action.playerId,
+          size: Number(data.size),
+          x: Number(data.x),
+          y: Number(data.y),
+          scoreGain: Number(data.scoreGain ?? 0),
+          combo: Number(data.combo ?? 1),
+          exploded: data.exploded === true,
+          bankShot: data.bankShot === true,
+          overLineFrames: Number(data.overLineFrames ?? 0),
+        });
+        break;
+      case 'game_over':
+        this.gameEvents.emit({ type: 'game_over', frame: Number(data.frame ?? 0), partyScore: Number(data.partyScore ?? 0) });
+        break;
+    }
   }
 
-  private handleCollision(event: Matter.IEventCollision<Matter.Engine>): void {
-    for (const pair of event.pairs) {
-      // 충돌한 과일은 비행 상태 해제 (중력 적용 시작) - 모든 클라이언트
-      const fruitA = this.parseFruitLabel(pair.bodyA.label);
-      const fruitB = this.parseFruitLabel(pair.bodyB.label);
-
-      // 벽이나 다른 오브젝트와 충돌 시 비행 상태 해제
-      if (fruitA) this.inFlightFruits.delete(fruitA.id);
-      if (fruitB) this.inFlightFruits.delete(fruitB.id);
-
-      // 합성 처리는 호스트만
-      if (!this.sync.isHost) continue;
-      if (!fruitA || !fruitB) continue;
-      if (fruitA.size !== fruitB.size) continue;
-
-      const pairKey = [fruitA.id, fruitB.id].sort().join('-');
-      if (this.mergedPairs.has(pairKey)) continue;
-      this.mergedPairs.add(pairKey);
-
-      setTimeout(() => {
-        const bodyA = this.fruits.get(fruitA.id);
-        const bodyB = this.fruits.get(fruitB.id);
-
-        if (!bodyA || !bodyB) {
-          this.mergedPairs.delete(pairKey);
-          return;
-        }
+  // 콤보: 합성 위치에 배율 표시 + 드롭한 플레이어의 콤보 기록
+  private handleGameEvent(event: GameEvent): void {
+    if (event.type !== 'merge' || event.combo < 2) return;
 
-        const midX = (bodyA.position.x + bodyB.position.x) / 2;
-        const midY = (bodyA.position.y + bodyB.position.y) / 2;
-        const newSize = fruitA.size + 1;
+    this.floatingTexts.push({ x: event.x, y: event.y, text: `x${event.combo} COMBO`, life: 60, maxLife: 60 });
 
-        // 두 과일의 소유자 확인
-        const ownerA = this.fruitOwners.get(fruitA.id);
-        const ownerB = this.fruitOwners.get(fruitB.id);
-
-        // 두 오브젝트의 속도 벡터 합산 (제거 전에 저장)
-        const avgVx = (bodyA.velocity.x + bodyB.velocity.x) * 0.5;
-        const avgVy = (bodyA.velocity.y + bodyB.velocity.y) * 0.5;
-
-        // 속도 크기에 비례해서 튕김 (느리게 부딪히면 거의 안 튕김)
-        const combinedVelocity = {
-          x: avgVx * MERGE_BOUNCE_MULTIPLIER,
-          y: avgVy * MERGE_BOUNCE_MULTIPLIER,
-        };
-
-        // 기존 과일 제거
-        this.removeFruitById(fruitA.id);
-        this.removeFruitById(fruitB.id);
-        this.fruitOwners.delete(fruitA.id);
-        this.fruitOwners.delete(fruitB.id);
-
-        // 합체 사운드
-        this.audio.playSFX('MERGE');
-
-        // 점수 계산
-        const scoreGain = newSize >= MAX_FRUIT_SIZE
-          ? (FRUIT_DATA[MAX_FRUIT_SIZE - 1]?.score || 0)
-          : (FRUIT_DATA[newSize - 1]?.score || 0);
-
-        // 점수 분배: 소유자가 같으면 전체, 다르면 절반씩
-        const room = this.sync.room;
-        if (room && scoreGain > 0) {
-          if (ownerA && ownerB && ownerA === ownerB) {
-            // 같은 소유자: 전체 점수
-            const newPartyScore = room.partyScore + scoreGain;
-            this.sync.reportPlayerScore(ownerA, scoreGain, newPartyScore);
-          } else if (ownerA && ownerB) {
-            // 다른 소유자: 각자 절반씩
-            const halfScore = Math.floor(scoreGain / 2);
-            const newPartyScore = room.partyScore + scoreGain;
-            this.sync.reportPlayerScore(ownerA, halfScore, newPartyScore);
-            // 두 번째 플레이어 점수는 partyScore 변경 없이
-            const updatedRoom = this.sync.room;
-            if (updatedRoom) {
-              this.sync.reportPlayerScore(ownerB, scoreGain - halfScore, updatedRoom.partyScore);
-            }
-          } else if (ownerA || ownerB) {
-            // 한 쪽만 소유자 있으면 해당 플레이어에게
-            const owner = ownerA || ownerB;
-            const newPartyScore = room.partyScore + scoreGain;
-            this.sync.reportPlayerScore(owner!, scoreGain, newPartyScore);
-          }
-        }
-
-        // 새 과일 소유자: 마지막 드롭한 플레이어
-        const newOwnerId = this.lastDropPlayerId || ownerA || ownerB || this.sync.playerId;
-
-        // 크기 10이면 폭죽 효과 후 사라짐
-        if (newSize >= MAX_FRUIT_SIZE) {
-          this.createFirework(midX, midY);
-          this.applyExplosionForce(midX, midY); // 주변 공들에게 충격파
-
-          // 최대 크기 업데이트
-          if (MAX_FRUIT_SIZE > this.maxFruitSize) {
-            this.maxFruitSize = MAX_FRUIT_SIZE;
-          }
-
-          // 드롭한 과일이 합쳐져서 사라졌으면 null로
-          if (this.droppedFruitId === fruitA.id || this.droppedFruitId === fruitB.id) {
-            this.droppedFruitId = null;
-          }
-        } else {
-          // 새 과일 생성 (두 오브젝트의 속도 벡터 합산 방향으로 튕김)
-          const newFruitId = `fruit_${Date.now()}_${Math.random().toString(36).substring(2, 7)}`;
-          this.createFruitWithId(newFruitId, midX, midY, newSize, combinedVelocity, newOwnerId);
-
-          // 최대 크기 업데이트
-          if (newSize > this.maxFruitSize) {
-            this.maxFruitSize = newSize;
-          }
-
-          // 드롭한 과일이 합쳐졌으면 새 과일로 교체
-          if (this.droppedFruitId === fruitA.id || this.droppedFruitId === fruitB.id) {
-            this.droppedFruitId = newFruitId;
-          }
-        }
+    const stats = this.comboStats[event.playerId] ?? { best: 0, bonus: 0 };
+    stats.best = Math.max(stats.best, event.combo);
+    stats.bonus += event.scoreGain - getScoreForMerge(event.size);
+    this.comboStats[event.playerId] = stats;
+  }
 
-        this.mergedPairs.delete(pairKey);
+  // 처음 얻은 업적만 프로필에 기록하고 알림
+  private handleAchievement(achievement: AchievementInfo): void {
+    if (!ProfileStore.getInstance().unlockAchievement(achievement.id)) return;
 
-        // 즉시 동기화
-        this.syncFruitsToServer();
-      }, 0);
-    }
+    console.log(`[Achievement] 달성: ${achievement.name}`);
+    showAchievementToast(achievement);
   }
 
-  // 과일이 게임오버 라인 위에 있는지 확인 (즉시 판정 아님)
-  private checkFruitsOverLine(): boolean {
-    for (const [, fruit] of this.fruits) {
-      const parsed = this.parseFruitLabel(fruit.label);
-      if (!parsed) continue;
-      const radius = FRUIT_DATA[parsed.size - 1]?.radius || 15;
-      // 과일의 하단이 게임오버 라인 아래에 있고, 속도가 거의 없을 때만
-      const speed = Math.sqrt(fruit.velocity.x ** 2 + fruit.velocity.y ** 2);
-      if (fruit.position.y + radius > GAME_OVER_Y && speed < 2) {
-        return true;
+  // 시뮬레이션이 판정한 합성 결과를 연출 + 서버 반영 (스냅샷 모드는 호스트만, 락스텝은 전원)
+  private handleMerge(merge: MergeEvent): void {
+    // 호스트: 삭제된 과일 ID 기록 (Firebase 동기화 지연으로 인한 재생성 방지)
+    if (!this.lockstep) {
+      for (const id of merge.removedIds) {
+        this.deletedFruitIds.add(id);
       }
     }
-    return false;
-  }
 
-  // 게임오버 타이머 업데이트 (호스트만)
-  private updateGameOverCheck(): void {
-    if (!this.sync.isHost) return;
-
-    const overLine = this.checkFruitsOverLine();
-    const framesSinceLastDrop = this.frameCount - this.lastDropFrame;
-    const graceActive = framesSinceLastDrop < DROP_GRACE_FRAMES;
-
-    if (overLine) {
-      // 선 위에 오브젝트가 있음
-      if (this.gameOverTimer > 0) {
-        // 이미 카운트다운 진행중이면 계속 (새 드롭과 무관하게)
-        this.gameOverTimer++;
-        this.isOverLine = true;
-      } else if (!graceActive) {
-        // 카운트다운 시작 (3초 유예 기간 지난 후에만)
-        this.gameOverTimer = 1;
-        this.isOverLine = true;
-      }
-      // graceActive && gameOverTimer === 0 이면 아직 유예 기간이므로 카운트다운 시작 안함
+    // 합체 사운드
+    this.audio.playSFX('MERGE');
+
+    // 크기 10이면 폭죽 효과 (충격파는 시뮬레이션이 적용)
+    if (merge.exploded) {
+      this.createFirework(merge.x, merge.y);
+    }
+
+    // 최대 크기 갱신 (모든 클라이언트가 같은 과일 큐를 계산하도록)
+    this.sync.reportMaxFruitSize(this.simulation.maxFruitSize);
+    this.sync.logMerge(merge);
 
-      // 게임오버 체크
-      if (this.gameOverTimer >= GAME_OVER_CHECK_FRAMES) {
-        this.sync.reportGameOver();
+    // 점수 반영: 시뮬레이션 누적값으로 덮어씀 (캐시된 방 점수에 더하면 같은 드롭의 연속 합성이 빠질 수 있음)
+    if (merge.scoreGain > 0) {
+      const partyScore = this.partyScoreBase + this.simulation.partyScore;
+      for (const credit of merge.credits) {
+        const score = (this.scoreBase[credit.playerId] ?? 0) + (this.simulation.scores[credit.playerId] ?? 0);
+        this.sync.reportPlayerScore(credit.playerId, score, partyScore);
       }
-    } else {
-      // 선 위로 올라가면 카운트다운 종료 (중력이 위쪽이라 안전)
-      this.gameOverTimer = 0;
-      this.isOverLine = false;
     }
+
+    // 즉시 동기화
+    this.syncFruitsToServer();
   }
 
   // 폭죽 효과 생성
@@ -1232,43 +1316,21 @@ export class MultiplayerGame {
     const particleCount = 50;
 
     for (let i = 0; i < particleCount; i++) {
-      const angle = (Math.PI * 2 * i) / particleCount + Math.random() * 0.5;
-      const speed = 3 + Math.random() * 5;
+      const angle = (Math.PI * 2 * i) / particleCount + this.effectsRng.next() * 0.5;
+      const speed = 3 + this.effectsRng.next() * 5;
       this.particles.push({
         x,
         y,
         vx: Math.cos(angle) * speed,
         vy: Math.sin(angle) * speed,
-        color: colors[Math.floor(Math.random() * colors.length)],
-        life: 60 + Math.random() * 30,
+        color: colors[this.effectsRng.nextInt(colors.length)],
+        life: 60 + this.effectsRng.next() * 30,
         maxLife: 90,
-        size: 3 + Math.random() * 4,
+        size: 3 + this.effectsRng.next() * 4,
       });
     }
   }
 
-  // 폭발 충격파 적용 (주변 공들을 밀어냄)
-  private applyExplosionForce(centerX: number, centerY: number): void {
-    for (const [_id, body] of this.fruits) {
-      const dx = body.position.x - centerX;
-      const dy = body.position.y - centerY;
-      const distance = Math.sqrt(dx * dx + dy * dy);
-
-      // 충격파 범위 내의 공들에게만 적용
-      if (distance > 0 && distance < EXPLOSION_RADIUS) {
-        // 거리에 반비례하는 힘 (가까울수록 강함)
-        const forceMagnitude = EXPLOSION_FORCE * (1 - distance / EXPLOSION_RADIUS);
-
-        // 방향 정규화
-        const forceX = (dx / distance) * forceMagnitude;
-        const forceY = (dy / distance) * forceMagnitude;
-
-        // 힘 적용
-        Matter.Body.applyForce(body, body.position, { x: forceX, y: forceY });
-      }
-    }
-  }
-
   // 파티클 업데이트
   private updateParticles(): void {
     for (let i = this.particles.length - 1; i >= 0; i--) {
@@ -1285,6 +1347,34 @@ export class MultiplayerGame {
     }
   }
 
+  // 콤보 글자 업데이트 (위로 떠오름)
+  private updateFloatingTexts(): void {
+    for (let i = this.floatingTexts.length - 1; i >= 0; i--) {
+      const t = this.floatingTexts[i];
+      t.y -= 0.8;
+      t.life--;
+
+      if (t.life <= 0) {
+        this.floatingTexts.splice(i, 1);
+      }
+    }
+  }
+
+  private renderFloatingTexts(ctx: CanvasRenderingContext2D): void {
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = 'bold 20px Arial';
+    ctx.lineWidth = 3;
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillStyle = '#FFD700';
+    for (const t of this.floatingTexts) {
+      ctx.globalAlpha = t.life / t.maxLife;
+      ctx.strokeText(t.text, t.x, t.y);
+      ctx.fillText(t.text, t.x, t.y);
+    }
+    ctx.globalAlpha = 1;
+  }
+
   // 파티클 렌더링
   private renderParticles(ctx: CanvasRenderingContext2D): void {
     for (const p of this.particles) {
@@ -1301,59 +1391,90 @@ export class MultiplayerGame {
   private async nextTurn(): Promise<void> {
     // 게임오버는 게임 루프에서 타이머 기반으로 검사하므로 여기서는 체크하지 않음
 
-    // 다음 과일 크기 결정 (확률 시스템)
-    const nextSize = this.getNextFruitSize();
+    // 턴 진행은 호스트만 기록 (심판이 있으면 심판 담당)
+    // 다음 과일 크기 결정 (방 시드 + 턴 번호 → 모든 클라이언트에서 같은 결과)
+    const room = this.sync.room;
+    if (!room || !this.sync.isAuthority) return;
+    const turn = room.turnNumber || 0;
+    const maxFruitSize = Math.max(room.maxFruitSize, this.simulation.maxFruitSize);
+    const nextSize = fruitSizeForTurn(this.sync.seed, turn + 1, maxFruitSize);
 
-    // 서버에 다음 턴 요청 (현재 턴 플레이어만)
-    if (this.sync.isMyTurn) {
-      await this.sync.nextTurn(nextSize);
-    }
+    await this.sync.nextTurn(turn, nextSize);
   }
 
-  // 다음 과일 크기 결정 (작은 크기일수록 높은 확률)
-  private getNextFruitSize(): number {
-    // 스폰 가능 최대 크기: maxFruitSize - 1 (최소 1, 최대 5)
-    const maxSpawn = Math.min(Math.max(1, this.maxFruitSize - 1), 5);
+  // 호스트 전용: 발사된 턴이 끝나면 다음 턴 시작
+  // 락스텝: 그 턴 입력을 끝까지 적용한 뒤 / 스냅샷: 발사 후 SETTLE_FRAMES 뒤
+  private updateTurnAdvance(): void {
+    const room = this.sync.room;
+    if (!room || room.status !== 'playing' || !this.sync.isAuthority) return;
 
-    if (maxSpawn === 1) return 1;
+    const turn = room.turnNumber || 0;
+    if (turn <= this.lastAdvancedTurn) return;
 
-    // 각 크기별 가중치 계산 (작을수록 높음)
-    // 크기 1: 가중치 maxSpawn, 크기 2: 가중치 maxSpawn-1, ...
-    const weights: number[] = [];
-    for (let size = 1; size <= maxSpawn; size++) {
-      const weight = maxSpawn - size + 1;
-      weights.push(weight);
+    if (this.shouldSkipTurn(room, turn)) {
+      console.log('[Host] 연결이 끊긴 플레이어 턴 건너뜀:', this.sync.currentTurnPlayerId);
+      this.lastAdvancedTurn = turn;
+      this.settlingTurn = null;
+      this.nextTurn();
+      return;
     }
 
-    // 가중치 합계
-    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    let done: boolean;
+    if (this.lockstep) {
+      done = !!room.inputs?.[`t${turn}`] && this.lockstep.lastAppliedTurn >= turn;
+    } else {
+      if (this.settlingTurn !== turn) return;
+      done = ++this.turnAdvanceFrames > SETTLE_FRAMES;
+    }
 
-    // 랜덤 선택
-    let random = Math.random() * totalWeight;
-    for (let i = 0; i < weights.length; i++) {
-      random -= weights[i];
-      if (random <= 0) {
-        return i + 1;
-      }
+    if (done) {
+      this.lastAdvancedTurn = turn;
+      this.settlingTurn = null;
+      this.nextTurn();
     }
+  }
 
-    return 1;
+  // 현재 플레이어가 끊겼거나 (connected: false) 시간 제한을 넘겨도 발사가 없으면 건너뜀
+  // 아직 끊김이 감지되기 전 (onDisconnect는 늦게 올 수 있음)을 위해 시간 초과도 함께 봄
+  private shouldSkipTurn(room: RoomState, turn: number): boolean {
+    const launched = this.lockstep
+      ? !!room.inputs?.[`t${turn}`]
+      : this.settlingTurn === turn || !!room.dropRequest;
+    if (launched) return false;
+
+    const currentPlayerId = this.sync.currentTurnPlayerId;
+    const disconnected = !!currentPlayerId && room.players[currentPlayerId]?.connected === false;
+    const overdue = this.sync.serverNow - room.turnStartTime > (TURN_TIME + TURN_SKIP_GRACE) * 1000;
+    return disconnected || overdue;
+  }
+
+  // 호스트: 이번 턴 과일이 발사됨 (다음 턴 대기 시작)
+  private markTurnLaunched(): void {
+    this.settlingTurn = this.sync.room?.turnNumber || 0;
+    this.turnAdvanceFrames = 0;
   }
 
   private syncFruitsToServer(): void {
-    if (!this.sync.isHost) return;
+    if (!this.sync.isAuthority || this.lockstep) return;
 
-    const fruitsData: Record<string, { x: number; y: number; size: number; ownerId: string }> = {};
+    const fruitsData: Record<string, FruitSyncData> = {};
+    const frame = this.simulation.frame;
 
-    // 호스트의 로컬 과일 (물리 엔진 위치)
-    for (const [id, body] of this.fruits) {
-      const parsed = this.parseFruitLabel(body.label);
-      if (parsed) {
+    // 호스트의 로컬 과일 (물리 엔진 위치 + 비호스트 보간용 프레임/속도)
+    // 양자화와 변경분 추출(멈춘 과일 생략)은 네트워크 계층에서 처리
+    for (const [id, body] of this.simulation.bodies) {
+      const size = this.simulation.getFruitSize(id);
+      if (size) {
         fruitsData[id] = {
-          x: Math.round(body.position.x),
-          y: Math.round(body.position.y),
-          size: parsed.size,
-          ownerId: this.fruitOwners.get(id) || this.sync.playerId,
+          x: body.position.x,
+          y: body.position.y,
+          angle: body.angle,
+          size,
+          ownerId: this.simulation.getOwner(id) || this.sync.playerId,
+          frame,
+          vx: body.velocity.x,
+          vy: body.velocity.y,
+          angularVelocity: body.angularVelocity,
         };
       }
     }
@@ -1375,9 +1496,10 @@ export class MultiplayerGame {
     const players = Object.values(room.players) as RoomPlayer[];
     players.sort((a, b) => b.score - a.score);
 
-    const playerCount = players.length;
-    const multiplier = this.getPlayerMultiplier(playerCount);
-    const finalScore = Math.floor(partyScore * multiplier);
+    const { participantCount: playerCount, multiplier, finalScore } = getFinalScore(partyScore, players, room.turnNumber || 0);
+
+    // 리더보드 등록은 심판 프로세스가 이벤트 로그를 다시 시뮬레이션해서 함 (클라이언트는 제출하지 않음)
+    this.recordProfileGame(room);
 
     const style = document.createElement('style');
     style.textContent = `
@@ -1465,6 +1587,7 @@ export class MultiplayerGame {
       .player-contribution.top-3 { border-left-color: #CD7F32; }
       .player-name { font-weight: bold; }
       .player-score { color: #4BC0C0; font-weight: bold; }
+      .player-combo { flex: 1; margin: 0 10px; font-size: 12px; color: #FFD700; text-align: right; }
       .total-score {
         font-size: 36px;
         color: #fff;
@@ -1537,6 +1660,25 @@ export class MultiplayerGame {
         transform: scale(1.05);
         box-shadow: 0 6px 30px rgba(255, 107, 157, 0.6);
       }
+      .replay-actions {
+        display: flex;
+        justify-content: center;
+        gap: 10px;
+        margin-top: 12px;
+        opacity: 0;
+      }
+      .replay-actions.visible {
+        animation: fadeSlideIn 0.5s ease-out forwards;
+      }
+      .replay-action-btn {
+        padding: 8px 18px;
+        font-size: 14px;
+        border: 1px solid rgba(255, 107, 157, 0.6);
+        border-radius: 20px;
+        background: rgba(255,255,255,0.08);
+        color: white;
+        cursor: pointer;
+      }
     `;
     document.head.appendChild(style);
 
@@ -1557,7 +1699,7 @@ export class MultiplayerGame {
         </div>
 
         <div class="score-phase" id="phase-multiplier">
-          <div class="phase-title">${playerCount} Players Bonus</div>
+          <div class="phase-title">${Number.isInteger(playerCount) ? playerCount : playerCount.toFixed(1)} Players Bonus</div>
           <div class="multiplier-display">x${multiplier.toFixed(1)}</div>
         </div>
 
@@ -1570,6 +1712,10 @@ export class MultiplayerGame {
         </div>
 
         <button class="play-again-btn" id="play-again-btn">Play Again</button>
+        <div class="replay-actions" id="replay-actions">
+          <button class="replay-action-btn" id="watch-replay-btn">Watch Replay</button>
+          <button class="replay-action-btn" id="export-replay-btn">Export Replay</button>
+        </div>
       </div>
     `;
     document.body.appendChild(overlay);
@@ -1578,16 +1724,6 @@ export class MultiplayerGame {
     this.runScoreAnimation(players, partyScore, multiplier, finalScore);
   }
 
-  private getPlayerMultiplier(playerCount: number): number {
-    // 인원 범위: 1~10명
-    const clampedCount = Math.max(1, Math.min(10, playerCount));
-
-    // 로그 기반 배율: 1명 = x1.0, 10명 = x2.0 (증가폭 점점 감소)
-    // 공식: 1 + ln(n) / ln(10)
-    if (clampedCount === 1) return 1.0;
-    return 1 + Math.log(clampedCount) / Math.log(10);
-  }
-
   private async runScoreAnimation(
     players: RoomPlayer[],
     partyScore: number,
@@ -1607,10 +1743,12 @@ export class MultiplayerGame {
         await delay(400);
         const player = players[i];
         const topClass = i === 0 ? 'top-1' : i === 1 ? 'top-2' : i === 2 ? 'top-3' : '';
+        const combo = this.comboStats[player.id];
         const item = document.createElement('div');
         item.className = `player-contribution ${topClass}`;
         item.innerHTML = `
-          <span class="player-name">${player.name}</span>
+          <span class="player-name">${escapeHtml(player.name)}</span>
+          ${combo ? `<span class="player-combo">Best x${combo.best} · Combo +${combo.bonus.toLocaleString()}</span>` : ''}
           <span class="player-score">+${player.score.toLocaleString()}</span>
         `;
         contributionsList.appendChild(item);
@@ -1657,7 +1795,7 @@ export class MultiplayerGame {
       topContributors.innerHTML = '<div class="phase-title">Top Contributors</div>' +
         top3.map((p, i) => `
           <span class="top-contributor-item">
-            <span class="medal">${medals[i]}</span>${p.name}
+            <span class="medal">${medals[i]}</span>${escapeHtml(p.name)}
           </span>
         `).join('');
     }
@@ -1676,6 +1814,64 @@ export class MultiplayerGame {
         }
       });
     }
+
+    const replayActions = document.getElementById('replay-actions');
+    if (replayActions) {
+      replayActions.classList.add('visible');
+      document.getElementById('watch-replay-btn')!.addEventListener('click', () => this.watchReplay());
+      document.getElementById('export-replay-btn')!.addEventListener('click', () => this.exportReplay());
+    }
+  }
+
+  // 내 프로필에 이번 게임 반영 (자리에 있던 플레이어만, 합성 수와 크기는 이벤트 로그 기준)
+  private async recordProfileGame(room: RoomState): Promise<void> {
+    const me = room.players[this.sync.playerId];
+    if (!me) return;
+
+    const replay = buildReplay(room, await this.sync.getFinishedGameActions());
+    if (!replay) return;
+
+    const myMerges = replay.merges.filter((merge) => merge.playerId === me.id);
+    const myLaunches = replay.launches.filter((launch) => launch.playerId === me.id);
+    ProfileStore.getInstance().recordGame({
+      id: `${replay.roomId}_${replay.startedAt}`,
+      endedAt: replay.endedAt ?? Date.now(),
+      playerCount: Object.keys(room.players).length,
+      partyScore: room.partyScore,
+      score: me.score,
+      merges: myMerges.length,
+      biggestFruit: Math.max(0, ...myMerges.map((merge) => merge.size), ...myLaunches.map((launch) => launch.size)),
+      detonations: myMerges.filter((merge) => merge.exploded).length,
+    });
+  }
+
+  // 방 이벤트 로그로 방금 끝난 게임의 리플레이 생성
+  private async loadReplay(): Promise<GameReplay | null> {
+    const room = this.sync.room;
+    if (!room) return null;
+
+    const replay = buildReplay(room, await this.sync.getActionHistory());
+    if (!replay) {
+      alert('No replay recorded for this game');
+    }
+    return replay;
+  }
+
+  private async watchReplay(): Promise<void> {
+    if (this.replayViewer) return;
+
+    const replay = await this.loadReplay();
+    if (!replay) return;
+
+    this.replayViewer = new ReplayViewer(replay);
+    this.replayViewer.setOnClose(() => (this.replayViewer = null));
+  }
+
+  private async exportReplay(): Promise<void> {
+    const replay = await this.loadReplay();
+    if (replay) {
+      downloadReplay(replay);
+    }
   }
 
   private animateNumber(element: HTMLElement, start: number, end: number, duration: number): Promise<void> {
@@ -1706,60 +1902,48 @@ export class MultiplayerGame {
 
     this.frameCount++;
 
-    // 비행 중인 과일: 중력 무시하고 직선 비행
-    // 방법: 저장된 발사 속도를 매 프레임 직접 적용
-    for (const [fruitId, storedVelocity] of this.inFlightFruits.entries()) {
-      const body = this.fruits.get(fruitId);
-      if (body) {
-        // 화면 경계 체크 - 벽에 닿으면 비행 상태 해제
-        const { x, y } = body.position;
-        const parsed = this.parseFruitLabel(body.label);
-        const radius = parsed ? FRUIT_DATA[parsed.size - 1]?.radius || 15 : 15;
-
-        if (x - radius <= 5 || x + radius >= WIDTH - 5 ||
-            y - radius <= CEILING_Y + 5 || y + radius >= HEIGHT - 5) {
-          this.inFlightFruits.delete(fruitId);
-          continue;
-        }
-
-        // 비행 중에는 저장된 발사 속도를 직접 적용 (중력 무시)
-        Matter.Body.setVelocity(body, {
-          x: storedVelocity.vx,
-          y: storedVelocity.vy
-        });
-      }
-    }
-
-    // 호스트: 전체 물리 시뮬레이션
+    // 락스텝: 모든 클라이언트가 같은 입력으로 전체 시뮬레이션
+    // 호스트: 전체 물리 시뮬레이션 + 합성/게임오버 판정
     // 비호스트: 임시 과일 물리 시뮬레이션 (예측 렌더링용)
-    if (this.sync.isHost) {
-      Matter.Engine.update(this.engine, 1000 / 60);
+    if (this.lockstep) {
+      this.lockstep.update();
+    } else if (this.sync.isAuthority) {
+      this.simulation.setAuthoritative(true);
+      this.handleSimulationEvents(this.simulation.step());
 
       // 주기적으로 과일 위치 동기화
       if (this.frameCount % SYNC_INTERVAL === 0) {
         this.syncFruitsToServer();
       }
 
-      // 게임오버 검사 (2초 동안 라인 위에 있으면 게임오버)
-      this.updateGameOverCheck();
+      // 주기적으로 월드 체크포인트 저장 (호스트가 나가도 다음 호스트가 이어서 진행)
+      if (this.frameCount % CHECKPOINT_INTERVAL === 0) {
+        this.saveCheckpoint();
+      }
     } else if (this.pendingDropFruitId && !this.pendingDropSynced) {
       // 비호스트: 임시 과일이 있고 아직 동기화되지 않았을 때만 물리 업데이트
-      Matter.Engine.update(this.engine, 1000 / 60);
+      this.simulation.setAuthoritative(false);
+      this.simulation.step();
     }
 
     // settling 상태에서 안정화 체크 (내 턴일 때)
     if (this.turnPhase === 'settling' && this.sync.isMyTurn) {
       this.settleCheckTimer++;
-      // 거의 즉시 다음 턴으로
-      if (this.settleCheckTimer > SETTLE_FRAMES) {
+      // 락스텝: 내 입력의 턴이 끝까지 진행된 뒤 / 그 외: 거의 즉시 (다음 턴은 호스트가 시작)
+      const settled = this.lockstep
+        ? this.lockstep.lastAppliedTurn >= this.launchTurnNumber
+        : this.settleCheckTimer > SETTLE_FRAMES;
+      if (settled) {
         this.settleCheckTimer = 0;
         this.turnPhase = 'waiting';
-        this.nextTurn();
       }
     }
 
+    this.updateTurnAdvance();
+
     // 파티클 업데이트
     this.updateParticles();
+    this.updateFloatingTexts();
 
     // 렌더링
     this.render();
@@ -1800,9 +1984,10 @@ export class MultiplayerGame {
 
     // 파티클 그리기 (폭죽 효과)
     this.renderParticles(ctx);
+    this.renderFloatingTexts(ctx);
 
-    // 과일 그리기 (호스트는 로컬 물리, 비호스트는 원격 상태)
-    if (this.sync.isHost) {
+    // 과일 그리기 (호스트와 락스텝은 로컬 물리, 비호스트는 원격 상태)
+    if (this.sync.isAuthority || this.lockstep) {
       this.renderLocalFruits(ctx);
     } else {
       this.renderRemoteFruits(ctx);
@@ -1813,73 +1998,30 @@ export class MultiplayerGame {
   }
 
   private renderLocalFruits(ctx: CanvasRenderingContext2D): void {
-    for (const [, fruit] of this.fruits) {
-      const { x, y } = fruit.position;
-      const parsed = this.parseFruitLabel(fruit.label);
-      if (!parsed) continue;
-
-      const data = FRUIT_DATA[parsed.size - 1] || FRUIT_DATA[0];
-
-      ctx.beginPath();
-      ctx.arc(x, y, data.radius, 0, Math.PI * 2);
-      ctx.fillStyle = data.color;
-      ctx.fill();
-      ctx.strokeStyle = '#ffffff44';
-      ctx.lineWidth = 2;
-      ctx.stroke();
+    for (const [id, fruit] of this.simulation.bodies) {
+      const size = this.simulation.getFruitSize(id);
+      if (!size) continue;
 
-      ctx.fillStyle = '#fff';
-      ctx.font = `bold ${Math.max(12, data.radius * 0.5)}px Arial`;
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
-      ctx.fillText(parsed.size.toString(), x, y);
+      const data = FRUIT_DATA[size - 1] || FRUIT_DATA[0];
+      drawFruit(ctx, { ...data, size, x: fruit.position.x, y: fruit.position.y, angle: fruit.angle });
     }
   }
 
   private renderRemoteFruits(ctx: CanvasRenderingContext2D): void {
     // 1. 임시 과일 렌더링 (아직 동기화되지 않은 경우, 로컬 물리 엔진 위치 사용)
     if (this.pendingDropFruitId && !this.pendingDropSynced) {
-      const tempFruit = this.fruits.get(this.pendingDropFruitId);
-      if (tempFruit) {
-        const { x, y } = tempFruit.position;
-        const parsed = this.parseFruitLabel(tempFruit.label);
-        if (parsed) {
-          const data = FRUIT_DATA[parsed.size - 1] || FRUIT_DATA[0];
-
-          ctx.beginPath();
-          ctx.arc(x, y, data.radius, 0, Math.PI * 2);
-          ctx.fillStyle = data.color;
-          ctx.fill();
-          ctx.strokeStyle = '#ffffff44';
-          ctx.lineWidth = 2;
-          ctx.stroke();
-
-          ctx.fillStyle = '#fff';
-          ctx.font = `bold ${Math.max(12, data.radius * 0.5)}px Arial`;
-          ctx.textAlign = 'center';
-          ctx.textBaseline = 'middle';
-          ctx.fillText(parsed.size.toString(), x, y);
-        }
+      const tempFruit = this.simulation.bodies.get(this.pendingDropFruitId);
+      const size = this.simulation.getFruitSize(this.pendingDropFruitId);
+      if (tempFruit && size) {
+        const data = FRUIT_DATA[size - 1] || FRUIT_DATA[0];
+        drawFruit(ctx, { ...data, size, x: tempFruit.position.x, y: tempFruit.position.y, angle: tempFruit.angle });
       }
     }
 
-    // 2. Firebase에서 받은 과일 상태 렌더링
-    for (const [, fruitState] of Object.entries(this.remoteFruits)) {
+    // 2. Firebase에서 받은 과일 상태 렌더링 (호스트 프레임 기준 보간/외삽)
+    for (const fruitState of this.interpolator.sample(performance.now())) {
       const data = FRUIT_DATA[fruitState.size - 1] || FRUIT_DATA[0];
-
-      ctx.beginPath();
-      ctx.arc(fruitState.x, fruitState.y, data.radius, 0, Math.PI * 2);
-      ctx.fillStyle = data.color;
-      ctx.fill();
-      ctx.strokeStyle = '#ffffff44';
-      ctx.lineWidth = 2;
-      ctx.stroke();
-
-      ctx.fillStyle = '#fff';
-      ctx.font = `bold ${Math.max(12, data.radius * 0.5)}px Arial`;
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
-      ctx.fillText(fruitState.size.toString(), fruitState.x, fruitState.y);
+      drawFruit(ctx, { ...data, ...fruitState });
     }
   }
 
@@ -1908,8 +2050,15 @@ export class MultiplayerGame {
     ctx.textAlign = 'left';
     ctx.textBaseline = 'top';
     ctx.fillText(`Party: ${room?.partyScore || 0}`, 10, UI_TOP);
-    const myScore = room?.players[this.sync.playerId]?.score || 0;
-    ctx.fillText(`My: ${myScore}`, 10, UI_TOP + 18);
+    if (this.sync.isSpectator) {
+      ctx.fillStyle = '#FFCD56';
+      ctx.fillText('Spectating', 10, UI_TOP + 18);
+      ctx.fillStyle = '#fff';
+    } else {
+      const myScore = room?.players[this.sync.playerId]?.score || 0;
+      ctx.fillText(`My: ${myScore}`, 10, UI_TOP + 18);
+    }
+
 
     // 호스트 표시
     if (this.sync.isHost) {
@@ -1917,6 +2066,13 @@ export class MultiplayerGame {
       ctx.fillText('(Host)', 10, UI_TOP + 36);
     }
 
+    // 관전자 수 (호스트 표시 옆)
+    const spectatorCount = this.sync.spectatorCount;
+    if (spectatorCount > 0) {
+      ctx.fillStyle = '#aaa';
+      ctx.fillText(`👀 ${spectatorCount}`, this.sync.isHost ? 60 : 10, UI_TOP + 36);
+    }
+
     // 현재 턴 플레이어 (상단 중앙)
     if (room) {
       const currentPlayerId = room.playerOrder[room.currentPlayerIndex];
@@ -1952,9 +2108,23 @@ export class MultiplayerGame {
       ctx.fillText('Settling...', WIDTH / 2, UI_TOP + 22);
     }
 
+    // 관전자 중간 참가 버튼 (방장이 허용하고 자리가 있을 때)
+    if (this.sync.isSpectator && this.sync.canTakeSeat) {
+      const b = JOIN_BUTTON;
+      ctx.fillStyle = 'rgba(75, 192, 192, 0.85)';
+      ctx.beginPath();
+      ctx.roundRect(b.x, b.y, b.width, b.height, 8);
+      ctx.fill();
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillStyle = '#fff';
+      ctx.font = 'bold 14px Arial';
+      ctx.fillText('Join next turn', b.x + b.width / 2, b.y + b.height / 2);
+    }
+
     // 게임오버 경고 표시 (라인 바로 위)
-    if (this.isOverLine && this.gameOverTimer > 0) {
-      const remainingTime = Math.ceil((GAME_OVER_CHECK_FRAMES - this.gameOverTimer) / 60);
+    if (this.simulation.isOverLine && this.simulation.gameOverTimer > 0) {
+      const remainingTime = Math.ceil((GAME_OVER_CHECK_FRAMES - this.simulation.gameOverTimer) / 60);
       ctx.textAlign = 'center';
       ctx.fillStyle = '#e94560';
       ctx.font = 'bold 16px Arial';
@@ -1962,10 +2132,17 @@ export class MultiplayerGame {
       ctx.fillText(`WARNING! ${remainingTime}s`, WIDTH / 2, GAME_OVER_Y - 10);
     }
 
-    // 플레이어 목록 (상단 우측)
+    // 플레이어 목록 (상단 우측): 점수순, 관전자는 현재 턴부터 턴 순서대로
     if (room) {
-      const players = Object.values(room.players) as RoomPlayer[];
-      players.sort((a, b) => b.score - a.score);
+      let players = Object.values(room.players) as RoomPlayer[];
+      if (this.sync.isSpectator) {
+        const order = room.playerOrder;
+        players = order
+          .map((_, i) => room.players[order[(room.currentPlayerIndex + i) % order.length]])
+          .filter((p): p is RoomPlayer => !!p);
+      } else {
+        players.sort((a, b) => b.score - a.score);
+      }
 
       ctx.textAlign = 'right';
       ctx.font = '11px Arial';
@@ -1976,9 +2153,10 @@ export class MultiplayerGame {
       displayPlayers.forEach((player, i) => {
         const isCurrentTurn = room.playerOrder[room.currentPlayerIndex] === player.id;
         const hostMark = player.isHost ? '*' : '';
+        const offline = player.connected === false;
         const medal = i === 0 ? '1.' : i === 1 ? '2.' : i === 2 ? '3.' : `${i + 1}.`;
-        ctx.fillStyle = isCurrentTurn ? '#4BC0C0' : '#aaa';
-        ctx.fillText(`${medal}${hostMark}${player.name}: ${player.score}`, WIDTH - 10, UI_TOP + i * 14);
+        ctx.fillStyle = offline ? '#666' : isCurrentTurn ? '#4BC0C0' : '#aaa';
+        ctx.fillText(`${medal}${hostMark}${player.name}: ${player.score}${offline ? ' (offline)' : ''}`, WIDTH - 10, UI_TOP + i * 14);
       });
     }
   }
@@ -2010,10 +2188,8 @@ export class MultiplayerGame {
   destroy(): void {
     this.stop();
 
-    // Matter.js 정리
-    Matter.Events.off(this.engine, 'collisionStart');
-    Matter.World.clear(this.engine.world, false);
-    Matter.Engine.clear(this.engine);
+    // 시뮬레이션 정리
+    this.simulation.destroy();
 
     // 이벤트 리스너 정리
     const canvas = this.ctx.canvas;
@@ -2023,6 +2199,7 @@ export class MultiplayerGame {
     canvas.removeEventListener('pointerleave', this.boundPointerUp);
     canvas.removeEventListener('pointercancel', this.boundPointerUp);
     canvas.removeEventListener('contextmenu', this.boundContextMenu);
+    window.removeEventListener('pagehide', this.boundPageHide);
 
     // 타이머 정리
     if (this.dropDelayTimer) {
@@ -2033,6 +2210,11 @@ export class MultiplayerGame {
     this.cachedBackground = null;
     this.cachedGradient = null;
 
+    this.replayViewer?.close();
+
+    this.achievements.destroy();
+    this.gameEvents.clear();
+
     // 게임오버 오버레이 제거
     const overlay = document.querySelector('.game-over-overlay');
     if (overlay) {
@@ -1,37 +1,79 @@
-import { GAME_CONFIG, FRUIT_DATA } from '../core/config';
-import type { Fruit } from './Fruit';
+import { FRUIT_DATA } from '../core/config';
+import type { FruitData } from '../core/types';
+import { DEFAULT_LAYOUT, type WorldLayout } from './GameSimulation';
+
+// 렌더링에 필요한 과일 정보 (시뮬레이션 바디 위치/각도 + 크기별 데이터)
+export type FruitView = Pick<FruitData, 'size' | 'radius' | 'color'> & { x: number; y: number; angle?: number };
+
+// 과일 이미지 캐시 (모든 화면이 공유, 처음 그릴 때 로드)
+const fruitImages = new Map<number, HTMLImageElement>();
+
+function getFruitImage(size: number): HTMLImageElement | undefined {
+  let img = fruitImages.get(size);
+  if (!img) {
+    const data = FRUIT_DATA[size - 1];
+    if (!data) return undefined;
+
+    img = new Image();
+    img.onerror = () => {
+      console.warn(`Failed to load image: ${data.image}`);
+    };
+    img.src = data.image;
+    fruitImages.set(size, img);
+  }
+  return img;
+}
+
+// 과일 그리기: 이미지가 있으면 바디 각도로 회전해서, 없으면 색상 원 + 크기 숫자
+export function drawFruit(ctx: CanvasRenderingContext2D, fruit: FruitView): void {
+  const { x, y, radius, color, size } = fruit;
+  const img = getFruitImage(size);
+
+  if (img && img.complete && img.naturalWidth > 0) {
+    const drawSize = radius * 2;
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.rotate(fruit.angle ?? 0);
+    ctx.drawImage(img, -radius, -radius, drawSize, drawSize);
+    ctx.restore();
+    return;
+  }
+
+  ctx.beginPath();
+  ctx.arc(x, y, radius, 0, Math.PI * 2);
+  ctx.fillStyle = color;
+  ctx.fill();
+  ctx.strokeStyle = '#ffffff44';
+  ctx.lineWidth = 2;
+  ctx.stroke();
+
+  ctx.fillStyle = '#fff';
+  ctx.font = `bold ${Math.max(12, radius * 0.5)}px Arial`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(size.toString(), x, y);
+}
 
 export class Renderer {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
   private width: number;
   private height: number;
-  private images: Map<number, HTMLImageElement> = new Map();
+  private layout: WorldLayout;
 
-  constructor(canvas: HTMLCanvasElement, width: number, height: number) {
+  constructor(canvas: HTMLCanvasElement, width: number, height: number, layout: WorldLayout = DEFAULT_LAYOUT) {
     this.canvas = canvas;
     this.canvas.width = width;
     this.canvas.height = height;
     this.width = width;
     this.height = height;
+    this.layout = layout;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) {
       throw new Error('Failed to get 2D context');
     }
     this.ctx = ctx;
-    this.loadImages();
-  }
-
-  private loadImages(): void {
-    for (const data of FRUIT_DATA) {
-      const img = new Image();
-      img.onerror = () => {
-        console.warn(`Failed to load image: ${data.image}`);
-      };
-      img.src = data.image;
-      this.images.set(data.size, img);
-    }
   }
 
   clear(): void {
@@ -44,43 +86,27 @@ export class Renderer {
     this.ctx.lineWidth = 2;
     this.ctx.setLineDash([10, 10]);
     this.ctx.beginPath();
-    this.ctx.moveTo(0, GAME_CONFIG.GAME_OVER_LINE_Y);
-    this.ctx.lineTo(this.width, GAME_CONFIG.GAME_OVER_LINE_Y);
+    this.ctx.moveTo(0, this.layout.gameOverY);
+    this.ctx.lineTo(this.width, this.layout.gameOverY);
     this.ctx.stroke();
     this.ctx.setLineDash([]);
   }
 
-  drawFruit(fruit: Fruit): void {
-    const { x, y, radius, color, size } = fruit;
-    const img = this.images.get(size);
-
-    if (img && img.complete && img.naturalWidth > 0) {
-      const drawSize = radius * 2;
-      this.ctx.drawImage(img, x - radius, y - radius, drawSize, drawSize);
-    } else {
-      this.ctx.beginPath();
-      this.ctx.arc(x, y, radius, 0, Math.PI * 2);
-      this.ctx.fillStyle = color;
-      this.ctx.fill();
-      this.ctx.strokeStyle = '#ffffff33';
-      this.ctx.lineWidth = 2;
-      this.ctx.stroke();
-
-      this.ctx.fillStyle = '#fff';
-      this.ctx.font = `bold ${Math.max(12, radius * 0.6)}px Arial`;
-      this.ctx.textAlign = 'center';
-      this.ctx.textBaseline = 'middle';
-      this.ctx.fillText(size.toString(), x, y);
-    }
+  drawFruit(fruit: FruitView): void {
+    drawFruit(this.ctx, fruit);
   }
 
+  // 발사 위치에서 과일이 쌓이는 쪽 끝까지
   drawDropIndicator(x: number): void {
+    const { gravityY, ceilingY, launchY } = this.layout;
+    const endY = gravityY < 0 ? (ceilingY ?? 0) : this.height;
+
     this.ctx.strokeStyle = '#ffffff44';
     this.ctx.lineWidth = 1;
     this.ctx.setLineDash([5, 5]);
     this.ctx.beginPath();
-    this.ctx.moveTo(x, GAME_CONFIG.DROP_AREA_Y);
-    this.ctx.lineTo(x, this.height);
+    this.ctx.moveTo(x, launchY);
+    this.ctx.lineTo(x, endY);
     this.ctx.stroke();
     this.ctx.setLineDash([]);
   }
@@ -90,9 +116,13 @@ export class Renderer {
     this.ctx.fillRect(0, 0, 4, this.height);
     this.ctx.fillRect(this.width - 4, 0, 4, this.height);
     this.ctx.fillRect(0, this.height - 4, this.width, 4);
+    // 천장 (폭죽이 쌓이는 곳)
+    if (this.layout.ceilingY !== null) {
+      this.ctx.fillRect(0, this.layout.ceilingY - 4, this.width, 4);
+    }
   }
 
-  render(fruits: Fruit[], dropX: number, previewFruit: Fruit | null): void {
+  render(fruits: FruitView[], dropX: number, previewFruit: FruitView | null): void {
     this.clear();
     this.drawWalls();
     this.drawGameOverLine();
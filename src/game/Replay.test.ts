@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import { launchActionData, mergeActionData } from '../network/ActionLog';
+import type { GameAction, GameActionType, RoomState } from '../network/types';
+import { SeededRandom, deriveSeed } from '../core/Random';
+import { GameSimulation } from './GameSimulation';
+import { REPLAY_VERSION, buildReplay, parseReplay, serializeReplay } from './Replay';
+import { ReplayPlayback } from './ReplayPlayback';
+
+const SEED = 1234;
+
+const room = {
+  id: 'room12345678',
+  seed: SEED,
+  players: { p1: { id: 'p1', name: 'Alice' } },
+  syncMode: 'snapshot',
+} as unknown as RoomState;
+
+interface ScriptedGame {
+  actions: GameAction[];
+  simulation: GameSimulation;
+  merges: number;
+}
+
+// 호스트처럼 시뮬레이션하며 이벤트 로그 기록 (p1, p2가 번갈아 60프레임마다 발사)
+function playGame(launches: number, gameOver = true): ScriptedGame {
+  const actions: GameAction[] = [];
+  const log = (type: GameActionType, playerId: string, data: Record<string, unknown>) => {
+    actions.push({ seq: actions.length + 1, type, playerId, timestamp: 1000 + actions.length, data });
+  };
+
+  log('join', 'p1', { name: 'Alice' });
+  log('join', 'p2', { name: 'Bob' });
+  log('game_start', 'p1', { seed: SEED });
+
+  const simulation = new GameSimulation({ rng: new SeededRandom(deriveSeed(SEED, 'ids', 'p1')) });
+  const rng = new SeededRandom(7);
+  let merges = 0;
+  for (let turn = 0; turn < launches; turn++) {
+    simulation.launch({
+      playerId: turn % 2 === 0 ? 'p1' : 'p2',
+      x: 60 + rng.nextInt(280),
+      velocity: { x: rng.next() * 4 - 2, y: -10 },
+      size: 1 + rng.nextInt(3),
+    });
+    for (let i = 0; i < 60; i++) {
+      for (const event of [...simulation.drainEvents(), ...simulation.step()]) {
+        if (event.type === 'launch') {
+          log('drop', event.input.playerId, launchActionData(event.frame, event.fruitId, event.input));
+        } else if (event.type === 'merge') {
+          merges++;
+          const { playerId, data } = mergeActionData(event.merge);
+          log('merge', playerId, data);
+          log('score', playerId, { score: simulation.scores[playerId], partyScore: simulation.partyScore });
+        }
+      }
+    }
+    log('turn', turn % 2 === 0 ? 'p2' : 'p1', { turnNumber: turn + 1, fruitSize: 1 });
+  }
+  if (gameOver) {
+    log('game_over', 'p1', { partyScore: simulation.partyScore, frame: simulation.frame });
+  }
+  return { actions, simulation, merges };
+}
+
+describe('buildReplay', () => {
+  it('collects the last game\'s launches, merges and players from the log', () => {
+    const game = playGame(20);
+    const replay = buildReplay(room, game.actions)!;
+
+    expect(replay.version).toBe(REPLAY_VERSION);
+    expect(replay.seed).toBe(SEED);
+    expect(replay.launches).toHaveLength(20);
+    expect(replay.merges).toHaveLength(game.merges);
+    expect(replay.partyScore).toBe(game.simulation.partyScore);
+    expect(replay.endFrame).toBe(game.simulation.frame);
+    expect(replay.endedAt).not.toBeNull();
+    // 지금 방에 없는 플레이어는 입장 기록의 이름
+    expect(replay.players).toEqual([{ id: 'p1', name: 'Alice' }, { id: 'p2', name: 'Bob' }]);
+    game.simulation.destroy();
+  });
+
+  it('keeps only the game after the last game_start', () => {
+    const first = playGame(4);
+    const second = playGame(6);
+    const actions = [...first.actions, ...second.actions].map((action, index) => ({ ...action, seq: index + 1 }));
+
+    expect(buildReplay(room, actions)!.launches).toHaveLength(6);
+    first.simulation.destroy();
+    second.simulation.destroy();
+  });
+
+  it('leaves an unfinished game open with a tail after the last event', () => {
+    const game = playGame(4, false);
+    const replay = buildReplay(room, game.actions)!;
+
+    expect(replay.endedAt).toBeNull();
+    expect(replay.endFrame).toBeGreaterThan(replay.launches[replay.launches.length - 1].frame);
+    game.simulation.destroy();
+  });
+
+  it('returns null without a started game or any launch', () => {
+    const game = playGame(0);
+    expect(buildReplay(room, game.actions.slice(0, 2))).toBeNull();
+    expect(buildReplay(room, game.actions)).toBeNull();
+    game.simulation.destroy();
+  });
+});
+
+describe('replay files', () => {
+  it('round-trips through JSON unchanged', () => {
+    const game = playGame(8);
+    const replay = buildReplay(room, game.actions)!;
+
+    expect(parseReplay(serializeReplay(replay))).toEqual(replay);
+    game.simulation.destroy();
+  });
+
+  it('rejects files that are not replays or come from another version', () => {
+    expect(() => parseReplay('not json')).toThrow('Invalid replay file');
+    expect(() => parseReplay('{"seed":1}')).toThrow('Invalid replay file');
+    expect(() => parseReplay(JSON.stringify({ version: REPLAY_VERSION + 1 }))).toThrow('Unsupported replay version');
+    expect(() => parseReplay(JSON.stringify({ version: REPLAY_VERSION, seed: 1, endFrame: 10 }))).toThrow('Invalid replay file');
+  });
+});
+
+describe('ReplayPlayback', () => {
+  it('re-simulates the recorded game to the same merges and party score', () => {
+    const game = playGame(30);
+    const replay = parseReplay(serializeReplay(buildReplay(room, game.actions)!));
+    const playback = new ReplayPlayback(replay);
+
+    const mergeFrames: number[] = [];
+    while (!playback.isFinished) {
+      for (const event of playback.stepFrame()) {
+        if (event.type === 'merge') mergeFrames.push(event.merge.frame);
+      }
+    }
+
+    expect(mergeFrames).toEqual(replay.merges.map((merge) => merge.frame));
+    expect(playback.world.partyScore).toBe(game.simulation.partyScore);
+    expect(playback.recordedPartyScore).toBe(replay.partyScore);
+    // 합성으로 생긴 과일 ID는 리플레이 전용 난수열이라 해시 대신 개수 비교
+    expect(playback.world.bodies.size).toBe(game.simulation.bodies.size);
+    playback.destroy();
+    game.simulation.destroy();
+  });
+
+  it('seeks back to a keyframe exactly and replays the same way from it', () => {
+    const game = playGame(30);
+    const playback = new ReplayPlayback(buildReplay(room, game.actions)!);
+
+    // 키프레임(300프레임 간격)은 처음 지나갈 때의 상태 그대로 복원
+    playback.seek(600);
+    const keyframe = playback.world.stateHash();
+    playback.seek(1500);
+    playback.seek(600);
+    expect(playback.frame).toBe(600);
+    expect(playback.world.stateHash()).toBe(keyframe);
+
+    // 키프레임 사이로 되감으면 같은 키프레임에서 다시 진행하므로 몇 번이든 같은 결과
+    playback.seek(700);
+    const between = playback.world.stateHash();
+    playback.seek(1500);
+    playback.seek(700);
+    expect(playback.world.stateHash()).toBe(between);
+    playback.destroy();
+    game.simulation.destroy();
+  });
+});
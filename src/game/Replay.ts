@@ -0,0 +1,186 @@
+import type { GameAction, RoomState, SyncMode } from '../network/types';
+
+// 리플레이 파일 형식 버전 (필드 의미가 바뀌면 올림)
+export const REPLAY_VERSION = 1;
+// 게임오버 기록이 없을 때 마지막 이벤트 후 더 보여줄 프레임
+const REPLAY_TAIL_FRAMES = 180;
+
+export interface ReplayPlayerInfo {
+  id: string;
+  name: string;
+}
+
+// 발사 1회 (frame = 발사 직후 첫 step 전의 시뮬레이션 프레임)
+export interface ReplayLaunch {
+  frame: number;
+  turnNumber: number;
+  fruitId: string;
+  playerId: string;
+  x: number;
+  velocity: { x: number; y: number };
+  size: number;
+}
+
+// 기록된 합성 결과 (재생 중 점수 표시와 재시뮬레이션 결과 비교용)
+export interface ReplayMerge {
+  frame: number;
+  playerId: string;
+  removedIds: string[];
+  newFruitId: string | null;
+  size: number;
+  x: number;
+  y: number;
+  scoreGain: number;
+  combo: number;
+  exploded: boolean;
+}
+
+// 끝난 게임 하나의 전체 기록 (JSON 파일로 내보내기/불러오기)
+export interface GameReplay {
+  version: number;
+  roomId: string;
+  seed: number;
+  syncMode: SyncMode;
+  players: ReplayPlayerInfo[];
+  startedAt: number;
+  endedAt: number | null; // 게임오버 기록 시각 (진행 중에 만든 리플레이는 null)
+  endFrame: number;
+  launches: ReplayLaunch[];
+  merges: ReplayMerge[];
+  partyScore: number;
+  scores: Record<string, number>;
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// 방 이벤트 로그의 마지막 게임 → 리플레이 (게임 시작 기록이나 발사가 없으면 null)
+export function buildReplay(room: RoomState, actions: GameAction[]): GameReplay | null {
+  let startIndex = -1;
+  actions.forEach((action, index) => {
+    if (action.type === 'game_start') startIndex = index;
+  });
+  if (startIndex === -1) return null;
+
+  const start = actions[startIndex];
+  const game = actions.slice(startIndex + 1);
+
+  // 이름은 방을 거쳐간 모든 입장 기록에서, 지금 방에 있는 플레이어 이름이 우선
+  const names = new Map<string, string>();
+  for (const action of actions) {
+    if (action.type === 'join' && typeof action.data.name === 'string') {
+      names.set(action.playerId, action.data.name);
+    }
+  }
+  for (const player of Object.values(room.players ?? {})) {
+    names.set(player.id, player.name);
+  }
+
+  const launches: ReplayLaunch[] = [];
+  const merges: ReplayMerge[] = [];
+  const scores: Record<string, number> = {};
+  const playerIds = new Set<string>();
+  let turnNumber = 0;
+  let partyScore = 0;
+  let endedAt: number | null = null;
+  let endFrame: number | null = null;
+
+  for (const action of game) {
+    const data = action.data;
+    switch (action.type) {
+      case 'turn':
+        if (isNumber(data.turnNumber)) turnNumber = data.turnNumber;
+        break;
+      case 'drop':
+        if (!isNumber(data.frame) || typeof data.fruitId !== 'string') break;
+        // 호스트 인계 후에는 새 호스트의 프레임이 체크포인트부터 다시 세어지므로 앞 발사 다음 프레임으로 미룸
+        launches.push({
+          frame: Math.max(data.frame, (launches[launches.length - 1]?.frame ?? -1) + 1),
+          turnNumber,
+          fruitId: data.fruitId,
+          playerId: action.playerId,
+          x: Number(data.x),
+          velocity: { x: Number(data.velocityX ?? 0), y: Number(data.velocityY ?? 0) },
+          size: Number(data.size),
+        });
+        playerIds.add(action.playerId);
+        break;
+      case 'merge':
+        if (!isNumber(data.frame)) break;
+        merges.push({
+          frame: data.frame,
+          playerId: action.playerId,
+          removedIds: Array.isArray(data.removedIds) ? data.removedIds.map(String) : [],
+          newFruitId: typeof data.newFruitId === 'string' ? data.newFruitId : null,
+          size: Number(data.size),
+          x: Number(data.x),
+          y: Number(data.y),
+          scoreGain: Number(data.scoreGain ?? 0),
+          combo: Number(data.combo ?? 1),
+          exploded: data.exploded === true,
+        });
+        break;
+      case 'score':
+        scores[action.playerId] = Number(data.score);
+        partyScore = Number(data.partyScore);
+        playerIds.add(action.playerId);
+        break;
+      case 'game_over':
+        endedAt = action.timestamp;
+        if (isNumber(data.partyScore)) partyScore = data.partyScore;
+        if (isNumber(data.frame)) endFrame = data.frame;
+        break;
+    }
+  }
+  if (launches.length === 0) return null;
+
+  const lastFrame = Math.max(
+    launches[launches.length - 1].frame,
+    merges.length > 0 ? merges[merges.length - 1].frame : 0
+  );
+
+  return {
+    version: REPLAY_VERSION,
+    roomId: room.id,
+    seed: isNumber(start.data.seed) ? start.data.seed : room.seed,
+    syncMode: room.syncMode ?? 'snapshot',
+    players: Array.from(playerIds).map((id) => ({ id, name: names.get(id) ?? id.substring(0, 6) })),
+    startedAt: start.timestamp,
+    endedAt,
+    endFrame: Math.max(endFrame ?? lastFrame + REPLAY_TAIL_FRAMES, lastFrame),
+    launches,
+    merges,
+    partyScore,
+    scores,
+  };
+}
+
+export function serializeReplay(replay: GameReplay): string {
+  return JSON.stringify(replay);
+}
+
+// 불러온 파일 검사 (형식이 다르면 Error)
+export function parseReplay(text: string): GameReplay {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid replay file');
+  }
+
+  const replay = value as Partial<GameReplay> | null;
+  if (!replay || typeof replay !== 'object' || !isNumber(replay.version)) {
+    throw new Error('Invalid replay file');
+  }
+  if (replay.version !== REPLAY_VERSION) {
+    throw new Error('Unsupported replay version');
+  }
+  if (!isNumber(replay.seed) || !isNumber(replay.endFrame) ||
+      !Array.isArray(replay.launches) || !Array.isArray(replay.merges) || !Array.isArray(replay.players)) {
+    throw new Error('Invalid replay file');
+  }
+  return replay as GameReplay;
+}
+
+export function replayFileName(replay: GameReplay): string {
+  return `fireworks-replay-${replay.roomId.substring(0, 8)}-${replay.startedAt}.json`;
+}
@@ -0,0 +1,107 @@
+import { SeededRandom, deriveSeed } from '../core/Random';
+import { GameSimulation, type SimulationEvent, type SimulationSnapshot } from './GameSimulation';
+import type { GameReplay, ReplayLaunch } from './Replay';
+
+// 되감기용 스냅샷 간격 (5초)
+const KEYFRAME_INTERVAL_FRAMES = 300;
+
+interface Keyframe {
+  nextLaunch: number;
+  snapshot: SimulationSnapshot;
+}
+
+// 리플레이 재시뮬레이션 (DOM 없음): 기록된 프레임에 기록된 발사를 그대로 적용
+// 합성/점수는 시뮬레이션이 다시 판정 (호스트 인계가 있었던 게임은 기록과 조금 다를 수 있음)
+export class ReplayPlayback {
+  private replay: GameReplay;
+  private simulation: GameSimulation;
+  private nextLaunch = 0;
+  private keyframes = new Map<number, Keyframe>();
+
+  constructor(replay: GameReplay) {
+    this.replay = replay;
+    this.simulation = new GameSimulation({
+      rng: new SeededRandom(deriveSeed(replay.seed, 'ids', 'replay')),
+    });
+    this.saveKeyframe();
+  }
+
+  get frame(): number {
+    return this.simulation.frame;
+  }
+
+  get endFrame(): number {
+    return this.replay.endFrame;
+  }
+
+  get isFinished(): boolean {
+    return this.simulation.frame >= this.replay.endFrame;
+  }
+
+  // 렌더링용 (바디 위치/크기 조회)
+  get world(): GameSimulation {
+    return this.simulation;
+  }
+
+  // 마지막으로 적용된 발사 (현재 턴 표시용)
+  get currentLaunch(): ReplayLaunch | null {
+    return this.replay.launches[this.nextLaunch - 1] ?? null;
+  }
+
+  // 기록된 합성 기준 현재 프레임까지의 파티 점수
+  get recordedPartyScore(): number {
+    return this.replay.merges
+      .filter((merge) => merge.frame <= this.simulation.frame)
+      .reduce((score, merge) => score + merge.scoreGain, 0);
+  }
+
+  // 1프레임 진행: 이번 프레임에 기록된 발사 적용 후 step
+  stepFrame(): SimulationEvent[] {
+    if (this.isFinished) return [];
+
+    const launches = this.replay.launches;
+    while (this.nextLaunch < launches.length && launches[this.nextLaunch].frame <= this.simulation.frame) {
+      const launch = launches[this.nextLaunch++];
+      this.simulation.launch(
+        { playerId: launch.playerId, x: launch.x, velocity: launch.velocity, size: launch.size },
+        launch.fruitId
+      );
+    }
+
+    const events = this.simulation.step();
+    if (this.simulation.frame % KEYFRAME_INTERVAL_FRAMES === 0) {
+      this.saveKeyframe();
+    }
+    return events;
+  }
+
+  // 임의 프레임으로 이동: 뒤로 가면 가장 가까운 이전 스냅샷에서 다시 진행
+  seek(frame: number): void {
+    const target = Math.max(0, Math.min(frame, this.replay.endFrame));
+
+    if (target < this.simulation.frame) {
+      const keyframeFrame = Math.floor(target / KEYFRAME_INTERVAL_FRAMES) * KEYFRAME_INTERVAL_FRAMES;
+      const keyframe = this.keyframes.get(keyframeFrame) ?? this.keyframes.get(0)!;
+      this.simulation.restore(keyframe.snapshot);
+      this.nextLaunch = keyframe.nextLaunch;
+    }
+
+    while (this.simulation.frame < target) {
+      this.stepFrame();
+    }
+  }
+
+  destroy(): void {
+    this.simulation.destroy();
+    this.keyframes.clear();
+  }
+
+  // 처음 지나갈 때만 저장 (되감기 후 다시 지나가도 원래 스냅샷 유지)
+  private saveKeyframe(): void {
+    if (this.keyframes.has(this.simulation.frame)) return;
+    this.keyframes.set(this.simulation.frame, {
+      nextLaunch: this.nextLaunch,
+      snapshot: this.simulation.snapshot(),
+    });
+  }
+}
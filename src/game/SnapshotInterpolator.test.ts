@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import type { FruitState } from '../network/types';
+import { FRAME_MS } from './GameSimulation';
+import { SnapshotInterpolator } from './SnapshotInterpolator';
+
+function fruit(id: string, frame: number, x: number, vx: number): FruitState {
+  return { id, x, y: 300, size: 2, isDropped: true, ownerId: 'p1', frame, vx, vy: 0 };
+}
+
+describe('SnapshotInterpolator', () => {
+  it('interpolates between buffered snapshots', () => {
+    const interpolator = new SnapshotInterpolator();
+    interpolator.push({ a: fruit('a', 100, 100, 1) }, 0);
+    interpolator.push({ a: fruit('a', 110, 110, 1) }, 10 * FRAME_MS);
+
+    // 10프레임 늦게 그림 → 받은 직후에는 첫 스냅샷, 5프레임 뒤에는 중간
+    expect(interpolator.sample(10 * FRAME_MS)[0].x).toBeCloseTo(100);
+    expect(interpolator.sample(15 * FRAME_MS)[0].x).toBeCloseTo(105);
+  });
+
+  it('extrapolates a fruit from the latest host frame with its velocity', () => {
+    const interpolator = new SnapshotInterpolator();
+    interpolator.push({ a: fruit('a', 100, 100, 1) }, 0);
+
+    expect(interpolator.sample(15 * FRAME_MS)[0].x).toBeCloseTo(105);
+    // 최대 15프레임까지만
+    expect(interpolator.sample(100 * FRAME_MS)[0].x).toBeCloseTo(115);
+  });
+
+  it('does not extrapolate a fruit the latest snapshot left out', () => {
+    const interpolator = new SnapshotInterpolator();
+    interpolator.push({ a: fruit('a', 100, 100, 2), b: fruit('b', 100, 200, 1) }, 0);
+    // a는 멈춰서 더 이상 전송되지 않음 (저장된 값은 마지막으로 보낸 속도 그대로)
+    interpolator.push({ a: fruit('a', 100, 100, 2), b: fruit('b', 110, 210, 1) }, 10 * FRAME_MS);
+
+    const sampled = new Map(interpolator.sample(30 * FRAME_MS).map((f) => [f.id, f]));
+    expect(sampled.get('a')!.x).toBeCloseTo(100);
+    expect(sampled.get('b')!.x).toBeGreaterThan(210);
+  });
+});
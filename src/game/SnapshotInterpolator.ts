@@ -0,0 +1,157 @@
+import type { FruitState } from '../network/types';
+import { FRAME_MS } from './GameSimulation';
+
+const INTERPOLATION_DELAY_FRAMES = 10; // 동기화 간격(5프레임) 2번만큼 늦게 그려서 항상 두 스냅샷 사이를 보간
+const MAX_EXTRAPOLATION_FRAMES = 15;   // 패킷이 늦어도 이 이상은 속도로 밀어내지 않음
+const HOST_RESET_FRAMES = 60;          // 프레임이 이만큼 되돌아가면 호스트가 바뀐 것으로 보고 버퍼 초기화
+const BUFFER_SIZE = 3;
+
+interface FruitSample {
+  frame: number | null; // null이면 프레임 정보 없는 상태 (보간 없이 그대로 표시)
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  angle: number;
+  angularVelocity: number;
+}
+
+export interface InterpolatedFruit {
+  id: string;
+  size: number;
+  x: number;
+  y: number;
+  angle: number;
+}
+
+// 각도 보간은 짧은 쪽으로 회전
+function lerpAngle(from: number, to: number, t: number): number {
+  const full = Math.PI * 2;
+  let delta = (to - from) % full;
+  if (delta > Math.PI) delta -= full;
+  if (delta < -Math.PI) delta += full;
+  return from + delta * t;
+}
+
+// 비호스트 렌더링용: 호스트 프레임 기준으로 과일 스냅샷을 버퍼링해 보간/외삽
+export class SnapshotInterpolator {
+  private buffers = new Map<string, FruitSample[]>();
+  private sizes = new Map<string, number>();
+
+  // 가장 최근에 받은 호스트 프레임과 받은 시각 (현재 호스트 프레임 추정용)
+  private latestFrame = -1;
+  private latestReceivedAt = 0;
+
+  push(fruits: Record<string, FruitState>, now: number): void {
+    let maxFrame = -1;
+    for (const fruit of Object.values(fruits)) {
+      if (fruit.frame !== undefined && fruit.frame > maxFrame) {
+        maxFrame = fruit.frame;
+      }
+    }
+
+    // 새 호스트는 자기 시뮬레이션 프레임부터 시작 → 이전 버퍼는 의미 없음
+    if (maxFrame >= 0 && maxFrame < this.latestFrame - HOST_RESET_FRAMES) {
+      this.buffers.clear();
+      this.latestFrame = -1;
+    }
+    if (maxFrame > this.latestFrame) {
+      this.latestFrame = maxFrame;
+      this.latestReceivedAt = now;
+    }
+
+    // 사라진 과일 정리
+    for (const id of Array.from(this.buffers.keys())) {
+      if (!fruits[id]) {
+        this.buffers.delete(id);
+        this.sizes.delete(id);
+      }
+    }
+
+    for (const [id, fruit] of Object.entries(fruits)) {
+      this.sizes.set(id, fruit.size);
+
+      const sample: FruitSample = {
+        frame: fruit.frame ?? null,
+        x: fruit.x,
+        y: fruit.y,
+        vx: fruit.vx ?? 0,
+        vy: fruit.vy ?? 0,
+        angle: fruit.angle ?? 0,
+        angularVelocity: fruit.angularVelocity ?? 0,
+      };
+
+      const buffer = this.buffers.get(id);
+      if (!buffer || sample.frame === null) {
+        this.buffers.set(id, [sample]);
+        continue;
+      }
+
+      // 같은 프레임 스냅샷은 중복 (다른 필드 변경으로 온 room 업데이트)
+      const last = buffer[buffer.length - 1];
+      if (last.frame !== null && sample.frame <= last.frame) continue;
+
+      buffer.push(sample);
+      if (buffer.length > BUFFER_SIZE) {
+        buffer.shift();
+      }
+    }
+  }
+
+  sample(now: number): InterpolatedFruit[] {
+    const renderFrame = this.latestFrame
+      + (now - this.latestReceivedAt) / FRAME_MS
+      - INTERPOLATION_DELAY_FRAMES;
+
+    const result: InterpolatedFruit[] = [];
+    for (const [id, buffer] of this.buffers) {
+      const { x, y, angle } = this.sampleBuffer(buffer, renderFrame);
+      result.push({ id, size: this.sizes.get(id) ?? 1, x, y, angle });
+    }
+    return result;
+  }
+
+  clear(): void {
+    this.buffers.clear();
+    this.sizes.clear();
+    this.latestFrame = -1;
+    this.latestReceivedAt = 0;
+  }
+
+  private sampleBuffer(buffer: FruitSample[], renderFrame: number): { x: number; y: number; angle: number } {
+    // 프레임 정보 없는 과일은 버퍼에 한 개만 있음
+    const first = buffer[0];
+    const last = buffer[buffer.length - 1];
+
+    if (first.frame === null || last.frame === null || renderFrame <= first.frame) {
+      return { x: first.x, y: first.y, angle: first.angle };
+    }
+
+    // 두 스냅샷 사이 → 선형 보간
+    for (let i = 0; i < buffer.length - 1; i++) {
+      const from = buffer[i];
+      const to = buffer[i + 1];
+      if (renderFrame <= to.frame!) {
+        const t = (renderFrame - from.frame!) / (to.frame! - from.frame!);
+        return {
+          x: from.x + (to.x - from.x) * t,
+          y: from.y + (to.y - from.y) * t,
+          angle: lerpAngle(from.angle, to.angle, t),
+        };
+      }
+    }
+
+    // 최신 호스트 프레임에 갱신되지 않은 과일은 멈춘 과일 (변경분 전송에서 빠짐) → 남은 속도로 밀지 않음
+    if (last.frame < this.latestFrame) {
+      return { x: last.x, y: last.y, angle: last.angle };
+    }
+
+    // 마지막 스냅샷 이후 → 속도로 외삽 (최대 프레임 제한)
+    const ahead = Math.min(renderFrame - last.frame, MAX_EXTRAPOLATION_FRAMES);
+    return {
+      x: last.x + last.vx * ahead,
+      y: last.y + last.vy * ahead,
+      angle: last.angle + last.angularVelocity * ahead,
+    };
+  }
+}
@@ -1,7 +1,8 @@
 import { Lobby } from './ui/Lobby';
-import { NetworkManager, GameSync } from './network';
+import { NetworkManager, GameSync, createRoomTransport } from './network';
 import { MultiplayerGame } from './game/MultiplayerGame';
 import { AudioControl } from './ui/AudioControl';
+import { RefereeSupervisor } from './referee/RefereeSupervisor';
 
 const VERSION_KEY = 'app_build_version';
 
@@ -38,16 +39,32 @@ const appContainer = document.getElementById('app')!;
 // 모든 페이지에서 표시되는 오디오 컨트롤
 new AudioControl();
 
-const lobby = new Lobby(appContainer);
-
 // 현재 게임 인스턴스 추적
 let currentGame: MultiplayerGame | null = null;
 
-lobby.setOnGameStart((network: NetworkManager) => {
-  startMultiplayerGame(network);
-});
+// ?transport=local&referee=1: 이 탭은 게임 대신 심판만 실행 (같은 브라우저의 다른 탭 방을 심판)
+if (new URLSearchParams(window.location.search).get('referee') === '1') {
+  startLocalReferee();
+} else {
+  const lobby = new Lobby(appContainer);
+  lobby.setOnGameStart((network: NetworkManager) => {
+    startMultiplayerGame(network, lobby);
+  });
+}
+
+function startLocalReferee(): void {
+  const supervisor = new RefereeSupervisor(createRoomTransport('local'));
+  supervisor.start();
+
+  appContainer.innerHTML = `
+    <div style="padding: 20px; color: #fff; font-family: monospace;">
+      Referee ${supervisor.id} (local transport)
+    </div>
+  `;
+  window.addEventListener('pagehide', () => supervisor.stop());
+}
 
-function startMultiplayerGame(network: NetworkManager): void {
+function startMultiplayerGame(network: NetworkManager, lobby: Lobby): void {
   appContainer.innerHTML = `
     <div id="game-container" style="display: flex; flex-direction: column; align-items: center; padding: 20px;">
       <canvas id="game-canvas" style="border: 4px solid #e94560; border-radius: 8px; touch-action: none;"></canvas>
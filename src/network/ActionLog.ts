@@ -0,0 +1,152 @@
+import type { RoomTransport, Unsubscribe } from './RoomTransport';
+import type { ActionEventCallback, GameAction, GameActionType } from './types';
+import { LAUNCH_Y, type LaunchInput, type MergeEvent } from '../game/GameSimulation';
+
+const APPEND_ATTEMPTS = 20; // 같은 순번을 동시에 잡았을 때 다음 칸으로 다시 시도하는 횟수
+const GAME_OVER_LOG_ATTEMPTS = 10;   // 게임 결과 집계: 이벤트 로그에 게임오버가 기록될 때까지 확인하는 횟수
+const GAME_OVER_LOG_RETRY_MS = 500;
+
+// 순번 → 키 (고정 길이라 키 순서 = 순번 순서, 숫자만 있는 키는 Firebase가 배열로 바꾸므로 접두사)
+export function actionKey(seq: number): string {
+  return `a${String(seq).padStart(8, '0')}`;
+}
+
+export function actionLogPath(roomId: string): string {
+  return `roomActions/${roomId}`;
+}
+
+// 로그 전체를 순번 순서로 (빈 data는 저장되지 않으므로 {}로 채움)
+export function sortActions(log: Record<string, GameAction> | null): GameAction[] {
+  return Object.values(log ?? {})
+    .map((action) => ({ ...action, data: action.data ?? {} }))
+    .sort((a, b) => a.seq - b.seq);
+}
+
+// 게임오버가 기록된 이벤트 로그 (합성/점수 기록은 게임오버보다 먼저 추가되므로 그 뒤에 읽으면 빠짐없음)
+// 방 상태가 먼저 'ended'로 바뀌고 로그가 뒤따라오므로 잠시 기다림 (끝내 없으면 그대로 반환)
+export async function readFinishedGameActions(transport: RoomTransport, roomId: string): Promise<GameAction[]> {
+  for (let attempt = 0; ; attempt++) {
+    const actions = sortActions(await transport.get<Record<string, GameAction>>(actionLogPath(roomId)));
+    const last = actions.filter((action) => action.type === 'game_start' || action.type === 'game_over').pop();
+    if (last?.type === 'game_over' || attempt >= GAME_OVER_LOG_ATTEMPTS) return actions;
+    await new Promise((resolve) => setTimeout(resolve, GAME_OVER_LOG_RETRY_MS));
+  }
+}
+
+// 시뮬레이션 발사 → drop 항목 (frame = 발사 직후 첫 step 전의 프레임, 리플레이가 같은 프레임에 발사)
+export function launchActionData(frame: number, fruitId: string, input: LaunchInput): Record<string, unknown> {
+  return {
+    fruitId,
+    frame,
+    x: input.x,
+    y: LAUNCH_Y,
+    size: input.size,
+    velocityX: input.velocity.x,
+    velocityY: input.velocity.y,
+  };
+}
+
+// 합성 결과 → merge 항목 (호스트와 심판이 같은 형식으로 기록)
+export function mergeActionData(merge: MergeEvent): { playerId: string; data: Record<string, unknown> } {
+  return {
+    playerId: merge.ownerId ?? merge.credits[0]?.playerId ?? '',
+    data: {
+      frame: merge.frame,
+      removedIds: merge.removedIds,
+      newFruitId: merge.newFruitId,
+      x: merge.x,
+      y: merge.y,
+      size: merge.newSize,
+      scoreGain: merge.scoreGain,
+      combo: merge.combo,
+      exploded: merge.exploded,
+      bankShot: merge.bankShot,
+      overLineFrames: merge.overLineFrames,
+    },
+  };
+}
+
+// 방 하나의 추가 전용 이벤트 로그
+// - 추가: 다음 순번 칸을 트랜잭션으로 비어 있을 때만 채움 → 순번이 겹치거나 빠지지 않음
+// - 구독: 구독 이후 추가된 항목을 순번 순서대로 한 번씩만 전달
+export class ActionLog {
+  private transport: RoomTransport;
+  private logRoomId: string;
+  private unsubscribe: Unsubscribe | null = null;
+  private listeners: ActionEventCallback[] = [];
+  private headSeq = 0;      // 지금까지 본 가장 큰 순번
+  private deliveredSeq = 0; // 리스너에게 마지막으로 전달한 순번
+  private appendChain: Promise<unknown> = Promise.resolve(); // 내 항목은 호출 순서대로 추가
+  private ready: Promise<void>;
+
+  constructor(transport: RoomTransport, roomId: string) {
+    this.transport = transport;
+    this.logRoomId = roomId;
+
+    let resolveReady!: () => void;
+    this.ready = new Promise((resolve) => (resolveReady = resolve));
+
+    let first = true;
+    this.unsubscribe = transport.subscribe<Record<string, GameAction>>(actionLogPath(roomId), (log) => {
+      const actions = sortActions(log);
+      const last = actions[actions.length - 1]?.seq ?? 0;
+      this.headSeq = Math.max(this.headSeq, last);
+
+      // 구독 전 기록은 전달하지 않음 (지난 기록은 sortActions(get)으로 조회)
+      if (first) {
+        first = false;
+        this.deliveredSeq = last;
+        resolveReady();
+        return;
+      }
+      this.deliver(actions);
+    });
+  }
+
+  get roomId(): string {
+    return this.logRoomId;
+  }
+
+  append(type: GameActionType, playerId: string, data: Record<string, unknown> = {}): Promise<number> {
+    const result = this.appendChain.then(() => this.appendNext(type, playerId, data));
+    this.appendChain = result.catch(() => undefined);
+    return result;
+  }
+
+  onAction(callback: ActionEventCallback): void {
+    this.listeners.push(callback);
+  }
+
+  close(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.listeners = [];
+  }
+
+  private async appendNext(type: GameActionType, playerId: string, data: Record<string, unknown>): Promise<number> {
+    await this.ready;
+
+    for (let attempt = 0; attempt < APPEND_ATTEMPTS; attempt++) {
+      const seq = this.headSeq + 1;
+      const action = { seq, type, playerId, timestamp: this.transport.serverTimestamp(), data };
+      const committed = await this.transport.transaction<unknown>(
+        `${actionLogPath(this.logRoomId)}/${actionKey(seq)}`,
+        (current) => (current === null ? action : undefined)
+      );
+      // 이미 찬 칸이면 그 칸까지 본 것으로 치고 다음 칸 시도
+      this.headSeq = Math.max(this.headSeq, seq);
+      if (committed) return seq;
+    }
+    throw new Error('Failed to append room action');
+  }
+
+  // 순번이 이어지는 데까지만 전달 (중간 칸이 아직 안 왔으면 다음 업데이트에서)
+  private deliver(actions: GameAction[]): void {
+    for (const action of actions) {
+      if (action.seq <= this.deliveredSeq) continue;
+      if (action.seq !== this.deliveredSeq + 1) break;
+      this.deliveredSeq = action.seq;
+      this.listeners.forEach((callback) => callback(action));
+    }
+  }
+}
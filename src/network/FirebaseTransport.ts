@@ -0,0 +1,115 @@
+import {
+  ref,
+  get,
+  set,
+  push,
+  update,
+  remove,
+  runTransaction,
+  query,
+  orderByChild,
+  limitToLast,
+  onValue,
+  onDisconnect,
+  serverTimestamp,
+  Database,
+} from 'firebase/database';
+import { type Auth, signInAnonymously, signInWithCustomToken } from 'firebase/auth';
+import type { RoomTransport, Unsubscribe, ValueCallback } from './RoomTransport';
+
+// Firebase Realtime Database 백엔드
+export class FirebaseTransport implements RoomTransport {
+  private database: Database;
+  private auth: Auth;
+  private serverTimeOffset = 0;
+
+  constructor(database: Database, auth: Auth) {
+    this.database = database;
+    this.auth = auth;
+
+    // 연결 시 Firebase가 측정한 시계 차이 (재연결마다 갱신)
+    onValue(ref(this.database, '.info/serverTimeOffset'), (snapshot) => {
+      this.serverTimeOffset = snapshot.val() ?? 0;
+    });
+  }
+
+  // 익명 로그인: 저장된 계정이 있으면 복원될 때까지 기다렸다가 그대로 사용
+  async signIn(): Promise<string> {
+    await this.auth.authStateReady();
+    const user = this.auth.currentUser ?? (await signInAnonymously(this.auth)).user;
+    return user.uid;
+  }
+
+  // 심판 프로세스용: 커스텀 클레임(referee: true)이 담긴 토큰으로 로그인
+  async signInWithToken(token: string): Promise<string> {
+    const credential = await signInWithCustomToken(this.auth, token);
+    return credential.user.uid;
+  }
+
+  async get<T>(path: string): Promise<T | null> {
+    const snapshot = await get(ref(this.database, path));
+    return snapshot.exists() ? (snapshot.val() as T) : null;
+  }
+
+  async set(path: string, value: unknown): Promise<void> {
+    await set(ref(this.database, path), value);
+  }
+
+  async update(path: string, values: Record<string, unknown>): Promise<void> {
+    await update(ref(this.database, path), values);
+  }
+
+  async remove(path: string): Promise<void> {
+    await remove(ref(this.database, path));
+  }
+
+  async transaction<T>(path: string, update: (current: T | null) => T | undefined): Promise<boolean> {
+    const result = await runTransaction(ref(this.database, path), (current) => update(current as T | null));
+    return result.committed;
+  }
+
+  async getTop<T>(path: string, orderBy: string, limit: number): Promise<T[]> {
+    const snapshot = await get(query(ref(this.database, path), orderByChild(orderBy), limitToLast(limit)));
+    const items: T[] = [];
+    snapshot.forEach((child) => {
+      items.push(child.val() as T);
+    });
+    return items.reverse(); // limitToLast는 오름차순
+  }
+
+  generateKey(path: string): string {
+    return push(ref(this.database, path)).key!;
+  }
+
+  subscribe<T>(path: string, callback: ValueCallback<T>): Unsubscribe {
+    return onValue(ref(this.database, path), (snapshot) => {
+      callback(snapshot.exists() ? (snapshot.val() as T) : null);
+    });
+  }
+
+  async onDisconnectRemove(path: string): Promise<void> {
+    await onDisconnect(ref(this.database, path)).remove();
+  }
+
+  async onDisconnectUpdate(path: string, values: Record<string, unknown>): Promise<void> {
+    await onDisconnect(ref(this.database, path)).update(values);
+  }
+
+  async cancelOnDisconnect(path: string): Promise<void> {
+    await onDisconnect(ref(this.database, path)).cancel();
+  }
+
+  subscribeConnection(callback: (connected: boolean) => void): Unsubscribe {
+    return onValue(ref(this.database, '.info/connected'), (snapshot) => {
+      callback(snapshot.val() === true);
+    });
+  }
+
+  serverTimestamp(): unknown {
+    return serverTimestamp();
+  }
+
+  getServerTimeOffset(): number {
+    return this.serverTimeOffset;
+  }
+}
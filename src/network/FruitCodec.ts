@@ -0,0 +1,140 @@
+import type { FruitState, FruitSyncData, RoomState } from './types';
+
+// 과일 움직임을 한 문자열로 압축 (RoomState.fruits/{id}/q)
+// 형식: x,y,angle,vx,vy,frame,angularVelocity (각각 정수로 양자화 후 base36)
+const POSITION_SCALE = 10;             // 0.1px 단위
+const ANGLE_SCALE = 1000;              // 0.001rad 단위
+const VELOCITY_SCALE = 100;            // 0.01px/frame 단위
+const ANGULAR_VELOCITY_SCALE = 10000;  // 0.0001rad/frame 단위
+
+const POSITION_THRESHOLD = 0.5; // 이 이상 움직였을 때만 전송 (px)
+const ANGLE_THRESHOLD = 0.05;   // 이 이상 회전했을 때만 전송 (rad)
+
+// 서버에 저장되는 형태: 위치/속도는 q에 압축 (구버전 호환용으로 x, y도 허용)
+export type EncodedFruitState = Omit<FruitState, 'x' | 'y'> & {
+  x?: number;
+  y?: number;
+  q?: string;
+};
+
+// 서버에 저장된 방 상태 (과일 움직임은 압축된 상태)
+export type EncodedRoomState = Omit<RoomState, 'fruits'> & { fruits?: Record<string, EncodedFruitState> };
+
+export interface FruitMotion {
+  x: number;
+  y: number;
+  angle: number;
+  vx: number;
+  vy: number;
+  frame: number;
+  angularVelocity: number;
+}
+
+function normalizeAngle(angle: number): number {
+  const full = Math.PI * 2;
+  return ((angle % full) + full) % full;
+}
+
+export function encodeFruitMotion(motion: FruitMotion): string {
+  return [
+    Math.round(motion.x * POSITION_SCALE),
+    Math.round(motion.y * POSITION_SCALE),
+    Math.round(normalizeAngle(motion.angle) * ANGLE_SCALE),
+    Math.round(motion.vx * VELOCITY_SCALE),
+    Math.round(motion.vy * VELOCITY_SCALE),
+    Math.round(motion.frame),
+    Math.round(motion.angularVelocity * ANGULAR_VELOCITY_SCALE),
+  ].map((value) => value.toString(36)).join(',');
+}
+
+export function decodeFruitMotion(q: string): FruitMotion {
+  // 뒤쪽 필드가 없는 이전 형식도 0으로 읽음
+  const [x, y, angle, vx, vy, frame, angularVelocity] = q.split(',').map((part) => parseInt(part, 36) || 0);
+  return {
+    x: x / POSITION_SCALE,
+    y: y / POSITION_SCALE,
+    angle: angle / ANGLE_SCALE,
+    vx: vx / VELOCITY_SCALE,
+    vy: vy / VELOCITY_SCALE,
+    frame,
+    angularVelocity: (angularVelocity ?? 0) / ANGULAR_VELOCITY_SCALE,
+  };
+}
+
+export function decodeFruit(encoded: EncodedFruitState): FruitState {
+  const { q, ...rest } = encoded;
+  if (!q) {
+    return { ...rest, x: rest.x ?? 0, y: rest.y ?? 0 };
+  }
+  return { ...rest, ...decodeFruitMotion(q) };
+}
+
+export function decodeFruits(fruits: Record<string, EncodedFruitState> | undefined): Record<string, FruitState> {
+  const decoded: Record<string, FruitState> = {};
+  for (const [id, fruit] of Object.entries(fruits ?? {})) {
+    decoded[id] = decodeFruit(fruit);
+  }
+  return decoded;
+}
+
+export function decodeRoomState(encoded: EncodedRoomState): RoomState {
+  return { ...encoded, fruits: decodeFruits(encoded.fruits) };
+}
+
+interface SentFruit {
+  x: number;
+  y: number;
+  angle: number;
+  size: number;
+  ownerId: string;
+}
+
+// 호스트 전용: 마지막으로 보낸 상태와 비교해 바뀐 과일만 update 경로로 변환
+export class FruitDeltaEncoder {
+  private sent = new Map<string, SentFruit>();
+
+  // fruits: 전송 후보 (시뮬레이션의 모든 과일), deletedIds: 삭제할 과일
+  encode(fruits: Record<string, FruitSyncData>, deletedIds: string[]): Record<string, unknown> {
+    const updates: Record<string, unknown> = {};
+
+    for (const [id, fruit] of Object.entries(fruits)) {
+      const last = this.sent.get(id);
+      const motion: FruitMotion = {
+        x: fruit.x,
+        y: fruit.y,
+        angle: fruit.angle ?? 0,
+        vx: fruit.vx ?? 0,
+        vy: fruit.vy ?? 0,
+        frame: fruit.frame ?? 0,
+        angularVelocity: fruit.angularVelocity ?? 0,
+      };
+
+      if (!last || last.size !== fruit.size || last.ownerId !== fruit.ownerId) {
+        // 처음 보내거나 크기/소유자가 바뀐 과일은 전체 기록
+        updates[id] = { id, size: fruit.size, ownerId: fruit.ownerId, isDropped: true, q: encodeFruitMotion(motion) };
+      } else if (
+        Math.abs(last.x - fruit.x) >= POSITION_THRESHOLD ||
+        Math.abs(last.y - fruit.y) >= POSITION_THRESHOLD ||
+        Math.abs(last.angle - motion.angle) >= ANGLE_THRESHOLD
+      ) {
+        updates[`${id}/q`] = encodeFruitMotion(motion);
+      } else {
+        continue;
+      }
+
+      this.sent.set(id, { x: fruit.x, y: fruit.y, angle: motion.angle, size: fruit.size, ownerId: fruit.ownerId });
+    }
+
+    for (const id of deletedIds) {
+      updates[id] = null;
+      this.sent.delete(id);
+    }
+
+    return updates;
+  }
+
+  // 새 게임 / 호스트 변경 시 전체 재전송
+  reset(): void {
+    this.sent.clear();
+  }
+}
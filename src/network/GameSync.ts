@@ -1,6 +1,8 @@
 import { NetworkManager } from './NetworkManager';
-import type { RoomState, FruitState } from './types';
+import type { RoomState, FruitState, FruitSyncData, SyncMode, LockstepInput, GameAction } from './types';
+import type { SimulationSnapshot, MergeEvent, LaunchInput } from '../game/GameSimulation';
 import { GAME_CONFIG } from '../core/config';
+import { launchActionData, mergeActionData } from './ActionLog';
 
 export type GameSyncEvent =
   | { type: 'room_update'; room: RoomState }
@@ -13,21 +15,30 @@ export type GameSyncEvent =
   | { type: 'game_over'; partyScore: number }
   | { type: 'player_join'; playerId: string; playerName: string }
   | { type: 'player_leave'; playerId: string }
-  | { type: 'drop_request'; playerId: string; x: number; size: number; velocityX: number; velocityY: number };
+  | { type: 'drop_request'; playerId: string; x: number; size: number; velocityX: number; velocityY: number }
+  | { type: 'drop_rejected'; requestId: string; reason: string }
+  | { type: 'action'; action: GameAction };
 
 type EventListener = (event: GameSyncEvent) => void;
 
+// 같은 턴 번호에서 거부로 턴이 다시 시작되는 경우도 구분
+function getTurnKey(room: RoomState): string {
+  return `${room.seed}:${room.turnNumber}:${room.lastRejection?.requestId ?? ''}`;
+}
+
 export class GameSync {
   private network: NetworkManager;
   private listeners: EventListener[] = [];
   private currentRoom: RoomState | null = null;
   private lastRoomState: RoomState | null = null;
-  private lastEmittedTurnStartTime = 0; // 중복 turn_start 방지
+  private lastEmittedTurnKey: string | null = null; // 중복 turn_start 방지
   private lastProcessedDropRequestId: string | null = null; // 중복 drop_request 방지
+  private lastRejectionId: string | null = null; // 중복 drop_rejected 방지
 
   constructor(network: NetworkManager) {
     this.network = network;
     this.network.onRoomUpdate(this.handleRoomUpdate.bind(this));
+    this.network.onAction(this.handleAction.bind(this));
   }
 
   get playerId(): string {
@@ -49,16 +60,64 @@ export class GameSync {
     return this.currentRoom;
   }
 
+  get seed(): number {
+    return this.currentRoom?.seed || 0;
+  }
+
+  get syncMode(): SyncMode {
+    return this.currentRoom?.syncMode ?? 'snapshot';
+  }
+
   get turnTimeRemaining(): number {
     if (!this.currentRoom || this.currentRoom.status !== 'playing') return 0;
-    const elapsed = (Date.now() - this.currentRoom.turnStartTime) / 1000;
+    const elapsed = (this.network.serverNow() - this.currentRoom.turnStartTime) / 1000;
     return Math.max(0, GAME_CONFIG.TURN_TIME - elapsed);
   }
 
+  // 서버 시각 추정값 (turnStartTime과 비교할 때 Date.now() 대신 사용)
+  get serverNow(): number {
+    return this.network.serverNow();
+  }
+
+  // 턴 식별자: turnStartTime은 서버 타임스탬프라 로컬 추정값 → 서버 값으로 두 번 바뀌므로 대신 사용
+  get turnKey(): string | null {
+    return this.currentRoom ? getTurnKey(this.currentRoom) : null;
+  }
+
   get isHost(): boolean {
     return this.network.isHost();
   }
 
+  get hasReferee(): boolean {
+    return !!this.currentRoom?.referee;
+  }
+
+  // 물리/점수 권위자: 심판이 있으면 심판, 없으면 호스트
+  get isAuthority(): boolean {
+    return this.isHost && !this.hasReferee;
+  }
+
+  get isSpectator(): boolean {
+    return this.network.isSpectator();
+  }
+
+  get spectatorCount(): number {
+    return this.network.getSpectatorCount();
+  }
+
+  get canTakeSeat(): boolean {
+    return this.network.canTakeSeat();
+  }
+
+  async takeSeat(): Promise<void> {
+    await this.network.takeSeat();
+  }
+
+  // 호스트 전용: 중간 참가자를 턴 순서에 추가
+  async admitLateJoiners(): Promise<void> {
+    await this.network.admitLateJoiners();
+  }
+
   get hasNoHost(): boolean {
     return this.network.hasNoHost();
   }
@@ -80,8 +139,9 @@ export class GameSync {
 
     // 첫 번째 업데이트이고 이미 playing 상태면 바로 game_start
     if (!prevRoom) {
+      this.lastRejectionId = room.lastRejection?.requestId ?? null;
       if (room.status === 'playing') {
-        this.lastEmittedTurnStartTime = room.turnStartTime; // 중복 방지 초기화
+        this.lastEmittedTurnKey = getTurnKey(room); // 중복 방지 초기화
         this.emit({ type: 'game_start' });
       }
       return;
@@ -89,7 +149,7 @@ export class GameSync {
 
     // 게임 시작 감지
     if (prevRoom.status === 'waiting' && room.status === 'playing') {
-      this.lastEmittedTurnStartTime = room.turnStartTime; // 중복 방지 초기화
+      this.lastEmittedTurnKey = getTurnKey(room); // 중복 방지 초기화
       this.emit({ type: 'game_start' });
     }
 
@@ -98,12 +158,22 @@ export class GameSync {
       this.emit({ type: 'game_over', partyScore: room.partyScore });
     }
 
+    // 내 드롭 요청 거부 감지 (같은 업데이트의 턴 재시작보다 먼저 처리)
+    const rejection = room.lastRejection;
+    if (rejection && rejection.requestId !== this.lastRejectionId) {
+      this.lastRejectionId = rejection.requestId;
+      if (rejection.playerId === this.network.id) {
+        this.emit({ type: 'drop_rejected', requestId: rejection.requestId, reason: rejection.reason });
+      }
+    }
+
     // 턴 변경 감지 (중복 방지)
     if (room.status === 'playing' && room.currentFruit) {
-      if (room.turnStartTime === this.lastEmittedTurnStartTime) {
+      const turnKey = getTurnKey(room);
+      if (turnKey === this.lastEmittedTurnKey) {
         // 중복이면 무시
       } else {
-        this.lastEmittedTurnStartTime = room.turnStartTime;
+        this.lastEmittedTurnKey = turnKey;
         const currentPlayerId = room.playerOrder[room.currentPlayerIndex];
         this.emit({
           type: 'turn_start',
@@ -123,42 +193,8 @@ export class GameSync {
       this.emit({ type: 'fruit_move', x: room.currentFruit.x });
     }
 
-    // 플레이어 참가/퇴장 감지
-    const prevPlayerIds = Object.keys(prevRoom.players);
-    const currentPlayerIds = Object.keys(room.players);
-
-    for (const playerId of currentPlayerIds) {
-      if (!prevPlayerIds.includes(playerId)) {
-        this.emit({
-          type: 'player_join',
-          playerId,
-          playerName: room.players[playerId].name,
-        });
-      }
-    }
-
-    for (const playerId of prevPlayerIds) {
-      if (!currentPlayerIds.includes(playerId)) {
-        this.emit({ type: 'player_leave', playerId });
-      }
-    }
-
-    // 점수 변경 감지
-    for (const playerId of currentPlayerIds) {
-      const prevPlayer = prevRoom.players[playerId];
-      const currentPlayer = room.players[playerId];
-      if (prevPlayer && currentPlayer && prevPlayer.score !== currentPlayer.score) {
-        this.emit({
-          type: 'score_update',
-          playerId,
-          score: currentPlayer.score,
-          partyScore: room.partyScore,
-        });
-      }
-    }
-
     // 드롭 요청 감지 (호스트만 처리)
-    if (this.isHost && room.dropRequest) {
+    if (this.isAuthority && room.dropRequest) {
       if (room.dropRequest.id !== this.lastProcessedDropRequestId) {
         this.lastProcessedDropRequestId = room.dropRequest.id;
         this.emit({
@@ -173,6 +209,56 @@ export class GameSync {
     }
   }
 
+  // 방 이벤트 로그 → 이벤트 (참가/퇴장, 점수, 드롭, 합성은 상태 비교 대신 로그로 한 번씩만 전달)
+  // 게임 시작/종료, 턴 시작, 드롭 요청은 핸들러가 같은 방 상태를 읽어야 하므로 방 상태 기준으로 유지
+  private handleAction(action: GameAction): void {
+    const data = action.data;
+    switch (action.type) {
+      case 'join':
+        this.emit({ type: 'player_join', playerId: action.playerId, playerName: String(data.name ?? '') });
+        break;
+      case 'leave':
+        this.emit({ type: 'player_leave', playerId: action.playerId });
+        break;
+      case 'score':
+        this.emit({
+          type: 'score_update',
+          playerId: action.playerId,
+          score: Number(data.score),
+          partyScore: Number(data.partyScore),
+        });
+        break;
+      case 'drop':
+        if (typeof data.fruitId === 'string') {
+          this.emit({
+            type: 'fruit_drop',
+            fruitId: data.fruitId,
+            x: Number(data.x),
+            y: Number(data.y),
+            size: Number(data.size),
+          });
+        }
+        break;
+      case 'merge':
+        if (typeof data.newFruitId === 'string') {
+          this.emit({
+            type: 'fruit_merge',
+            removedIds: data.removedIds as string[],
+            newFruit: {
+              id: data.newFruitId,
+              x: Number(data.x),
+              y: Number(data.y),
+              size: Number(data.size),
+              isDropped: true,
+              ownerId: action.playerId,
+            },
+          });
+        }
+        break;
+    }
+    this.emit({ type: 'action', action });
+  }
+
   on(listener: EventListener): void {
     this.listeners.push(listener);
   }
@@ -233,7 +319,7 @@ export class GameSync {
     velocity: { x: number; y: number },
     ownerId: string
   ): Promise<void> {
-    if (!this.isHost) return;
+    if (!this.isAuthority) return;
     await this.network.dropFruitWithVelocity(fruitId, x, y, size, velocity, ownerId);
   }
 
@@ -244,7 +330,7 @@ export class GameSync {
 
   // 호스트 전용: 비호스트의 드롭 요청 처리 시 과일 추가 (isMyTurn 체크 없음)
   async hostAddFruit(fruitId: string, x: number, y: number, size: number, ownerId: string): Promise<void> {
-    if (!this.isHost) return;
+    if (!this.isAuthority) return;
     await this.network.dropFruit(fruitId, x, y, size, ownerId);
   }
 
@@ -266,38 +352,96 @@ export class GameSync {
     }
   }
 
+  // 권위자 전용: 시뮬레이션에 적용된 발사를 방 이벤트 로그에 기록 (락스텝도 권위자 한 명만 기록)
+  async logLaunch(frame: number, fruitId: string, input: LaunchInput): Promise<void> {
+    if (!this.isAuthority) return;
+    await this.network.logAction('drop', input.playerId, launchActionData(frame, fruitId, input));
+  }
+
+  // 권위자 전용: 합성 결과를 방 이벤트 로그에 기록
+  async logMerge(merge: MergeEvent): Promise<void> {
+    if (!this.isAuthority) return;
+    const { playerId, data } = mergeActionData(merge);
+    await this.network.logAction('merge', playerId, data);
+  }
+
+  // 호스트 전용: 최대 크기 갱신 (모든 클라이언트의 과일 큐 계산에 사용)
+  async reportMaxFruitSize(maxSize: number): Promise<void> {
+    if (!this.isAuthority) return;
+    if (maxSize <= (this.currentRoom?.maxFruitSize || 1)) return;
+    await this.network.updateMaxFruitSize(maxSize);
+  }
+
   async reportScore(score: number, partyScore: number): Promise<void> {
     await this.network.updateScore(this.network.id, score, partyScore);
   }
 
-  // 호스트 전용: 특정 플레이어의 점수 업데이트 (합성 점수용)
-  async reportPlayerScore(playerId: string, scoreGain: number, partyScore: number): Promise<void> {
-    if (!this.isHost) return;
-    const room = this.currentRoom;
-    if (!room) return;
+  // 호스트 전용: 특정 플레이어의 누적 점수 기록 (합성 점수용, 증가분이 아니라 시뮬레이션 누적값)
+  async reportPlayerScore(playerId: string, score: number, partyScore: number): Promise<void> {
+    if (!this.isAuthority) return;
+    if (!this.currentRoom?.players[playerId]) return;
 
-    const player = room.players[playerId];
-    if (!player) return;
+    await this.network.updateScore(playerId, score, partyScore);
+  }
 
-    const newScore = player.score + scoreGain;
-    await this.network.updateScore(playerId, newScore, partyScore);
+  // 호스트 전용: expectedTurn 다음 턴 시작 (다른 클라이언트가 이미 넘겼으면 false)
+  async nextTurn(expectedTurn: number, nextFruitSize: number): Promise<boolean> {
+    if (!this.isHost) return false;
+    return this.network.nextTurn(expectedTurn, nextFruitSize);
   }
 
-  async nextTurn(nextFruitSize: number): Promise<void> {
-    await this.network.nextTurn(nextFruitSize);
+  async reportGameOver(frame?: number): Promise<void> {
+    await this.network.endGame(frame);
   }
 
-  async reportGameOver(): Promise<void> {
-    await this.network.endGame();
+  // 현재 방의 이벤트 로그 전체 (리플레이 생성용)
+  async getActionHistory(): Promise<GameAction[]> {
+    return this.network.getActionHistory();
+  }
+
+  // 게임오버까지 기록된 이벤트 로그 (게임 결과 집계용)
+  async getFinishedGameActions(): Promise<GameAction[]> {
+    return this.network.getFinishedGameActions();
   }
 
   async syncAllFruits(
-    fruits: Record<string, { x: number; y: number; size: number; ownerId: string }>,
+    fruits: Record<string, FruitSyncData>,
     deletedIds: string[] = []
   ): Promise<void> {
     await this.network.syncAllFruits(fruits, deletedIds);
   }
 
+  async saveCheckpoint(snapshot: SimulationSnapshot): Promise<void> {
+    if (!this.isAuthority) return;
+    await this.network.saveCheckpoint(snapshot);
+  }
+
+  // 락스텝: 현재 턴의 발사 입력 전송
+  async submitLockstepInput(input: Omit<LockstepInput, 'turnNumber' | 'playerId'>): Promise<void> {
+    if (!this.isMyTurn || !this.currentRoom) return;
+    await this.network.submitLockstepInput({
+      ...input,
+      turnNumber: this.currentRoom.turnNumber || 0,
+      playerId: this.network.id,
+    });
+  }
+
+  // 관전자는 보고하지 않음 (플레이어 보고로 배포된 재동기화만 받음)
+  async reportStateHash(turnNumber: number, hash: string): Promise<void> {
+    if (this.isSpectator) return;
+    await this.network.reportStateHash(turnNumber, hash);
+  }
+
+  // 호스트 전용: 불일치 발견 시 전체 상태 배포
+  async publishResync(turnNumber: number, hash: string, snapshot: SimulationSnapshot): Promise<void> {
+    if (!this.isHost) return;
+    await this.network.publishResync(turnNumber, hash, snapshot);
+  }
+
+  get needsPlayerCleanup(): boolean {
+    return this.network.needsPlayerCleanup();
+  }
+
   async cleanupDisconnectedPlayers(): Promise<void> {
     await this.network.cleanupDisconnectedPlayers();
   }
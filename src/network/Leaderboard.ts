@@ -0,0 +1,39 @@
+import type { LeaderboardBoard, LeaderboardEntry } from './types';
+
+export const LEADERBOARD_LIMIT = 20; // 보드마다 보여줄 순위 수
+
+// ISO 주 키 (UTC 기준, 월요일 시작): 2026-W43
+export function getWeekKey(time: number): string {
+  const date = new Date(time);
+  const day = date.getUTCDay() || 7; // 월=1 … 일=7
+  // 그 주의 목요일이 속한 해가 ISO 연도
+  const thursday = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 4 - day);
+  const year = new Date(thursday).getUTCFullYear();
+  const week = Math.ceil(((thursday - Date.UTC(year, 0, 1)) / 86400000 + 1) / 7);
+  return `${year}-W${String(week).padStart(2, '0')}`;
+}
+
+export function leaderboardPath(board: LeaderboardBoard): string {
+  switch (board.kind) {
+    case 'all':
+      return 'leaderboard';
+    case 'weekly':
+      return `leaderboardWeekly/${board.week}`;
+    case 'party':
+      return `leaderboardParty/${board.playerCount}`;
+  }
+}
+
+// 항목 하나가 들어갈 보드 세 곳
+export function entryBoards(entry: LeaderboardEntry): LeaderboardBoard[] {
+  return [
+    { kind: 'all' },
+    { kind: 'weekly', week: entry.week },
+    { kind: 'party', playerCount: entry.playerCount },
+  ];
+}
+
+// 리더보드 항목 ID: 게임당 하나 (보안 규칙도 이 형식만 허용)
+export function leaderboardEntryId(roomId: string, gameSeq: number): string {
+  return `${roomId}_${gameSeq}`;
+}
@@ -0,0 +1,330 @@
+import { splitPath, type RoomTransport, type Unsubscribe, type ValueCallback } from './RoomTransport';
+
+type Tree = Record<string, unknown>;
+
+interface Listener {
+  segments: string[];
+  callback: ValueCallback<unknown>;
+  lastJson: string | undefined; // 마지막으로 전달한 값 (변경 없으면 재전달 안함)
+  active: boolean;
+}
+
+// 탭 간 동기화 메시지
+type StoreMessage =
+  | { type: 'set'; path: string; value: unknown }
+  | { type: 'update'; path: string; values: Record<string, unknown> }
+  | { type: 'hello' }
+  | { type: 'state'; root: unknown };
+
+export interface MemoryStoreOptions {
+  // 지정하면 같은 이름의 BroadcastChannel을 쓰는 다른 탭과 상태 공유
+  channelName?: string;
+}
+
+function isTree(value: unknown): value is Tree {
+  return typeof value === 'object' && value !== null;
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+// Firebase 저장 규칙 흉내: null/undefined 제거, 빈 객체/배열은 존재하지 않는 값으로 취급
+function normalize(value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) {
+    const items = value.map(normalize);
+    return items.length === 0 ? null : items;
+  }
+  if (isTree(value)) {
+    const result: Tree = {};
+    for (const [key, child] of Object.entries(value)) {
+      const normalized = normalize(child);
+      if (normalized !== null) {
+        result[key] = normalized;
+      }
+    }
+    return Object.keys(result).length === 0 ? null : result;
+  }
+  return value;
+}
+
+function readAt(root: unknown, segments: string[]): unknown {
+  let node = root;
+  for (const segment of segments) {
+    if (!isTree(node)) return null;
+    node = node[segment];
+  }
+  return node === undefined ? null : node;
+}
+
+// 메모리 상의 공유 DB (같은 store를 쓰는 MemoryTransport끼리 같은 방을 봄)
+export class MemoryStore {
+  private root: unknown = null;
+  private listeners = new Set<Listener>();
+  private channel: BroadcastChannel | null = null;
+  private keyCounter = 0;
+
+  constructor(options: MemoryStoreOptions = {}) {
+    if (options.channelName && typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(options.channelName);
+      this.channel.onmessage = (e: MessageEvent<StoreMessage>) => this.handleMessage(e.data);
+      // 이미 열려 있는 탭에게 현재 상태 요청
+      this.channel.postMessage({ type: 'hello' } satisfies StoreMessage);
+    }
+  }
+
+  read(path: string): unknown {
+    return clone(readAt(this.root, splitPath(path)));
+  }
+
+  write(path: string, value: unknown): void {
+    this.applySet(splitPath(path), value);
+    this.broadcast({ type: 'set', path, value: value ?? null });
+    this.notify();
+  }
+
+  patch(path: string, values: Record<string, unknown>): void {
+    this.applyUpdate(path, values);
+    this.broadcast({ type: 'update', path, values });
+    this.notify();
+  }
+
+  subscribe(path: string, callback: ValueCallback<unknown>): Unsubscribe {
+    const listener: Listener = {
+      segments: splitPath(path),
+      callback,
+      lastJson: undefined,
+      active: true,
+    };
+    this.listeners.add(listener);
+
+    // Firebase onValue처럼 첫 값은 비동기로 전달
+    queueMicrotask(() => this.deliver(listener));
+
+    return () => {
+      listener.active = false;
+      this.listeners.delete(listener);
+    };
+  }
+
+  // 시간순 정렬 가능한 고유 키 (Firebase push 키와 같은 용도)
+  generateKey(): string {
+    this.keyCounter++;
+    const time = Date.now().toString(36).padStart(9, '0');
+    const counter = this.keyCounter.toString(36).padStart(4, '0');
+    const random = Math.random().toString(36).substring(2, 6);
+    return `${time}${counter}${random}`;
+  }
+
+  close(): void {
+    this.channel?.close();
+    this.channel = null;
+    this.listeners.clear();
+  }
+
+  private applySet(segments: string[], value: unknown): void {
+    const normalized = normalize(clone(value));
+
+    if (segments.length === 0) {
+      this.root = normalized;
+      return;
+    }
+
+    if (!isTree(this.root)) {
+      this.root = {};
+    }
+
+    let node = this.root as Tree;
+    for (const segment of segments.slice(0, -1)) {
+      let child = node[segment];
+      if (!isTree(child)) {
+        child = {};
+        node[segment] = child;
+      }
+      node = child as Tree;
+    }
+
+    const last = segments[segments.length - 1];
+    if (normalized === null) {
+      delete node[last];
+    } else {
+      node[last] = normalized;
+    }
+
+    // 삭제로 비게 된 상위 노드 정리
+    this.root = normalize(this.root);
+  }
+
+  private applyUpdate(path: string, values: Record<string, unknown>): void {
+    const base = splitPath(path);
+    for (const [key, value] of Object.entries(values)) {
+      this.applySet([...base, ...splitPath(key)], value);
+    }
+  }
+
+  private notify(): void {
+    for (const listener of Array.from(this.listeners)) {
+      this.deliver(listener);
+    }
+  }
+
+  private deliver(listener: Listener): void {
+    if (!listener.active) return;
+
+    const value = readAt(this.root, listener.segments);
+    const json = JSON.stringify(value);
+    if (json === listener.lastJson) return;
+
+    listener.lastJson = json;
+    listener.callback(clone(value));
+  }
+
+  private broadcast(message: StoreMessage): void {
+    this.channel?.postMessage(message);
+  }
+
+  private handleMessage(message: StoreMessage): void {
+    switch (message.type) {
+      case 'set':
+        this.applySet(splitPath(message.path), message.value);
+        break;
+      case 'update':
+        this.applyUpdate(message.path, message.values);
+        break;
+      case 'hello':
+        // 새 탭에게 현재 상태 전달
+        if (this.root !== null) {
+          this.broadcast({ type: 'state', root: this.root });
+        }
+        return;
+      case 'state':
+        // 아직 아무 상태도 없는 탭만 받아들임
+        if (this.root !== null) return;
+        this.root = normalize(message.root);
+        break;
+    }
+    this.notify();
+  }
+}
+
+// 인메모리 / BroadcastChannel 백엔드 (오프라인 로컬 플레이, 자동화 테스트용)
+const SESSION_PLAYER_KEY = 'local_player_id';
+
+export class MemoryTransport implements RoomTransport {
+  private store: MemoryStore;
+  private disconnectPaths = new Set<string>();
+  private disconnectUpdates = new Map<string, Record<string, unknown>>();
+  private connectionListeners = new Set<(connected: boolean) => void>();
+  private userId: string | null = null;
+
+  constructor(store: MemoryStore) {
+    this.store = store;
+
+    // 탭이 닫히면 onDisconnect 예약 작업 수행
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', () => this.disconnect());
+    }
+  }
+
+  // 탭 단위 ID (sessionStorage: 새로고침해도 유지, 탭마다 달라서 한 브라우저에서 여러 명 플레이 가능)
+  async signIn(): Promise<string> {
+    if (this.userId) return this.userId;
+
+    const storage = typeof sessionStorage !== 'undefined' ? sessionStorage : null;
+    let userId = storage?.getItem(SESSION_PLAYER_KEY) ?? null;
+    if (!userId) {
+      userId = `player_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+      storage?.setItem(SESSION_PLAYER_KEY, userId);
+    }
+    this.userId = userId;
+    return userId;
+  }
+
+  async get<T>(path: string): Promise<T | null> {
+    return this.store.read(path) as T | null;
+  }
+
+  async set(path: string, value: unknown): Promise<void> {
+    this.store.write(path, value);
+  }
+
+  async update(path: string, values: Record<string, unknown>): Promise<void> {
+    this.store.patch(path, values);
+  }
+
+  async remove(path: string): Promise<void> {
+    this.store.write(path, null);
+  }
+
+  // 같은 store 안에서는 읽기와 쓰기 사이에 끼어들 수 없으므로 한 번에 처리
+  // (BroadcastChannel로 공유하는 다른 탭과는 원자적이지 않음)
+  async transaction<T>(path: string, update: (current: T | null) => T | undefined): Promise<boolean> {
+    const next = update(this.store.read(path) as T | null);
+    if (next === undefined) return false;
+    this.store.write(path, next);
+    return true;
+  }
+
+  async getTop<T>(path: string, orderBy: string, limit: number): Promise<T[]> {
+    const items = Object.values((this.store.read(path) ?? {}) as Record<string, Record<string, unknown>>);
+    return items
+      .sort((a, b) => Number(b[orderBy] ?? 0) - Number(a[orderBy] ?? 0))
+      .slice(0, limit) as T[];
+  }
+
+  generateKey(_path: string): string {
+    return this.store.generateKey();
+  }
+
+  subscribe<T>(path: string, callback: ValueCallback<T>): Unsubscribe {
+    return this.store.subscribe(path, callback as ValueCallback<unknown>);
+  }
+
+  async onDisconnectRemove(path: string): Promise<void> {
+    this.disconnectPaths.add(path);
+  }
+
+  async onDisconnectUpdate(path: string, values: Record<string, unknown>): Promise<void> {
+    this.disconnectUpdates.set(path, { ...this.disconnectUpdates.get(path), ...values });
+  }
+
+  async cancelOnDisconnect(path: string): Promise<void> {
+    this.disconnectPaths.delete(path);
+    this.disconnectUpdates.delete(path);
+  }
+
+  // disconnect()를 부르기 전까지는 항상 연결됨
+  subscribeConnection(callback: (connected: boolean) => void): Unsubscribe {
+    this.connectionListeners.add(callback);
+    queueMicrotask(() => {
+      if (this.connectionListeners.has(callback)) callback(true);
+    });
+    return () => {
+      this.connectionListeners.delete(callback);
+    };
+  }
+
+  // 같은 브라우저/프로세스 안이므로 로컬 시계가 곧 서버 시계
+  serverTimestamp(): unknown {
+    return Date.now();
+  }
+
+  getServerTimeOffset(): number {
+    return 0;
+  }
+
+  // 연결 끊김 시뮬레이션: 예약된 onDisconnect 작업 실행
+  disconnect(): void {
+    this.connectionListeners.forEach((callback) => callback(false));
+    this.connectionListeners.clear();
+    for (const [path, values] of this.disconnectUpdates) {
+      this.store.patch(path, values);
+    }
+    for (const path of this.disconnectPaths) {
+      this.store.write(path, null);
+    }
+    this.disconnectUpdates.clear();
+    this.disconnectPaths.clear();
+  }
+}
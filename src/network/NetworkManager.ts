@@ -1,34 +1,64 @@
-import {
-  ref,
-  set,
-  get,
-  push,
-  onValue,
-  onDisconnect,
-  remove,
-  update,
-  off,
-  DatabaseReference,
-} from 'firebase/database';
-import { database } from './firebase';
-import type { RoomState, RoomPlayer, RoomEventCallback } from './types';
+import { serverNow, type RoomTransport, type Unsubscribe } from './RoomTransport';
+import { createSeed } from '../core/Random';
+import { fruitSizeForTurn } from '../core/FruitQueue';
+import type { SimulationSnapshot } from '../game/GameSimulation';
+import { FruitDeltaEncoder, decodeRoomState, type EncodedRoomState } from './FruitCodec';
+import { generateRoomCode, normalizeRoomCode, hashRoomPassword } from './RoomCode';
+import { HEARTBEAT_INTERVAL_MS, isPlayerStale, isRoomAlive, removeRoomData } from './RoomGC';
+import { claimTurnAdvance } from './TurnClaim';
+import { claimSeats, releaseSeats } from './SeatClaim';
+import { ActionLog, actionLogPath, readFinishedGameActions, sortActions } from './ActionLog';
+import { LEADERBOARD_LIMIT, leaderboardPath } from './Leaderboard';
+import type {
+  RoomState,
+  RoomSecret,
+  RoomPlayer,
+  RoomSpectator,
+  MatchQueueEntry,
+  RoomEventCallback,
+  ActionEventCallback,
+  GameAction,
+  GameActionType,
+  LeaderboardBoard,
+  LeaderboardEntry,
+  SyncMode,
+  LockstepInput,
+  FruitSyncData,
+} from './types';
+
+const DISCONNECT_GRACE_MS = 30000; // 연결이 끊긴 플레이어의 자리를 유지하는 시간
+export const MAX_PLAYERS = 10;
+const ROOM_CODE_ATTEMPTS = 10; // 코드 충돌 시 다시 뽑는 횟수
+const QUICK_MATCH_ATTEMPTS = 5;    // 빠른 매칭: 들어갈 방을 찾는 횟수 (마지막엔 직접 방 생성)
+const QUICK_MATCH_RETRY_MS = 1000; // 대기열 앞사람이 방을 만들 때까지 기다리는 간격
+
+export interface CreateRoomOptions {
+  isPrivate?: boolean;  // 방 목록(Refresh Rooms)에 표시하지 않음
+  password?: string;    // 입장/관전 시 필요 (재입장은 제외)
+  quickMatch?: boolean; // 빠른 매칭으로 만든 방 (최소 인원이 모이면 자동 시작)
+}
 
 export class NetworkManager {
-  private roomRef: DatabaseReference | null = null;
+  private transport: RoomTransport;
+  private unsubscribeRoom: Unsubscribe | null = null;
+  private unsubscribeConnection: Unsubscribe | null = null;
+  private transportConnected = false;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private turnWriteChain: Promise<unknown> = Promise.resolve(); // serializeTurnWrite 대기열
   private playerId: string;
   private playerName: string;
   private currentRoomId: string | null = null;
   private roomListeners: RoomEventCallback[] = [];
+  private actionLog: ActionLog | null = null;
+  private actionListeners: ActionEventCallback[] = [];
 
-  constructor(playerName: string) {
-    this.playerId = this.generatePlayerId();
+  // playerId: transport.signIn()으로 받은 ID (보안 규칙의 auth.uid)
+  constructor(playerName: string, transport: RoomTransport, playerId: string) {
+    this.transport = transport;
+    this.playerId = playerId;
     this.playerName = playerName;
   }
 
-  private generatePlayerId(): string {
-    return `player_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-  }
-
   get id(): string {
     return this.playerId;
   }
@@ -41,10 +71,17 @@ export class NetworkManager {
     return this.currentRoomId;
   }
 
-  async createRoom(): Promise<string> {
-    const roomsRef = ref(database, 'rooms');
-    const newRoomRef = push(roomsRef);
-    const roomId = newRoomRef.key!;
+  get room(): RoomState | null {
+    return this.currentRoomState;
+  }
+
+  // 서버 시각 추정값 (turnStartTime 등 서버 타임스탬프와 비교할 때 사용)
+  serverNow(): number {
+    return serverNow(this.transport);
+  }
+
+  async createRoom(options: CreateRoomOptions = {}): Promise<string> {
+    const roomId = this.transport.generateKey('rooms');
 
     const initialState: RoomState = {
       id: roomId,
@@ -56,44 +93,145 @@ export class NetworkManager {
           score: 0,
           isReady: false,
           isHost: true,
+          connected: true,
+          lastSeen: Date.now(),
         },
       },
+      hostId: this.playerId,
       playerOrder: [this.playerId],
       currentPlayerIndex: 0,
       turnStartTime: 0,
       partyScore: 0,
       maxFruitSize: 1,
+      seed: createSeed(),
+      turnNumber: 0,
       fruits: {},
       currentFruit: null,
+      syncMode: 'snapshot',
       createdAt: Date.now(),
+      lastActivity: Date.now(),
     };
+    // 방, 비밀번호 해시(roomSecrets, 아무도 읽을 수 없음), 공개 방 목록 항목을 한 번에 기록
+    const writes: Record<string, unknown> = {};
+    if (options.isPrivate) {
+      initialState.isPrivate = true;
+    } else {
+      writes[`roomIndex/${roomId}`] = true;
+    }
+    if (options.password) {
+      initialState.hasPassword = true;
+      const secret: RoomSecret = { passwordHash: await hashRoomPassword(roomId, options.password) };
+      writes[`roomSecrets/${roomId}`] = secret;
+    }
+    if (options.quickMatch) {
+      initialState.quickMatch = true;
+    }
 
-    await set(newRoomRef, initialState);
+    await this.transport.update('', { [`rooms/${roomId}`]: initialState, ...writes });
     this.currentRoomId = roomId;
-    this.roomRef = newRoomRef;
+
+    const code = await this.claimRoomCode(roomId);
+    await this.transport.update(`rooms/${roomId}`, { code });
 
     this.setupDisconnectHandler();
     this.subscribeToRoom();
+    this.logAction('join', this.playerId, { name: this.playerName });
 
     return roomId;
   }
 
-  async joinRoom(roomId: string): Promise<boolean> {
-    const roomRef = ref(database, `rooms/${roomId}`);
-    const snapshot = await get(roomRef);
+  // 겹치지 않는 짧은 코드 등록 (보안 규칙상 살아 있는 방의 코드는 덮어쓸 수 없음)
+  private async claimRoomCode(roomId: string): Promise<string> {
+    for (let attempt = 0; attempt < ROOM_CODE_ATTEMPTS; attempt++) {
+      const code = generateRoomCode();
+      const existing = await this.transport.get<string>(`roomCodes/${code}`);
+      if (existing && (await this.transport.get<string>(`rooms/${existing}/id`))) continue;
+
+      try {
+        await this.transport.set(`roomCodes/${code}`, roomId);
+        return code;
+      } catch {
+        // 그사이 다른 방이 가져감
+      }
+    }
+    throw new Error('Failed to allocate room code');
+  }
+
+  // 방 코드(예: ABCDE) 또는 방 ID → 방 ID (없는 코드면 null)
+  async resolveRoomId(codeOrId: string): Promise<string | null> {
+    const code = normalizeRoomCode(codeOrId);
+    if (!code) return codeOrId.trim() || null;
+    return this.transport.get<string>(`roomCodes/${code}`);
+  }
+
+  private async removeRoom(roomId: string, code?: string): Promise<void> {
+    await removeRoomData(this.transport, roomId, code);
+  }
+
+  // 비밀번호 해시를 입장 증명(roomJoinProofs/{방}/{uid})으로 기록
+  // 보안 규칙이 roomSecrets의 해시와 같을 때만 기록을 허용하고, 자리/관전 기록은 이 증명을 요구
+  // 규칙이 없는 로컬 백엔드는 roomSecrets를 직접 비교 (Firebase에서는 읽기가 거부됨)
+  private async submitJoinProof(roomState: RoomState, password?: string): Promise<void> {
+    if (!roomState.hasPassword) return;
+    if (!password) throw new Error('Wrong password');
+
+    const hash = await hashRoomPassword(roomState.id, password);
+    const secret = await this.transport.get<RoomSecret>(`roomSecrets/${roomState.id}`).catch(() => null);
+    if (secret && secret.passwordHash !== hash) throw new Error('Wrong password');
 
-    if (!snapshot.exists()) {
+    try {
+      await this.transport.set(`roomJoinProofs/${roomState.id}/${this.playerId}`, hash);
+    } catch {
+      throw new Error('Wrong password');
+    }
+  }
+
+  async joinRoom(roomId: string, password?: string): Promise<boolean> {
+    const roomState = await this.transport.get<RoomState>(`rooms/${roomId}`);
+
+    if (!roomState) {
       throw new Error('Room not found');
     }
 
-    const roomState = snapshot.val() as RoomState;
+    // 같은 ID로 자리가 남아 있으면 (새로고침, 잠깐 끊김) 게임 중이어도 자리/점수/순서 그대로 복구
+    const seat = roomState.players?.[this.playerId];
+    let joinedTurn: number | undefined;
+    if (seat) {
+      console.log('[NetworkManager] 기존 자리로 재입장:', roomId);
+      await this.transport.update(`rooms/${roomId}/players/${this.playerId}`, {
+        name: this.playerName,
+        connected: true,
+        ...(seat.isHost && this.hasOtherConnectedHost(roomState) ? { isHost: false } : {}),
+      });
+      if (!roomState.playerOrder.includes(this.playerId)
+        && !(await claimSeats(this.transport, roomId, [this.playerId], MAX_PLAYERS))) {
+        throw new Error('Room is full');
+      }
+    } else {
+      await this.submitJoinProof(roomState, password);
+      joinedTurn = await this.addSeat(roomId, roomState);
+    }
+
+    this.currentRoomId = roomId;
 
-    if (roomState.status !== 'waiting') {
+    this.setupDisconnectHandler();
+    this.subscribeToRoom();
+    if (!seat) {
+      this.logAction('join', this.playerId, { name: this.playerName, joinedTurn });
+    }
+
+    return true;
+  }
+
+  // 새 자리 추가 (대기 중이거나 중간 참가가 허용된 게임, 자리가 남아 있을 때만), 중간 참가면 참가 턴 반환
+  private async addSeat(roomId: string, roomState: RoomState): Promise<number | undefined> {
+    const lateJoin = roomState.status === 'playing' && !!roomState.allowLateJoin;
+    if (roomState.status !== 'waiting' && !lateJoin) {
       throw new Error('Game already started');
     }
 
-    const playerCount = Object.keys(roomState.players).length;
-    if (playerCount >= 10) {
+    const playerCount = Object.keys(roomState.players ?? {}).length;
+    if (playerCount >= MAX_PLAYERS) {
       throw new Error('Room is full');
     }
 
@@ -103,38 +241,279 @@ export class NetworkManager {
       score: 0,
       isReady: false,
       isHost: false,
+      connected: true,
+      lastSeen: Date.now(),
     };
 
-    await update(ref(database, `rooms/${roomId}/players/${this.playerId}`), newPlayer);
-    await update(ref(database, `rooms/${roomId}`), {
-      playerOrder: [...roomState.playerOrder, this.playerId],
-    });
+    // 진행 중인 게임: 다음 턴부터 참가, playerOrder에는 호스트가 추가 (admitLateJoiners)
+    if (lateJoin) {
+      newPlayer.joinedTurn = (roomState.turnNumber || 0) + 1;
+      await this.transport.update(`rooms/${roomId}/players/${this.playerId}`, { ...newPlayer });
+      return newPlayer.joinedTurn;
+    }
+
+    // 마지막 자리를 동시에 잡은 경우: playerOrder 트랜잭션에 먼저 성공한 쪽만 남고 나머지는 자리 삭제
+    await this.transport.update(`rooms/${roomId}/players/${this.playerId}`, { ...newPlayer });
+    if (!(await claimSeats(this.transport, roomId, [this.playerId], MAX_PLAYERS))) {
+      await this.transport.remove(`rooms/${roomId}/players/${this.playerId}`);
+      throw new Error('Room is full');
+    }
+    return undefined;
+  }
+
+  // 빠른 매칭: 대기열(matchQueue)에 등록한 뒤 자리가 남은 공개 대기방 중 가장 많이 찬 방에 입장
+  // 들어갈 방이 없으면 대기열 맨 앞 플레이어가 방을 만들고, 나머지는 잠시 뒤 그 방을 찾아 들어감
+  async quickMatch(): Promise<string> {
+    const queuePath = `matchQueue/${this.playerId}`;
+    const entry: MatchQueueEntry = { id: this.playerId, name: this.playerName, since: Date.now() };
+    await this.transport.set(queuePath, entry);
+    this.transport.onDisconnectRemove(queuePath);
+
+    try {
+      for (let attempt = 0; attempt < QUICK_MATCH_ATTEMPTS; attempt++) {
+        const joined = await this.joinBestQuickMatchRoom();
+        if (joined) return joined;
+
+        if (attempt === QUICK_MATCH_ATTEMPTS - 1 || (await this.isFirstInQueue())) {
+          console.log('[QuickMatch] 들어갈 방 없음, 새 방 생성');
+          return await this.createRoom({ quickMatch: true });
+        }
+        await new Promise((resolve) => setTimeout(resolve, QUICK_MATCH_RETRY_MS));
+      }
+      throw new Error('Quick match failed');
+    } finally {
+      this.transport.cancelOnDisconnect(queuePath);
+      await this.transport.remove(queuePath);
+    }
+  }
+
+  private async joinBestQuickMatchRoom(): Promise<string | null> {
+    const rooms = (await this.getRoomList())
+      .filter((room) => room.status === 'waiting' && !room.hasPassword && room.players)
+      .filter((room) => Object.keys(room.players).length < MAX_PLAYERS)
+      .sort((a, b) =>
+        Object.keys(b.players).length - Object.keys(a.players).length || a.createdAt - b.createdAt
+      );
+
+    for (const room of rooms) {
+      try {
+        await this.joinRoom(room.id);
+      } catch (error) {
+        console.log('[QuickMatch] 입장 실패, 다음 방 시도:', (error as Error).message);
+        continue;
+      }
+      console.log('[QuickMatch] 입장:', room.id);
+      return room.id;
+    }
+    return null;
+  }
+
+  // 대기열에서 가장 오래 기다린 플레이어인지 (같은 시각이면 ID 순)
+  private async isFirstInQueue(): Promise<boolean> {
+    const queue = await this.transport.get<Record<string, MatchQueueEntry>>('matchQueue');
+    const first = Object.values(queue ?? {}).sort((a, b) => a.since - b.since || a.id.localeCompare(b.id))[0];
+    return !first || first.id === this.playerId;
+  }
+
+  // 호스트 전용: 빠른 매칭 방 자동 시작 시각 (null이면 취소)
+  async setAutoStart(at: number | null): Promise<void> {
+    if (!this.currentRoomId) return;
+
+    await this.transport.update(`rooms/${this.currentRoomId}`, { autoStartAt: at });
+  }
+
+  // 관전: players/playerOrder에는 들어가지 않고 spectators에만 기록 후 방 구독 (게임 중, 꽉 찬 방도 가능)
+  async spectateRoom(roomId: string, password?: string): Promise<void> {
+    const roomState = await this.transport.get<RoomState>(`rooms/${roomId}`);
+
+    if (!roomState) {
+      throw new Error('Room not found');
+    }
+
+    // 이미 자리가 있으면 관전 대신 재입장
+    if (roomState.players?.[this.playerId]) {
+      await this.joinRoom(roomId);
+      return;
+    }
+    await this.submitJoinProof(roomState, password);
+
+    const spectator: RoomSpectator = {
+      id: this.playerId,
+      name: this.playerName,
+      joinedAt: Date.now(),
+    };
+    const path = `rooms/${roomId}/spectators/${this.playerId}`;
+    await this.transport.set(path, spectator);
+    this.transport.onDisconnectRemove(path);
 
     this.currentRoomId = roomId;
-    this.roomRef = roomRef;
+    this.subscribeToRoom();
+  }
+
+  // 관전자가 게임 사이(대기방)에 빈 자리에 앉음
+  async takeSeat(): Promise<void> {
+    if (!this.currentRoomId) return;
 
+    const roomId = this.currentRoomId;
+    const roomState = await this.transport.get<RoomState>(`rooms/${roomId}`);
+    if (!roomState) {
+      throw new Error('Room not found');
+    }
+    if (roomState.players?.[this.playerId]) return;
+
+    const joinedTurn = await this.addSeat(roomId, roomState);
+    this.logAction('join', this.playerId, { name: this.playerName, joinedTurn });
+
+    const path = `rooms/${roomId}/spectators/${this.playerId}`;
+    this.transport.cancelOnDisconnect(path);
+    await this.transport.remove(path);
     this.setupDisconnectHandler();
-    this.subscribeToRoom();
+  }
 
-    return true;
+  // 방은 구독 중이지만 자리가 없음
+  isSpectator(): boolean {
+    return !!this.currentRoomState && !this.currentRoomState.players?.[this.playerId];
   }
 
+  getSpectatorCount(): number {
+    return Object.keys(this.currentRoomState?.spectators ?? {}).length;
+  }
+
+  // 관전자가 앉을 수 있는지 (게임 사이 또는 중간 참가 허용 + 빈 자리)
+  canTakeSeat(): boolean {
+    const room = this.currentRoomState;
+    if (!room || Object.keys(room.players ?? {}).length >= MAX_PLAYERS) return false;
+    return room.status === 'waiting' || (room.status === 'playing' && !!room.allowLateJoin);
+  }
+
+  // 호스트 전용: 중간 참가자를 playerOrder 끝에 추가 (currentPlayerIndex는 그대로 → 현재 턴에 영향 없음)
+  async admitLateJoiners(): Promise<void> {
+    const room = this.currentRoomState;
+    if (!this.currentRoomId || !room || room.status !== 'playing' || !this.isHost()) return;
+
+    const pending = Object.values(room.players)
+      .filter((p) => p.joinedTurn !== undefined && p.connected !== false && !room.playerOrder.includes(p.id))
+      .map((p) => p.id);
+    if (pending.length === 0) return;
+
+    console.log('[Host] 중간 참가 플레이어 추가:', pending);
+    if (!(await claimSeats(this.transport, this.currentRoomId, pending, MAX_PLAYERS))) {
+      console.warn('[Host] 정원 초과로 중간 참가 보류:', pending);
+    }
+  }
+
+  async setAllowLateJoin(allow: boolean): Promise<void> {
+    if (!this.currentRoomId) return;
+
+    await this.transport.update(`rooms/${this.currentRoomId}`, { allowLateJoin: allow });
+  }
+
+  // 끊기면 바로 지우지 않고 connected: false로 표시 (유예 시간 동안 자리 유지)
+  // onDisconnect 예약은 한 번 실행되면 사라지므로 재연결될 때마다 다시 검
   private setupDisconnectHandler(): void {
     if (!this.currentRoomId) return;
+    const path = `rooms/${this.currentRoomId}/players/${this.playerId}`;
+
+    this.unsubscribeConnection?.();
+    this.unsubscribeConnection = this.transport.subscribeConnection((connected) => {
+      this.transportConnected = connected;
+      if (!connected) return;
+      this.transport.onDisconnectUpdate(path, { connected: false });
+      this.markConnected();
+    });
+    this.startHeartbeat();
+  }
+
+  // 자리가 있는 동안 내 lastSeen과 방의 lastActivity 갱신 (멈추면 방이 TTL 후 정리됨)
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => this.sendHeartbeat(), HEARTBEAT_INTERVAL_MS);
+  }
 
-    const playerRef = ref(database, `rooms/${this.currentRoomId}/players/${this.playerId}`);
-    onDisconnect(playerRef).remove();
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer !== null) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private sendHeartbeat(): void {
+    // 자리가 정리된 뒤에 쓰면 lastSeen만 있는 빈 항목이 생기므로 확인
+    if (!this.currentRoomId || !this.currentRoomState?.players?.[this.playerId]) return;
+
+    const now = this.transport.serverTimestamp();
+    this.transport.update(`rooms/${this.currentRoomId}`, {
+      lastActivity: now,
+      [`players/${this.playerId}/lastSeen`]: now,
+    });
+  }
+
+  // 재연결 후 내 자리가 끊김으로 표시돼 있으면 복구 (그사이 다른 호스트가 생겼으면 호스트 양보)
+  private markConnected(): void {
+    const room = this.currentRoomState;
+    const me = room?.players[this.playerId];
+    if (!this.currentRoomId || !this.transportConnected || !room || !me || me.connected !== false) return;
+
+    this.transport.update(`rooms/${this.currentRoomId}/players/${this.playerId}`, {
+      connected: true,
+      ...(me.isHost && this.hasOtherConnectedHost(room) ? { isHost: false } : {}),
+    });
+  }
+
+  private hasOtherConnectedHost(room: RoomState): boolean {
+    return Object.values(room.players).some(
+      (p) => p.id !== this.playerId && p.isHost && p.connected !== false
+    );
+  }
+
+  // 연결이 끊긴 시각 (이 클라이언트가 처음 본 시각 기준)
+  private disconnectedSince = new Map<string, number>();
+
+  private trackDisconnectedPlayers(room: RoomState): void {
+    const now = Date.now();
+    const serverTime = this.serverNow();
+    // onDisconnect가 실행되지 않았어도 하트비트가 끊긴 플레이어는 끊긴 것으로 봄
+    const isDisconnected = (player: RoomPlayer | undefined) =>
+      !!player && (player.connected === false || isPlayerStale(player, serverTime));
+
+    for (const id of Array.from(this.disconnectedSince.keys())) {
+      if (!isDisconnected(room.players[id])) {
+        this.disconnectedSince.delete(id);
+      }
+    }
+    for (const player of Object.values(room.players)) {
+      if (isDisconnected(player) && !this.disconnectedSince.has(player.id)) {
+        this.disconnectedSince.set(player.id, now);
+      }
+    }
+  }
+
+  private getExpiredPlayerIds(): string[] {
+    const now = Date.now();
+    return Array.from(this.disconnectedSince)
+      .filter(([, since]) => now - since >= DISCONNECT_GRACE_MS)
+      .map(([id]) => id);
   }
 
   private currentRoomState: RoomState | null = null;
+  private fruitEncoder = new FruitDeltaEncoder(); // 호스트: 마지막으로 보낸 과일 상태
 
   private subscribeToRoom(): void {
-    if (!this.roomRef) return;
+    if (!this.currentRoomId) return;
+
+    if (this.actionLog?.roomId !== this.currentRoomId) {
+      this.actionLog?.close();
+      this.actionLog = new ActionLog(this.transport, this.currentRoomId);
+      this.actionLog.onAction((action) => this.actionListeners.forEach((callback) => callback(action)));
+    }
 
-    onValue(this.roomRef, (snapshot) => {
-      if (snapshot.exists()) {
-        const roomState = snapshot.val() as RoomState;
+    this.unsubscribeRoom?.();
+    this.unsubscribeRoom = this.transport.subscribe<EncodedRoomState>(`rooms/${this.currentRoomId}`, (encoded) => {
+      if (encoded) {
+        const roomState = decodeRoomState(encoded);
         this.currentRoomState = roomState;
+        this.trackDisconnectedPlayers(roomState);
+        this.markConnected();
         this.roomListeners.forEach((callback) => callback(roomState));
       }
     });
@@ -152,37 +531,75 @@ export class NetworkManager {
     this.roomListeners = this.roomListeners.filter((cb) => cb !== callback);
   }
 
+  // 방 이벤트 로그 구독: 구독 이후 기록된 항목을 순번 순서대로 한 번씩 전달
+  onAction(callback: ActionEventCallback): void {
+    this.actionListeners.push(callback);
+  }
+
+  offAction(callback: ActionEventCallback): void {
+    this.actionListeners = this.actionListeners.filter((cb) => cb !== callback);
+  }
+
+  // 방 이벤트 로그에 추가 (실패해도 게임 진행은 계속, 기록 순서는 호출 순서)
+  logAction(type: GameActionType, playerId: string, data: Record<string, unknown> = {}): Promise<void> {
+    if (!this.actionLog) return Promise.resolve();
+    return this.actionLog.append(type, playerId, data).then(
+      () => undefined,
+      (error) => console.warn('[NetworkManager] 액션 기록 실패:', type, error)
+    );
+  }
+
+  // 현재 방의 이벤트 로그 전체 (순번 순서)
+  async getActionHistory(): Promise<GameAction[]> {
+    if (!this.currentRoomId) return [];
+    return sortActions(await this.transport.get<Record<string, GameAction>>(actionLogPath(this.currentRoomId)));
+  }
+
   async setReady(isReady: boolean): Promise<void> {
     if (!this.currentRoomId) return;
 
-    await update(ref(database, `rooms/${this.currentRoomId}/players/${this.playerId}`), {
+    await this.transport.update(`rooms/${this.currentRoomId}/players/${this.playerId}`, {
       isReady,
     });
   }
 
-  async startGame(): Promise<void> {
+  // seed를 지정하면 같은 과일 큐로 게임 재현 (리플레이, 데일리 퍼즐)
+  async startGame(seed: number = createSeed()): Promise<void> {
     if (!this.currentRoomId) return;
+    this.fruitEncoder.reset(); // 모든 과일을 처음부터 다시 전송
+    const gameSeq = (this.currentRoomState?.gameSeq ?? 0) + 1;
 
-    await update(ref(database, `rooms/${this.currentRoomId}`), {
+    await this.transport.update(`rooms/${this.currentRoomId}`, {
       status: 'playing',
-      turnStartTime: Date.now(),
+      seed,
+      turnNumber: 0,
+      advancedTurn: null,
+      inputs: null,
+      stateHashes: null,
+      resync: null,
+      checkpoint: null,
+      lastRejection: null,
+      autoStartAt: null,
+      turnStartTime: this.transport.serverTimestamp(),
       currentFruit: {
-        size: 1,
+        size: fruitSizeForTurn(seed, 0, 1),
         x: 200,
       },
+      gameSeq,
     });
+    this.logAction('game_start', this.playerId, { seed, gameSeq });
   }
 
   async updateCurrentFruitPosition(x: number): Promise<void> {
     if (!this.currentRoomId) return;
 
-    await update(ref(database, `rooms/${this.currentRoomId}/currentFruit`), { x });
+    await this.transport.update(`rooms/${this.currentRoomId}/currentFruit`, { x });
   }
 
   async dropFruit(fruitId: string, x: number, y: number, size: number, ownerId: string): Promise<void> {
     if (!this.currentRoomId) return;
 
-    await update(ref(database, `rooms/${this.currentRoomId}/fruits/${fruitId}`), {
+    await this.transport.update(`rooms/${this.currentRoomId}/fruits/${fruitId}`, {
       id: fruitId,
       x,
       y,
@@ -191,7 +608,7 @@ export class NetworkManager {
       ownerId,
     });
 
-    await set(ref(database, `rooms/${this.currentRoomId}/currentFruit`), null);
+    await this.transport.set(`rooms/${this.currentRoomId}/currentFruit`, null);
   }
 
   // 비호스트용: 드롭 요청만 전송 (호스트가 실제 drop 수행)
@@ -199,9 +616,10 @@ export class NetworkManager {
     if (!this.currentRoomId) return;
 
     const requestId = `req_${Date.now()}_${Math.random().toString(36).substring(2, 7)}`;
-    await set(ref(database, `rooms/${this.currentRoomId}/dropRequest`), {
+    await this.transport.set(`rooms/${this.currentRoomId}/dropRequest`, {
       id: requestId,
       playerId: this.playerId,
+      turnNumber: this.currentRoomState?.turnNumber || 0,
       x,
       size,
       velocityX: 0,
@@ -209,7 +627,7 @@ export class NetworkManager {
       timestamp: Date.now(),
     });
 
-    await set(ref(database, `rooms/${this.currentRoomId}/currentFruit`), null);
+    await this.transport.set(`rooms/${this.currentRoomId}/currentFruit`, null);
   }
 
   // 비호스트용: 속도 포함 드롭 요청 전송 (슬링샷)
@@ -221,9 +639,10 @@ export class NetworkManager {
     if (!this.currentRoomId) return;
 
     const requestId = `req_${Date.now()}_${Math.random().toString(36).substring(2, 7)}`;
-    await set(ref(database, `rooms/${this.currentRoomId}/dropRequest`), {
+    await this.transport.set(`rooms/${this.currentRoomId}/dropRequest`, {
       id: requestId,
       playerId: this.playerId,
+      turnNumber: this.currentRoomState?.turnNumber || 0,
       x,
       size,
       velocityX: velocity.x,
@@ -231,7 +650,7 @@ export class NetworkManager {
       timestamp: Date.now(),
     });
 
-    await set(ref(database, `rooms/${this.currentRoomId}/currentFruit`), null);
+    await this.transport.set(`rooms/${this.currentRoomId}/currentFruit`, null);
   }
 
   // 호스트용: 속도 포함 과일 드롭 (슬링샷)
@@ -245,7 +664,7 @@ export class NetworkManager {
   ): Promise<void> {
     if (!this.currentRoomId) return;
 
-    await update(ref(database, `rooms/${this.currentRoomId}/fruits/${fruitId}`), {
+    await this.transport.update(`rooms/${this.currentRoomId}/fruits/${fruitId}`, {
       id: fruitId,
       x,
       y,
@@ -256,49 +675,70 @@ export class NetworkManager {
       ownerId,
     });
 
-    await set(ref(database, `rooms/${this.currentRoomId}/currentFruit`), null);
+    await this.transport.set(`rooms/${this.currentRoomId}/currentFruit`, null);
   }
 
   // 호스트용: 드롭 요청 처리 완료 후 삭제
   async clearDropRequest(): Promise<void> {
     if (!this.currentRoomId) return;
-    await remove(ref(database, `rooms/${this.currentRoomId}/dropRequest`));
+    await this.transport.remove(`rooms/${this.currentRoomId}/dropRequest`);
   }
 
-  async nextTurn(nextFruitSize: number): Promise<void> {
-    if (!this.currentRoomId || !this.currentRoomState) return;
+  // expectedTurn이 아직 넘어가지 않았을 때만 다음 플레이어로 넘김 (이미 넘어갔으면 false)
+  async nextTurn(expectedTurn: number, nextFruitSize: number): Promise<boolean> {
+    const roomId = this.currentRoomId;
+    if (!roomId) return false;
 
-    // 현재 상태에서 다음 인덱스 계산
-    const playerOrderLength = this.currentRoomState.playerOrder?.length || 1;
-    const nextIndex = (this.currentRoomState.currentPlayerIndex + 1) % playerOrderLength;
+    return this.serializeTurnWrite(async () => {
+      if (!(await claimTurnAdvance(this.transport, roomId, expectedTurn))) {
+        console.log('[NetworkManager] 이미 넘어간 턴, 무시:', expectedTurn);
+        return false;
+      }
 
-    // 일반 update 사용 (트랜잭션 충돌 방지)
-    await update(ref(database, `rooms/${this.currentRoomId}`), {
-      currentPlayerIndex: nextIndex,
-      turnStartTime: Date.now(),
-      currentFruit: {
-        size: nextFruitSize,
-        x: 200,
-      },
+      // 선점한 뒤의 최신 순서로 다음 인덱스 계산 (캐시된 상태는 정리 전일 수 있음)
+      const [playerOrder, currentPlayerIndex] = await Promise.all([
+        this.transport.get<string[]>(`rooms/${roomId}/playerOrder`),
+        this.transport.get<number>(`rooms/${roomId}/currentPlayerIndex`),
+      ]);
+      const nextIndex = ((currentPlayerIndex ?? 0) + 1) % (playerOrder?.length || 1);
+
+      await this.transport.update(`rooms/${roomId}`, {
+        currentPlayerIndex: nextIndex,
+        turnNumber: expectedTurn + 1,
+        turnStartTime: this.transport.serverTimestamp(),
+        currentFruit: {
+          size: nextFruitSize,
+          x: 200,
+        },
+      });
+      this.logAction('turn', playerOrder?.[nextIndex] ?? '', { turnNumber: expectedTurn + 1, fruitSize: nextFruitSize });
+      return true;
     });
   }
 
+  // 턴 순서를 바꾸는 쓰기(nextTurn, cleanupDisconnectedPlayers)는 이 클라이언트 안에서 하나씩 실행
+  private serializeTurnWrite<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.turnWriteChain.then(task);
+    this.turnWriteChain = result.catch(() => undefined);
+    return result;
+  }
+
   async updateFruitPosition(fruitId: string, x: number, y: number): Promise<void> {
     if (!this.currentRoomId) return;
 
-    await update(ref(database, `rooms/${this.currentRoomId}/fruits/${fruitId}`), { x, y });
+    await this.transport.update(`rooms/${this.currentRoomId}/fruits/${fruitId}`, { x, y });
   }
 
   async removeFruit(fruitId: string): Promise<void> {
     if (!this.currentRoomId) return;
 
-    await remove(ref(database, `rooms/${this.currentRoomId}/fruits/${fruitId}`));
+    await this.transport.remove(`rooms/${this.currentRoomId}/fruits/${fruitId}`);
   }
 
   async addMergedFruit(fruitId: string, x: number, y: number, size: number, ownerId: string): Promise<void> {
     if (!this.currentRoomId) return;
 
-    await update(ref(database, `rooms/${this.currentRoomId}/fruits/${fruitId}`), {
+    await this.transport.update(`rooms/${this.currentRoomId}/fruits/${fruitId}`, {
       id: fruitId,
       x,
       y,
@@ -311,61 +751,95 @@ export class NetworkManager {
   async updateScore(playerId: string, score: number, partyScore: number): Promise<void> {
     if (!this.currentRoomId) return;
 
-    await update(ref(database, `rooms/${this.currentRoomId}`), {
+    await this.transport.update(`rooms/${this.currentRoomId}`, {
       partyScore,
       [`players/${playerId}/score`]: score,
     });
+    this.logAction('score', playerId, { score, partyScore });
   }
 
   async updateMaxFruitSize(maxSize: number): Promise<void> {
     if (!this.currentRoomId) return;
 
-    await update(ref(database, `rooms/${this.currentRoomId}`), {
+    await this.transport.update(`rooms/${this.currentRoomId}`, {
       maxFruitSize: maxSize,
     });
   }
 
+  // 호스트 전용: 물리 월드 전체 저장 (다음 호스트가 이어서 시뮬레이션)
+  async saveCheckpoint(snapshot: SimulationSnapshot): Promise<void> {
+    if (!this.currentRoomId) return;
+
+    await this.transport.set(`rooms/${this.currentRoomId}/checkpoint`, {
+      hostId: this.playerId,
+      frame: snapshot.frame,
+      savedAt: Date.now(),
+      snapshot,
+    });
+  }
+
+  async setSyncMode(mode: SyncMode): Promise<void> {
+    if (!this.currentRoomId) return;
+
+    await this.transport.update(`rooms/${this.currentRoomId}`, { syncMode: mode });
+  }
+
+  // 락스텝: 발사 입력 기록 (모든 클라이언트가 같은 턴에 적용)
+  async submitLockstepInput(input: LockstepInput): Promise<void> {
+    if (!this.currentRoomId) return;
+
+    await this.transport.set(`rooms/${this.currentRoomId}/inputs/t${input.turnNumber}`, input);
+  }
+
+  async reportStateHash(turnNumber: number, hash: string): Promise<void> {
+    if (!this.currentRoomId) return;
+
+    await this.transport.set(`rooms/${this.currentRoomId}/stateHashes/${this.playerId}`, {
+      turnNumber,
+      hash,
+    });
+  }
+
+  async publishResync(turnNumber: number, hash: string, snapshot: SimulationSnapshot): Promise<void> {
+    if (!this.currentRoomId) return;
+
+    const path = `rooms/${this.currentRoomId}/resync`;
+    await this.transport.set(path, {
+      id: this.transport.generateKey(path),
+      turnNumber,
+      hash,
+      snapshot,
+    });
+  }
+
   async syncAllFruits(
-    fruits: Record<string, { x: number; y: number; size: number; ownerId: string }>,
+    fruits: Record<string, FruitSyncData>,
     deletedIds: string[] = []
   ): Promise<void> {
     if (!this.currentRoomId) return;
 
-    const fruitsUpdate: Record<string, { id: string; x: number; y: number; size: number; isDropped: boolean; ownerId: string } | null> = {};
-
-    // 업데이트할 과일
-    for (const [id, fruit] of Object.entries(fruits)) {
-      fruitsUpdate[id] = {
-        id,
-        x: fruit.x,
-        y: fruit.y,
-        size: fruit.size,
-        isDropped: true,
-        ownerId: fruit.ownerId,
-      };
-    }
-
-    // 삭제할 과일 (null로 설정하면 Firebase에서 삭제됨)
-    for (const id of deletedIds) {
-      fruitsUpdate[id] = null;
-    }
+    // 마지막 전송 이후 움직인 과일만 (위치/회전은 q 한 필드로 압축)
+    // 삭제할 과일은 null로 설정하면 Firebase에서 삭제됨
+    const fruitsUpdate = this.fruitEncoder.encode(fruits, deletedIds);
+    if (Object.keys(fruitsUpdate).length === 0) return;
 
     // update()는 기존 데이터를 유지하면서 지정된 항목만 업데이트
-    await update(ref(database, `rooms/${this.currentRoomId}/fruits`), fruitsUpdate);
+    await this.transport.update(`rooms/${this.currentRoomId}/fruits`, fruitsUpdate);
   }
 
   isHost(): boolean {
     if (!this.currentRoomState) return false;
     const players = Object.values(this.currentRoomState.players);
-    const host = players.find(p => p.isHost);
+    // 끊긴 사이 다른 플레이어가 승계했으면 연결된 쪽이 호스트
+    const host = players.find(p => p.isHost && p.connected !== false) ?? players.find(p => p.isHost);
     return host?.id === this.playerId;
   }
 
-  // 호스트가 없는지 확인 (연결 해제됨)
+  // 호스트가 없는지 확인 (나갔거나 연결 끊김)
   hasNoHost(): boolean {
     if (!this.currentRoomState) return false;
     const players = Object.values(this.currentRoomState.players);
-    return !players.some(p => p.isHost);
+    return !players.some(p => p.isHost && p.connected !== false);
   }
 
   // 자신이 새 호스트가 되어야 하는지 확인 (playerOrder 첫 번째)
@@ -373,8 +847,10 @@ export class NetworkManager {
     if (!this.currentRoomState) return false;
     if (!this.hasNoHost()) return false;
 
-    // playerOrder에서 실제로 존재하는 첫 번째 플레이어가 새 호스트
-    const activePlayers = Object.keys(this.currentRoomState.players);
+    // playerOrder에서 실제로 존재하고 연결된 첫 번째 플레이어가 새 호스트
+    const activePlayers = Object.values(this.currentRoomState.players)
+      .filter((p) => p.connected !== false)
+      .map((p) => p.id);
     const firstActivePlayer = this.currentRoomState.playerOrder.find(
       (id: string) => activePlayers.includes(id)
     );
@@ -384,19 +860,34 @@ export class NetworkManager {
   // 자신을 호스트로 승격
   async promoteToHost(): Promise<void> {
     if (!this.currentRoomId) return;
+    this.fruitEncoder.reset(); // 모든 과일을 처음부터 다시 전송
 
     console.log('[PromoteToHost] 새 호스트로 승격:', this.playerId);
-    await update(ref(database, `rooms/${this.currentRoomId}/players/${this.playerId}`), {
-      isHost: true,
+    // hostId와 함께 써야 보안 규칙이 승격을 허용 (이전 호스트가 나갔거나 끊긴 경우만)
+    await this.transport.update(`rooms/${this.currentRoomId}`, {
+      hostId: this.playerId,
+      [`players/${this.playerId}/isHost`]: true,
     });
   }
 
-  async endGame(): Promise<void> {
+  // frame: 게임오버를 판정한 시뮬레이션 프레임 (리플레이 끝)
+  async endGame(frame?: number): Promise<void> {
     if (!this.currentRoomId) return;
 
-    await update(ref(database, `rooms/${this.currentRoomId}`), {
+    await this.transport.update(`rooms/${this.currentRoomId}`, {
       status: 'ended',
     });
+    this.logAction('game_over', this.playerId, { partyScore: this.currentRoomState?.partyScore ?? 0, frame });
+  }
+
+  async getLeaderboard(board: LeaderboardBoard): Promise<LeaderboardEntry[]> {
+    return this.transport.getTop<LeaderboardEntry>(leaderboardPath(board), 'finalScore', LEADERBOARD_LIMIT);
+  }
+
+  // 게임오버가 기록된 이벤트 로그 (게임 결과 집계, 리플레이용)
+  async getFinishedGameActions(): Promise<GameAction[]> {
+    if (!this.currentRoomId) return [];
+    return readFinishedGameActions(this.transport, this.currentRoomId);
   }
 
   // 게임 종료 후 대기방으로 돌아가기
@@ -408,148 +899,165 @@ export class NetworkManager {
     for (const playerId of Object.keys(this.currentRoomState.players)) {
       playerUpdates[`players/${playerId}/score`] = 0;
       playerUpdates[`players/${playerId}/isReady`] = false;
+      playerUpdates[`players/${playerId}/joinedTurn`] = null;
     }
 
-    await update(ref(database, `rooms/${this.currentRoomId}`), {
+    await this.transport.update(`rooms/${this.currentRoomId}`, {
       status: 'waiting',
       partyScore: 0,
       maxFruitSize: 1,
       fruits: {},
       currentFruit: null,
       currentPlayerIndex: 0,
+      turnNumber: 0,
+      advancedTurn: null,
       turnStartTime: 0,
+      inputs: null,
+      stateHashes: null,
+      resync: null,
+      checkpoint: null,
+      lastRejection: null,
       ...playerUpdates,
     });
   }
 
+  // 자기 항목만 삭제 (보안 규칙상 다른 필드는 호스트만 씀)
+  // playerOrder/currentPlayerIndex 정리는 호스트의 cleanupDisconnectedPlayers,
+  // 호스트가 나간 경우 승계는 남은 플레이어의 promoteToHost가 담당
   async leaveRoom(): Promise<void> {
-    if (!this.currentRoomId || !this.roomRef) return;
+    if (!this.currentRoomId) return;
 
     const roomId = this.currentRoomId;
-    const leavingPlayerId = this.playerId;
-    const wasHost = this.isHost();
-
-    off(this.roomRef);
-
-    // 플레이어 제거
-    await remove(ref(database, `rooms/${roomId}/players/${leavingPlayerId}`));
-
-    // playerOrder에서도 제거 및 currentPlayerIndex 조정
-    const snapshot = await get(ref(database, `rooms/${roomId}`));
-    if (snapshot.exists()) {
-      const roomState = snapshot.val() as RoomState;
-      const newPlayerOrder = roomState.playerOrder.filter((id: string) => id !== leavingPlayerId);
-
-      if (newPlayerOrder.length === 0) {
-        // 모든 플레이어가 나감 - 방 삭제
-        await remove(ref(database, `rooms/${roomId}`));
-      } else {
-        // playerOrder 업데이트 및 currentPlayerIndex 조정
-        let newIndex = roomState.currentPlayerIndex;
-        const leavingIndex = roomState.playerOrder.indexOf(leavingPlayerId);
-
-        if (leavingIndex !== -1 && leavingIndex <= roomState.currentPlayerIndex) {
-          // 퇴장한 플레이어가 현재 또는 이전 인덱스면 조정
-          newIndex = Math.max(0, roomState.currentPlayerIndex - 1);
-        }
-        // 인덱스가 배열 범위를 벗어나지 않도록
-        newIndex = newIndex % newPlayerOrder.length;
-
-        const updates: Record<string, unknown> = {
-          playerOrder: newPlayerOrder,
-          currentPlayerIndex: newIndex,
-        };
-
-        // 호스트가 나가면 새 호스트 선정 (playerOrder의 첫 번째 플레이어)
-        if (wasHost) {
-          const newHostId = newPlayerOrder[0];
-          updates[`players/${newHostId}/isHost`] = true;
-          console.log('[LeaveRoom] 새 호스트 선정:', newHostId);
-        }
 
-        await update(ref(database, `rooms/${roomId}`), updates);
-      }
+    this.unsubscribeRoom?.();
+    this.unsubscribeRoom = null;
+    this.unsubscribeConnection?.();
+    this.unsubscribeConnection = null;
+    this.stopHeartbeat();
+    this.disconnectedSince.clear();
+
+    // 자리를 지우면 로그에 쓸 권한이 없어지므로 먼저 기록
+    if (!this.isSpectator()) {
+      await this.logAction('leave', this.playerId, { reason: 'left' });
+    }
+    this.actionLog?.close();
+    this.actionLog = null;
+
+    // 직접 나가는 것이므로 끊김 예약은 취소하고 자리 (관전자면 관전 기록) 제거
+    const path = this.isSpectator()
+      ? `rooms/${roomId}/spectators/${this.playerId}`
+      : `rooms/${roomId}/players/${this.playerId}`;
+    this.transport.cancelOnDisconnect(path);
+    await this.transport.remove(path);
+
+    // 마지막 플레이어였으면 방과 방 코드 삭제
+    const players = await this.transport.get<Record<string, RoomPlayer>>(`rooms/${roomId}/players`);
+    if (!players) {
+      await this.removeRoom(roomId, this.currentRoomState?.code);
     }
 
     this.currentRoomId = null;
-    this.roomRef = null;
+    this.currentRoomState = null;
     this.roomListeners = [];
+    this.actionListeners = [];
+  }
+
+  // 정리할 게 있는지: players와 playerOrder 불일치 또는 유예 시간이 지난 끊긴 플레이어
+  needsPlayerCleanup(): boolean {
+    const room = this.currentRoomState;
+    if (!room) return false;
+    const orderMismatch = room.playerOrder.some((id) => !room.players[id]);
+    return orderMismatch || this.getExpiredPlayerIds().length > 0;
   }
 
   // 호스트 전용: players와 playerOrder 불일치 정리 (연결 해제된 플레이어 처리)
   async cleanupDisconnectedPlayers(): Promise<void> {
-    if (!this.currentRoomId || !this.isHost()) return;
-
-    const snapshot = await get(ref(database, `rooms/${this.currentRoomId}`));
-    if (!snapshot.exists()) return;
-
-    const roomState = snapshot.val() as RoomState;
-    const activePlayers = Object.keys(roomState.players);
-    const disconnectedPlayers = roomState.playerOrder.filter(
-      (id: string) => !activePlayers.includes(id)
-    );
+    const roomId = this.currentRoomId;
+    if (!roomId || !this.isHost()) return;
+
+    await this.serializeTurnWrite(async () => {
+      // 유예 시간이 지나도 돌아오지 않은 플레이어는 자리 삭제 (아래에서 순서 정리)
+      const expiredIds = this.getExpiredPlayerIds();
+      if (expiredIds.length > 0) {
+        console.log('[Host] 재접속 유예 시간 초과:', expiredIds);
+        const removals: Record<string, null> = {};
+        for (const id of expiredIds) {
+          removals[id] = null;
+          this.disconnectedSince.delete(id);
+          this.logAction('leave', id, { reason: 'timeout' });
+        }
+        await this.transport.update(`rooms/${roomId}/players`, removals);
+      }
 
-    if (disconnectedPlayers.length === 0) return;
+      const roomState = await this.transport.get<RoomState>(`rooms/${roomId}`);
+      if (!roomState) return;
+      const activePlayers = Object.keys(roomState.players ?? {});
+      const disconnectedPlayers = roomState.playerOrder.filter(
+        (id: string) => !activePlayers.includes(id)
+      );
 
-    console.log('[Host] 연결 해제된 플레이어 정리:', disconnectedPlayers);
+      if (disconnectedPlayers.length === 0) return;
 
-    const newPlayerOrder = roomState.playerOrder.filter(
-      (id: string) => activePlayers.includes(id)
-    );
+      console.log('[Host] 연결 해제된 플레이어 정리:', disconnectedPlayers);
 
-    if (newPlayerOrder.length === 0) {
-      // 모든 플레이어가 나감
-      await remove(ref(database, `rooms/${this.currentRoomId}`));
-      return;
-    }
-
-    // currentPlayerIndex 조정
-    let newIndex = roomState.currentPlayerIndex;
-    for (const disconnectedId of disconnectedPlayers) {
-      const disconnectedIndex = roomState.playerOrder.indexOf(disconnectedId);
-      if (disconnectedIndex !== -1 && disconnectedIndex <= newIndex) {
-        newIndex = Math.max(0, newIndex - 1);
+      if (roomState.playerOrder.every((id: string) => disconnectedPlayers.includes(id))) {
+        // 모든 플레이어가 나감
+        await this.removeRoom(roomId, roomState.code);
+        return;
       }
-    }
-    newIndex = newIndex % newPlayerOrder.length;
-
-    // 현재 턴 플레이어가 나갔으면 새 턴 시작
-    const currentTurnPlayer = roomState.playerOrder[roomState.currentPlayerIndex];
-    const needNewTurn = disconnectedPlayers.includes(currentTurnPlayer);
 
-    const updates: Record<string, unknown> = {
-      playerOrder: newPlayerOrder,
-      currentPlayerIndex: newIndex,
-    };
-
-    if (needNewTurn && roomState.status === 'playing') {
-      updates.turnStartTime = Date.now();
-      updates.currentFruit = {
-        size: Math.floor(Math.random() * Math.min(roomState.maxFruitSize, 5)) + 1,
-        x: 200,
-      };
-    }
+      // currentPlayerIndex 조정: 현재 턴 플레이어, 나갔으면 원래 순서에서 그 다음 남은 플레이어
+      // (앞 플레이어에게 턴이 되돌아가거나 뒤 플레이어를 건너뛰지 않도록 ID로 찾음)
+      const order = roomState.playerOrder;
+      const fromCurrent = [
+        ...order.slice(roomState.currentPlayerIndex),
+        ...order.slice(0, roomState.currentPlayerIndex),
+      ];
+      const turnPlayer = fromCurrent.find((id) => activePlayers.includes(id))!;
+      const needNewTurn = turnPlayer !== order[roomState.currentPlayerIndex];
+
+      const updates: Record<string, unknown> = {};
+
+      // 현재 턴 플레이어가 나갔으면 새 턴 시작 (다른 클라이언트가 먼저 넘겼으면 다음 업데이트에서 다시 정리)
+      if (needNewTurn && roomState.status === 'playing') {
+        const expectedTurn = roomState.turnNumber || 0;
+        if (!(await claimTurnAdvance(this.transport, roomId, expectedTurn))) return;
+
+        const turnNumber = expectedTurn + 1;
+        const fruitSize = fruitSizeForTurn(roomState.seed || 0, turnNumber, roomState.maxFruitSize);
+        updates.turnNumber = turnNumber;
+        updates.turnStartTime = this.transport.serverTimestamp();
+        updates.currentFruit = { size: fruitSize, x: 200 };
+        this.logAction('turn', turnPlayer, { turnNumber, fruitSize });
+      }
 
-    await update(ref(database, `rooms/${this.currentRoomId}`), updates);
+      // 순서는 트랜잭션으로 정리 (그사이 입장한 플레이어를 덮어쓰지 않음), 새 순서 기준으로 현재 턴 위치 기록
+      const newPlayerOrder = await releaseSeats(this.transport, roomId, disconnectedPlayers);
+      updates.currentPlayerIndex = newPlayerOrder.indexOf(turnPlayer);
+      await this.transport.update(`rooms/${roomId}`, updates);
+    });
   }
 
   async getRoomList(): Promise<RoomState[]> {
     console.log('[NetworkManager] getRoomList 호출');
     try {
-      const roomsRef = ref(database, 'rooms');
-      const snapshot = await get(roomsRef);
+      // rooms 전체는 읽을 수 없음 → 공개 방 목록(roomIndex)에 있는 방만 하나씩 조회 (비공개 방은 목록에 없음)
+      const index = await this.transport.get<Record<string, boolean>>('roomIndex');
 
-      console.log('[NetworkManager] snapshot exists:', snapshot.exists());
+      console.log('[NetworkManager] roomIndex exists:', index !== null);
 
-      if (!snapshot.exists()) return [];
+      if (!index) return [];
 
-      const rooms: RoomState[] = [];
-      snapshot.forEach((child) => {
-        const room = child.val() as RoomState;
-        if (room.status === 'waiting') {
-          rooms.push(room);
-        }
-      });
+      const found = await Promise.all(
+        Object.keys(index).map((roomId) => this.transport.get<RoomState>(`rooms/${roomId}`))
+      );
+
+      // 게임 중이거나 꽉 찬 방도 포함 (재입장 또는 관전)
+      // 플레이어가 없거나 오래 활동이 없는 방은 제외 (심판의 sweepStaleRooms가 정리)
+      const now = this.serverNow();
+      const rooms = found.filter(
+        (room): room is RoomState => !!room && isRoomAlive(room, now) && !room.isPrivate
+      );
 
       console.log('[NetworkManager] 찾은 방 개수:', rooms.length);
       return rooms;
@@ -0,0 +1,26 @@
+// 방 코드: 입력하기 쉬운 5자리 (헷갈리는 0/O, 1/I/L 제외), roomCodes/{코드} → 방 ID
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+export const ROOM_CODE_LENGTH = 5;
+
+const CODE_PATTERN = new RegExp(`^[${CODE_ALPHABET}]{${ROOM_CODE_LENGTH}}$`);
+
+export function generateRoomCode(): string {
+  let code = '';
+  for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+// 사용자 입력 정리 (소문자, 공백 허용), 코드 형식이 아니면 null
+export function normalizeRoomCode(input: string): string | null {
+  const code = input.trim().toUpperCase();
+  return CODE_PATTERN.test(code) ? code : null;
+}
+
+// 방 비밀번호는 방 ID와 함께 해시해서 저장 (roomSecrets는 읽을 수 없지만 원문은 저장하지 않음)
+export async function hashRoomPassword(roomId: string, password: string): Promise<string> {
+  const data = new TextEncoder().encode(`${roomId}:${password}`);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
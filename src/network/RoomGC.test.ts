@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStore, MemoryTransport } from './MemoryTransport';
+import { actionLogPath } from './ActionLog';
+import { PLAYER_STALE_MS, ROOM_IDLE_TTL_MS, isPlayerStale, isRoomAlive, sweepStaleRooms } from './RoomGC';
+import type { RoomPlayer, RoomState } from './types';
+
+const NOW = 1_000_000_000;
+
+function player(id: string, lastSeen?: number): RoomPlayer {
+  return { id, name: id, score: 0, isReady: false, isHost: false, connected: true, lastSeen };
+}
+
+function room(id: string, lastActivity: number | undefined, players: RoomPlayer[] = [player('p1', NOW)]): RoomState {
+  return {
+    id,
+    code: `C${id}`,
+    status: 'waiting',
+    players: Object.fromEntries(players.map((p) => [p.id, p])),
+    playerOrder: players.map((p) => p.id),
+    currentPlayerIndex: 0,
+    turnStartTime: 0,
+    partyScore: 0,
+    fruits: {},
+    currentFruit: null,
+    maxFruitSize: 1,
+    seed: 1,
+    turnNumber: 0,
+    createdAt: NOW - ROOM_IDLE_TTL_MS * 10,
+    lastActivity,
+  };
+}
+
+describe('isPlayerStale', () => {
+  it('treats a player as stale only after the heartbeat has been missing too long', () => {
+    expect(isPlayerStale(player('p1', NOW - PLAYER_STALE_MS), NOW)).toBe(false);
+    expect(isPlayerStale(player('p1', NOW - PLAYER_STALE_MS - 1), NOW)).toBe(true);
+  });
+
+  it('never treats a player without a heartbeat as stale', () => {
+    expect(isPlayerStale(player('p1'), NOW)).toBe(false);
+  });
+});
+
+describe('isRoomAlive', () => {
+  it('keeps a room alive until the idle TTL passes', () => {
+    expect(isRoomAlive(room('r1', NOW - ROOM_IDLE_TTL_MS + 1), NOW)).toBe(true);
+    expect(isRoomAlive(room('r1', NOW - ROOM_IDLE_TTL_MS), NOW)).toBe(false);
+  });
+
+  it('falls back to the creation time without any activity', () => {
+    expect(isRoomAlive({ ...room('r1', undefined), createdAt: NOW - 1000 }, NOW)).toBe(true);
+    expect(isRoomAlive(room('r1', undefined), NOW)).toBe(false);
+  });
+
+  it('treats a room without players as dead', () => {
+    expect(isRoomAlive(room('r1', NOW, []), NOW)).toBe(false);
+  });
+});
+
+describe('sweepStaleRooms', () => {
+  let store: MemoryStore;
+  let transport: MemoryTransport;
+
+  // 방과 방에 딸린 경로 전부 기록
+  function seedRoom(state: RoomState): void {
+    store.write(`rooms/${state.id}`, state);
+    store.write(`${actionLogPath(state.id)}/a00000000`, { seq: 1, type: 'join', playerId: 'p1', timestamp: NOW, data: {} });
+    store.write(`roomCodes/${state.code}`, state.id);
+    store.write(`roomIndex/${state.id}`, true);
+    store.write(`roomSecrets/${state.id}`, { passwordHash: 'a'.repeat(64) });
+    store.write(`roomJoinProofs/${state.id}/p1`, 'a'.repeat(64));
+  }
+
+  const paths = (roomId: string) => [
+    `rooms/${roomId}`,
+    actionLogPath(roomId),
+    `roomCodes/C${roomId}`,
+    `roomIndex/${roomId}`,
+    `roomSecrets/${roomId}`,
+    `roomJoinProofs/${roomId}`,
+  ];
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    store = new MemoryStore();
+    transport = new MemoryTransport(store);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('removes idle and empty rooms with everything attached to them', async () => {
+    seedRoom(room('idle', NOW - ROOM_IDLE_TTL_MS - 1));
+    seedRoom(room('empty', NOW, []));
+    seedRoom(room('alive', NOW - 1000));
+
+    const removed = await sweepStaleRooms(transport, NOW);
+
+    expect(removed.sort()).toEqual(['empty', 'idle']);
+    for (const path of [...paths('idle'), ...paths('empty')]) {
+      expect(store.read(path) ?? null, path).toBeNull();
+    }
+    for (const path of paths('alive')) {
+      expect(store.read(path), path).not.toBeNull();
+    }
+  });
+
+  it('removes list entries whose room is already gone', async () => {
+    store.write('roomIndex/ghost', true);
+
+    expect(await sweepStaleRooms(transport, NOW)).toEqual([]);
+    expect(store.read('roomIndex/ghost') ?? null).toBeNull();
+  });
+});
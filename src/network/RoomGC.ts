@@ -0,0 +1,69 @@
+import { serverNow, type RoomTransport } from './RoomTransport';
+import type { RoomPlayer, RoomState } from './types';
+import { actionLogPath } from './ActionLog';
+
+// 방에 앉아 있는 동안 players/{id}/lastSeen과 방의 lastActivity를 갱신하는 간격
+export const HEARTBEAT_INTERVAL_MS = 15000;
+// 하트비트가 이 시간 넘게 끊긴 플레이어는 연결이 끊긴 것으로 취급 (onDisconnect가 실행되지 않은 경우 대비)
+export const PLAYER_STALE_MS = HEARTBEAT_INTERVAL_MS * 4;
+// 마지막 활동 후 이 시간이 지난 방은 버려진 방 (database.rules.json의 방 삭제 조건과 같은 값)
+export const ROOM_IDLE_TTL_MS = 120000;
+
+// now는 서버 시각 기준 (lastSeen, lastActivity는 서버 타임스탬프로 기록됨)
+
+export function getLastActivity(room: RoomState): number {
+  return room.lastActivity ?? room.createdAt ?? 0;
+}
+
+export function isPlayerStale(player: RoomPlayer, now = Date.now()): boolean {
+  return player.lastSeen !== undefined && now - player.lastSeen > PLAYER_STALE_MS;
+}
+
+// 플레이어가 없거나 마지막 활동이 TTL을 넘긴 방은 죽은 방
+export function isRoomAlive(room: RoomState, now = Date.now()): boolean {
+  if (!room.players || Object.keys(room.players).length === 0) return false;
+  return now - getLastActivity(room) < ROOM_IDLE_TTL_MS;
+}
+
+// 방과 방에 딸린 경로 삭제 (방을 먼저 지워야 나머지 경로의 "방이 없을 때" 삭제 규칙이 통과)
+export async function removeRoomData(transport: RoomTransport, roomId: string, code?: string): Promise<void> {
+  await transport.remove(`rooms/${roomId}`);
+  await transport.remove(actionLogPath(roomId));
+  await transport.remove(`roomIndex/${roomId}`);
+  await transport.remove(`roomSecrets/${roomId}`);
+  await transport.remove(`roomJoinProofs/${roomId}`);
+  if (code) {
+    await transport.remove(`roomCodes/${code}`);
+  }
+}
+
+// 죽은 방과 그 방에 딸린 경로 삭제, 삭제한 방 ID 반환 (방 목록 전체를 읽으므로 심판 토큰 필요)
+// 여러 심판이 동시에 실행해도 같은 경로를 지울 뿐이라 안전
+export async function sweepStaleRooms(transport: RoomTransport, now = serverNow(transport)): Promise<string[]> {
+  const rooms = (await transport.get<Record<string, RoomState>>('rooms')) ?? {};
+  const removed: string[] = [];
+
+  for (const [roomId, room] of Object.entries(rooms)) {
+    if (isRoomAlive(room, now)) continue;
+
+    try {
+      await removeRoomData(transport, roomId, room.code);
+      removed.push(roomId);
+    } catch (error) {
+      console.warn('[RoomGC] 방 삭제 실패:', roomId, error);
+    }
+  }
+
+  // 방 없이 남은 목록 항목 (방 삭제 도중 실패 등)
+  const index = await transport.get<Record<string, boolean>>('roomIndex');
+  for (const roomId of Object.keys(index ?? {})) {
+    if (!rooms[roomId]) {
+      await transport.remove(`roomIndex/${roomId}`);
+    }
+  }
+
+  if (removed.length > 0) {
+    console.log('[RoomGC] 버려진 방 정리:', removed);
+  }
+  return removed;
+}
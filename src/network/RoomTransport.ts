@@ -0,0 +1,68 @@
+// 방 상태 저장소 추상화 (Firebase Realtime Database 경로 모델을 그대로 따름)
+// - 경로는 'rooms/{roomId}/players/{playerId}' 형태의 슬래시 구분 문자열
+// - null을 쓰면 해당 경로가 삭제됨
+// - 빈 객체/배열은 저장되지 않음 (Firebase와 동일)
+
+export type Unsubscribe = () => void;
+export type ValueCallback<T> = (value: T | null) => void;
+
+export interface RoomTransport {
+  // 로그인 후 사용자 ID 반환 (새로고침해도 같은 ID, 보안 규칙의 auth.uid와 같음)
+  signIn(): Promise<string>;
+
+  // 경로의 현재 값 1회 조회 (없으면 null)
+  get<T>(path: string): Promise<T | null>;
+
+  // 경로 값 전체 덮어쓰기
+  set(path: string, value: unknown): Promise<void>;
+
+  // 다중 경로 부분 업데이트 ('players/p1/score' 같은 상대 경로 키 허용)
+  update(path: string, values: Record<string, unknown>): Promise<void>;
+
+  remove(path: string): Promise<void>;
+
+  // 원자적 읽기-수정-쓰기: update가 undefined를 반환하면 중단, 커밋 여부 반환
+  // 그 사이 다른 클라이언트가 값을 바꾸면 새 값으로 update를 다시 호출 (Firebase runTransaction)
+  transaction<T>(path: string, update: (current: T | null) => T | undefined): Promise<boolean>;
+
+  // 하위에 쓸 새 고유 키 생성 (쓰기는 하지 않음)
+  generateKey(path: string): string;
+
+  // 하위 항목 중 숫자 필드 orderBy가 큰 순서로 최대 limit개 (Firebase orderByChild + limitToLast, 규칙에 .indexOn 필요)
+  getTop<T>(path: string, orderBy: string, limit: number): Promise<T[]>;
+
+  // 경로 값 변경 구독 (등록 직후 현재 값 1회 전달)
+  subscribe<T>(path: string, callback: ValueCallback<T>): Unsubscribe;
+
+  // 연결이 끊기면 서버가 경로를 삭제하도록 예약
+  onDisconnectRemove(path: string): Promise<void>;
+
+  // 연결이 끊기면 서버가 경로를 부분 업데이트하도록 예약
+  onDisconnectUpdate(path: string, values: Record<string, unknown>): Promise<void>;
+
+  // 경로에 걸어둔 onDisconnect 예약 취소
+  cancelOnDisconnect(path: string): Promise<void>;
+
+  // 서버 연결 상태 구독 (재연결될 때마다 true, 등록 직후 현재 상태 1회 전달)
+  subscribeConnection(callback: (connected: boolean) => void): Unsubscribe;
+
+  // 쓰기 값으로 넣으면 서버가 자기 시각으로 채움 (클라이언트 시계가 틀려도 같은 기준)
+  serverTimestamp(): unknown;
+
+  // 측정된 (서버 시각 - 로컬 시각), ms
+  getServerTimeOffset(): number;
+}
+
+// 서버 시각 추정값: 서버 타임스탬프로 기록된 값과 비교할 때 Date.now() 대신 사용
+export function serverNow(transport: RoomTransport): number {
+  return Date.now() + transport.getServerTimeOffset();
+}
+
+// 경로 문자열을 세그먼트 배열로 변환
+export function splitPath(path: string): string[] {
+  return path.split('/').filter((segment) => segment.length > 0);
+}
+
+export function joinPath(...parts: string[]): string {
+  return parts.flatMap(splitPath).join('/');
+}
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStore, MemoryTransport } from './MemoryTransport';
+import { MAX_PLAYERS, NetworkManager } from './NetworkManager';
+import type { RoomState } from './types';
+
+async function joinAs(store: MemoryStore, name: string): Promise<NetworkManager> {
+  const transport = new MemoryTransport(store);
+  return new NetworkManager(name, transport, await transport.signIn());
+}
+
+describe('seat claims', () => {
+  let store: MemoryStore;
+  let host: NetworkManager;
+  let roomId: string;
+
+  const room = () => store.read(`rooms/${roomId}`) as RoomState;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    store = new MemoryStore();
+    host = await joinAs(store, 'Host');
+    roomId = await host.createRoom();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps every concurrent join in the player order', async () => {
+    const guests = await Promise.all([1, 2, 3].map((i) => joinAs(store, `Guest${i}`)));
+
+    // 모두 같은 방 상태를 읽은 뒤 자리를 추가 (읽기-수정-쓰기였다면 마지막 쓰기만 남음)
+    await Promise.all(guests.map((guest) => guest.joinRoom(roomId)));
+
+    expect(room().playerOrder).toHaveLength(4);
+    expect(new Set(room().playerOrder)).toEqual(new Set([host.id, ...guests.map((guest) => guest.id)]));
+  });
+
+  it('lets only MAX_PLAYERS seats through when the last seats are taken at once', async () => {
+    const guests = await Promise.all(
+      Array.from({ length: MAX_PLAYERS + 2 }, (_, i) => joinAs(store, `Guest${i}`))
+    );
+
+    const results = await Promise.allSettled(guests.map((guest) => guest.joinRoom(roomId)));
+    const rejected = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(MAX_PLAYERS - 1);
+    expect(rejected.map((result) => (result.reason as Error).message)).toEqual(['Room is full', 'Room is full', 'Room is full']);
+    expect(room().playerOrder).toHaveLength(MAX_PLAYERS);
+    // 자리를 못 잡은 플레이어는 players에서도 빠짐
+    expect(Object.keys(room().players).sort()).toEqual([...room().playerOrder].sort());
+  });
+
+  it('restores a missing order entry when a seated player rejoins', async () => {
+    const guest = await joinAs(store, 'Guest');
+    await guest.joinRoom(roomId);
+    store.write(`rooms/${roomId}/playerOrder`, [host.id]);
+
+    await guest.joinRoom(roomId);
+
+    expect(room().playerOrder).toEqual([host.id, guest.id]);
+  });
+});
@@ -0,0 +1,35 @@
+import type { RoomTransport } from './RoomTransport';
+
+// playerOrder에 자리 추가 (트랜잭션): 동시에 들어온 플레이어끼리 서로의 추가를 덮어쓰지 않음
+// 이미 들어 있는 ID는 그대로 두고, 추가하면 정원(maxPlayers)을 넘는 경우 전체 거부
+// 모두 이미 들어 있으면 쓰지 않음 (방장이 아니면 규칙상 끝에 자기 ID 추가만 가능)
+export async function claimSeats(
+  transport: RoomTransport,
+  roomId: string,
+  playerIds: string[],
+  maxPlayers: number
+): Promise<boolean> {
+  let seated = false;
+  const committed = await transport.transaction<string[]>(`rooms/${roomId}/playerOrder`, (current) => {
+    const order = current ?? [];
+    const added = playerIds.filter((id) => !order.includes(id));
+    seated = added.length === 0;
+    if (seated) return undefined;
+    return order.length + added.length > maxPlayers ? undefined : [...order, ...added];
+  });
+  return committed || seated;
+}
+
+// playerOrder에서 나간 플레이어 제거 (트랜잭션): 그사이 추가된 자리는 유지, 남은 순서 반환
+export async function releaseSeats(
+  transport: RoomTransport,
+  roomId: string,
+  playerIds: string[]
+): Promise<string[]> {
+  let remaining: string[] = [];
+  await transport.transaction<string[]>(`rooms/${roomId}/playerOrder`, (current) => {
+    remaining = (current ?? []).filter((id) => !playerIds.includes(id));
+    return remaining;
+  });
+  return remaining;
+}
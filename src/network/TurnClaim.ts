@@ -0,0 +1,14 @@
+import type { RoomTransport } from './RoomTransport';
+
+// 턴 넘기기 compare-and-set: rooms/{id}/advancedTurn = 마지막으로 넘어간 턴 번호 (게임 중 단조 증가)
+// 같은 턴을 넘기려는 쓰기는 하나만 성공 → 늦은 클라이언트(이전 호스트, 오래된 상태를 본 호스트)의 턴 넘기기는 거부
+// 선점에 성공한 쪽만 turnNumber = expectedTurn + 1과 다음 플레이어를 기록 (database.rules.json도 같은 조건 검사)
+export async function claimTurnAdvance(
+  transport: RoomTransport,
+  roomId: string,
+  expectedTurn: number
+): Promise<boolean> {
+  return transport.transaction<number>(`rooms/${roomId}/advancedTurn`, (current) =>
+    current !== null && current >= expectedTurn ? undefined : expectedTurn
+  );
+}
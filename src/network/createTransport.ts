@@ -0,0 +1,23 @@
+import { database, auth } from './firebase';
+import { FirebaseTransport } from './FirebaseTransport';
+import { MemoryStore, MemoryTransport } from './MemoryTransport';
+import type { RoomTransport } from './RoomTransport';
+
+export type TransportKind = 'firebase' | 'local';
+
+const LOCAL_CHANNEL_NAME = 'fireworks-festival-rooms';
+
+// 백엔드 선택: URL ?transport=local > VITE_ROOM_TRANSPORT > firebase
+// local: 같은 브라우저의 여러 탭끼리 BroadcastChannel로 방 공유 (Firebase 없이 오프라인 플레이)
+export function getTransportKind(): TransportKind {
+  const fromUrl = new URLSearchParams(window.location.search).get('transport');
+  const kind = fromUrl || import.meta.env.VITE_ROOM_TRANSPORT;
+  return kind === 'local' ? 'local' : 'firebase';
+}
+
+export function createRoomTransport(kind: TransportKind = getTransportKind()): RoomTransport {
+  if (kind === 'local') {
+    return new MemoryTransport(new MemoryStore({ channelName: LOCAL_CHANNEL_NAME }));
+  }
+  return new FirebaseTransport(database, auth);
+}
@@ -0,0 +1,477 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import { deleteApp, initializeApp, type FirebaseApp } from 'firebase/app';
+import { getAuth } from 'firebase/auth';
+import { connectDatabaseEmulator, getDatabase } from 'firebase/database';
+import rules from '../../database.rules.json';
+import { FirebaseTransport } from './FirebaseTransport';
+import { NetworkManager } from './NetworkManager';
+
+// database.rules.json 검증 (Realtime Database 에뮬레이터 필요)
+// npm run test:rules → firebase emulators:exec가 FIREBASE_DATABASE_EMULATOR_HOST를 채워서 실행
+// npm test에서는 제외됨 (vite.config.ts), 에뮬레이터 없이 직접 실행하면 건너뛰지 않고 실패
+const EMULATOR_HOST = process.env.FIREBASE_DATABASE_EMULATOR_HOST ?? '';
+if (!EMULATOR_HOST) {
+  throw new Error('FIREBASE_DATABASE_EMULATOR_HOST is not set, run npm run test:rules');
+}
+
+const PROJECT_ID = 'demo-suika';
+const ROOM = 'room1';
+const HOST = 'alice';
+const GUEST = 'bob';
+const OUTSIDER = 'mallory';
+const PASSWORD_HASH = 'a'.repeat(64);
+const SEED = 1234;
+
+function player(id: string, isHost: boolean) {
+  return { id, name: id, score: 0, isReady: false, isHost, connected: true, lastSeen: Date.now() };
+}
+
+function waitingRoom() {
+  return {
+    id: ROOM,
+    status: 'waiting',
+    hostId: HOST,
+    players: { [HOST]: player(HOST, true) },
+    playerOrder: [HOST],
+    currentPlayerIndex: 0,
+    turnStartTime: 0,
+    partyScore: 0,
+    maxFruitSize: 1,
+    seed: 1,
+    turnNumber: 0,
+    createdAt: Date.now(),
+    lastActivity: Date.now(),
+  };
+}
+
+describe('database.rules.json', () => {
+  let env: RulesTestEnvironment;
+
+  const db = (uid: string) => env.authenticatedContext(uid).database();
+  const refereeDb = () => env.authenticatedContext('referee', { referee: true }).database();
+  const roomRef = (uid: string, path = '') => db(uid).ref(`rooms/${ROOM}${path ? `/${path}` : ''}`);
+
+  // 규칙 없이 초기 상태 기록
+  async function seed(path: string, value: unknown): Promise<void> {
+    await env.withSecurityRulesDisabled(async (context) => {
+      await context.database().ref(path).set(value);
+    });
+  }
+
+  async function seedTwoPlayerRoom(status = 'waiting'): Promise<void> {
+    await seed(`rooms/${ROOM}`, {
+      ...waitingRoom(),
+      status,
+      players: { [HOST]: player(HOST, true), [GUEST]: player(GUEST, false) },
+      playerOrder: [HOST, GUEST],
+    });
+  }
+
+  beforeAll(async () => {
+    env = await initializeTestEnvironment({
+      projectId: PROJECT_ID,
+      database: { rules: JSON.stringify(rules) },
+    });
+  });
+
+  afterAll(async () => {
+    await env?.cleanup();
+  });
+
+  beforeEach(async () => {
+    await env.clearDatabase();
+  });
+
+  describe('create', () => {
+    it('lets a player create a room as its host', async () => {
+      await assertSucceeds(roomRef(HOST).set(waitingRoom()));
+    });
+
+    it('rejects creating a room hosted by someone else', async () => {
+      await assertFails(roomRef(OUTSIDER).set(waitingRoom()));
+    });
+  });
+
+  describe('join', () => {
+    beforeEach(() => seed(`rooms/${ROOM}`, waitingRoom()));
+
+    it('lets a player take a non-host seat with a zero score', async () => {
+      await assertSucceeds(roomRef(GUEST, `players/${GUEST}`).set(player(GUEST, false)));
+    });
+
+    it('rejects joining as host', async () => {
+      await assertFails(roomRef(GUEST, `players/${GUEST}`).set(player(GUEST, true)));
+    });
+
+    it('rejects joining with a score', async () => {
+      await assertFails(roomRef(GUEST, `players/${GUEST}`).set({ ...player(GUEST, false), score: 500 }));
+    });
+
+    it('rejects writing another player\'s seat', async () => {
+      await assertFails(roomRef(OUTSIDER, `players/${GUEST}`).set(player(GUEST, false)));
+    });
+
+    it('rejects joining a game in progress without late join', async () => {
+      await seed(`rooms/${ROOM}/status`, 'playing');
+      await assertFails(roomRef(GUEST, `players/${GUEST}`).set(player(GUEST, false)));
+    });
+
+    it('caps the player order at ten seats', async () => {
+      await assertSucceeds(roomRef(HOST, 'playerOrder').set(Array.from({ length: 10 }, (_, i) => `p${i}`)));
+      await assertFails(roomRef(HOST, 'playerOrder').set(Array.from({ length: 11 }, (_, i) => `p${i}`)));
+    });
+  });
+
+  describe('player order', () => {
+    // 게스트는 자리(players)만 있고 아직 순서에는 없음
+    beforeEach(() => seed(`rooms/${ROOM}`, {
+      ...waitingRoom(),
+      players: { [HOST]: player(HOST, true), [GUEST]: player(GUEST, false) },
+    }));
+
+    it('lets a seated player append only their own id', async () => {
+      await assertFails(roomRef(GUEST, 'playerOrder').set([HOST, OUTSIDER]));
+      await assertFails(roomRef(GUEST, 'playerOrder').set([HOST, GUEST, GUEST]));
+      await assertSucceeds(roomRef(GUEST, 'playerOrder').set([HOST, GUEST]));
+    });
+
+    it('rejects an append from a player without a seat', async () => {
+      await assertFails(roomRef(OUTSIDER, 'playerOrder').set([HOST, OUTSIDER]));
+    });
+
+    it('rejects a guest reordering the seats', async () => {
+      await seed(`rooms/${ROOM}/playerOrder`, [HOST, GUEST]);
+      await assertFails(roomRef(GUEST, 'playerOrder').set([GUEST, HOST]));
+      await assertFails(roomRef(GUEST, 'playerOrder').set([GUEST]));
+    });
+
+    it('rejects a guest taking over the current turn slot', async () => {
+      await seed(`rooms/${ROOM}/playerOrder`, [HOST, GUEST]);
+      await assertFails(roomRef(GUEST, 'playerOrder/0').set(GUEST));
+      await assertFails(roomRef(GUEST, 'playerOrder').set([GUEST, GUEST, GUEST]));
+    });
+
+    it('lets the host and the referee rewrite the order', async () => {
+      await seed(`rooms/${ROOM}/playerOrder`, [HOST, GUEST]);
+      await assertSucceeds(roomRef(HOST, 'playerOrder').set([GUEST, HOST]));
+      await assertSucceeds(refereeDb().ref(`rooms/${ROOM}/playerOrder`).set([HOST]));
+    });
+  });
+
+  describe('password and private rooms', () => {
+    beforeEach(async () => {
+      await seed(`rooms/${ROOM}`, { ...waitingRoom(), hasPassword: true });
+      await seed(`roomSecrets/${ROOM}`, { passwordHash: PASSWORD_HASH });
+    });
+
+    it('creates the room, its secret and its list entry in one write', async () => {
+      await env.clearDatabase();
+      await assertSucceeds(db(HOST).ref().update({
+        [`rooms/${ROOM}`]: { ...waitingRoom(), hasPassword: true },
+        [`roomSecrets/${ROOM}`]: { passwordHash: PASSWORD_HASH },
+        [`roomIndex/${ROOM}`]: true,
+      }));
+    });
+
+    it('hides the password hash and the full room list', async () => {
+      await assertFails(db(GUEST).ref(`roomSecrets/${ROOM}`).get());
+      await assertFails(db(GUEST).ref('rooms').get());
+      await assertSucceeds(db(GUEST).ref(`rooms/${ROOM}`).get());
+      await assertSucceeds(db(GUEST).ref('roomIndex').get());
+    });
+
+    it('rejects joining or watching without a matching join proof', async () => {
+      await assertFails(roomRef(GUEST, `players/${GUEST}`).set(player(GUEST, false)));
+      await assertFails(db(GUEST).ref(`roomJoinProofs/${ROOM}/${GUEST}`).set('b'.repeat(64)));
+      await assertFails(roomRef(GUEST, `spectators/${GUEST}`).set({ id: GUEST, name: GUEST, joinedAt: Date.now() }));
+    });
+
+    it('lets a player join after proving the password', async () => {
+      await assertSucceeds(db(GUEST).ref(`roomJoinProofs/${ROOM}/${GUEST}`).set(PASSWORD_HASH));
+      await assertSucceeds(roomRef(GUEST, `players/${GUEST}`).set(player(GUEST, false)));
+    });
+
+    it('keeps private rooms out of the room list', async () => {
+      await seed(`rooms/${ROOM}/isPrivate`, true);
+      await assertFails(db(HOST).ref(`roomIndex/${ROOM}`).set(true));
+    });
+  });
+
+  describe('ready', () => {
+    beforeEach(() => seedTwoPlayerRoom());
+
+    it('lets a player toggle their own ready flag', async () => {
+      await assertSucceeds(roomRef(GUEST, `players/${GUEST}/isReady`).set(true));
+    });
+
+    it('lets the host reset a guest\'s ready flag', async () => {
+      await assertSucceeds(roomRef(HOST, `players/${GUEST}/isReady`).set(false));
+    });
+
+    it('rejects a guest setting another player\'s ready flag', async () => {
+      await assertFails(roomRef(GUEST, `players/${HOST}/isReady`).set(true));
+    });
+  });
+
+  describe('drop and turn', () => {
+    beforeEach(() => seedTwoPlayerRoom('playing'));
+
+    const dropRequest = (playerId: string) => ({
+      id: 'req1',
+      playerId,
+      turnNumber: 0,
+      x: 200,
+      size: 1,
+      velocityX: 0,
+      velocityY: -10,
+    });
+
+    it('lets a seated player post their own drop request', async () => {
+      await assertSucceeds(roomRef(GUEST, 'dropRequest').set(dropRequest(GUEST)));
+    });
+
+    it('rejects a drop request on behalf of another player', async () => {
+      await assertFails(roomRef(GUEST, 'dropRequest').set(dropRequest(HOST)));
+    });
+
+    it('lets the host advance the turn once', async () => {
+      await assertSucceeds(roomRef(HOST).update({ advancedTurn: 0, turnNumber: 1, currentPlayerIndex: 1 }));
+      await assertFails(roomRef(HOST, 'advancedTurn').set(0));
+    });
+
+    it('rejects a guest advancing the turn', async () => {
+      await assertFails(roomRef(GUEST).update({ advancedTurn: 0, turnNumber: 1 }));
+    });
+  });
+
+  describe('host handover', () => {
+    beforeEach(() => seedTwoPlayerRoom('playing'));
+
+    it('rejects a guest making themself host while the host is connected', async () => {
+      await assertFails(roomRef(GUEST, `players/${GUEST}/isHost`).set(true));
+      await assertFails(roomRef(GUEST).update({ hostId: GUEST, [`players/${GUEST}/isHost`]: true }));
+    });
+
+    it('lets a guest take over once the host is disconnected', async () => {
+      await assertSucceeds(roomRef(HOST, `players/${HOST}/connected`).set(false));
+      // hostId 없이 isHost만 쓰면 거부
+      await assertFails(roomRef(GUEST, `players/${GUEST}/isHost`).set(true));
+      await assertSucceeds(roomRef(GUEST).update({ hostId: GUEST, [`players/${GUEST}/isHost`]: true }));
+    });
+
+    it('lets a guest take over once the host has left', async () => {
+      await assertSucceeds(roomRef(HOST, `players/${HOST}`).remove());
+      await assertSucceeds(roomRef(GUEST).update({ hostId: GUEST, [`players/${GUEST}/isHost`]: true }));
+    });
+
+    it('lets a returning host step down', async () => {
+      await assertSucceeds(roomRef(HOST, `players/${HOST}/isHost`).set(false));
+    });
+  });
+
+  describe('leave', () => {
+    beforeEach(() => seedTwoPlayerRoom());
+
+    it('lets a player remove their own seat', async () => {
+      await assertSucceeds(roomRef(GUEST, `players/${GUEST}`).remove());
+    });
+
+    it('lets the host remove another seat', async () => {
+      await assertSucceeds(roomRef(HOST, `players/${GUEST}`).remove());
+    });
+
+    it('rejects a guest removing another seat', async () => {
+      await assertFails(roomRef(GUEST, `players/${HOST}`).remove());
+    });
+  });
+
+  describe('host-only fields', () => {
+    beforeEach(() => seedTwoPlayerRoom('playing'));
+
+    it('rejects a guest writing isHost on another player', async () => {
+      await assertFails(roomRef(GUEST, `players/${HOST}/isHost`).set(false));
+    });
+
+    it('rejects a guest writing fruits', async () => {
+      await assertFails(roomRef(GUEST, 'fruits/f1').set({ id: 'f1', size: 9, isDropped: true, ownerId: GUEST, q: '0,0,0,0,0,0,0' }));
+    });
+
+    it('rejects a guest writing their own score', async () => {
+      await assertFails(roomRef(GUEST, `players/${GUEST}/score`).set(1000));
+    });
+
+    it('lets the host and the referee write scores', async () => {
+      await assertSucceeds(roomRef(HOST, `players/${GUEST}/score`).set(10));
+      await assertSucceeds(refereeDb().ref(`rooms/${ROOM}/players/${GUEST}/score`).set(20));
+    });
+
+    it('only lets the game counter go up by one', async () => {
+      await assertSucceeds(roomRef(HOST, 'gameSeq').set(1));
+      await assertFails(roomRef(HOST, 'gameSeq').set(3));
+      await assertFails(roomRef(GUEST, 'gameSeq').set(2));
+      await assertSucceeds(roomRef(HOST, 'gameSeq').set(2));
+    });
+  });
+
+  describe('leaderboard', () => {
+    const GAME_SEQ = 3;
+    const entryId = `${ROOM}_${GAME_SEQ}`;
+    const entry = (id = entryId) => ({
+      id,
+      roomId: ROOM,
+      finalScore: 150,
+      partyScore: 100,
+      multiplier: 1.5,
+      playerCount: 2,
+      playerNames: [HOST, GUEST],
+      maxFruitSize: 5,
+      week: '2026-W42',
+      submittedBy: 'referee',
+      submittedAt: Date.now(),
+    });
+
+    beforeEach(async () => {
+      await seedTwoPlayerRoom('ended');
+      await seed(`rooms/${ROOM}/gameSeq`, GAME_SEQ);
+      await seed(`rooms/${ROOM}/partyScore`, 100);
+    });
+
+    it('lets the referee record a game once under its game key', async () => {
+      await assertSucceeds(refereeDb().ref().update({
+        [`leaderboard/${entryId}`]: entry(),
+        [`leaderboardWeekly/2026-W42/${entryId}`]: entry(),
+        [`leaderboardParty/2/${entryId}`]: entry(),
+      }));
+      await assertFails(refereeDb().ref(`leaderboard/${entryId}`).set({ ...entry(), finalScore: 200 }));
+    });
+
+    it('rejects entries written by the host', async () => {
+      await assertFails(db(HOST).ref(`leaderboard/${entryId}`).set({ ...entry(), submittedBy: HOST }));
+    });
+
+    it('rejects an entry key other than the room\'s current game', async () => {
+      const stale = `${ROOM}_${GAME_SEQ - 1}`;
+      await assertFails(refereeDb().ref(`leaderboard/${stale}`).set(entry(stale)));
+      const padded = `${ROOM}_${GAME_SEQ}x`;
+      await assertFails(refereeDb().ref(`leaderboard/${padded}`).set(entry(padded)));
+    });
+
+    it('rejects a final score above the largest multiplier', async () => {
+      await assertFails(refereeDb().ref(`leaderboard/${entryId}`).set({ ...entry(), finalScore: 201 }));
+    });
+  });
+
+  // 실제 NetworkManager 흐름을 FirebaseTransport로 에뮬레이터에 실행 (규칙이 정상 흐름을 막지 않는지)
+  describe('NetworkManager flows', () => {
+    const clients: Array<{ app: FirebaseApp; network: NetworkManager }> = [];
+
+    // mockUserToken이 auth.uid를 정함 (인증 에뮬레이터 불필요), 같은 uid로 다시 접속하면 새로고침한 탭
+    function connectAs(uid: string): NetworkManager {
+      const app = initializeApp(
+        { apiKey: 'demo-key', projectId: PROJECT_ID, databaseURL: `https://${PROJECT_ID}.firebaseio.com` },
+        `${uid}-${clients.length}`
+      );
+      const database = getDatabase(app);
+      const [host, port] = EMULATOR_HOST.split(':');
+      connectDatabaseEmulator(database, host, Number(port), { mockUserToken: { user_id: uid } });
+
+      const network = new NetworkManager(uid, new FirebaseTransport(database, getAuth(app)), uid);
+      clients.push({ app, network });
+      return network;
+    }
+
+    async function read<T>(path: string): Promise<T | null> {
+      let value: T | null = null;
+      await env.withSecurityRulesDisabled(async (context) => {
+        value = (await context.database().ref(path).get()).val();
+      });
+      return value;
+    }
+
+    async function createTwoPlayerRoom(): Promise<{ host: NetworkManager; guest: NetworkManager; roomId: string }> {
+      const host = connectAs(HOST);
+      const roomId = await host.createRoom();
+      const guest = connectAs(GUEST);
+      await guest.joinRoom(roomId);
+      return { host, guest, roomId };
+    }
+
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(async () => {
+      // 하트비트, 구독, 끊김 예약을 정리한 뒤 연결 종료
+      for (const { app, network } of clients.splice(0)) {
+        await network.leaveRoom().catch(() => {});
+        await deleteApp(app);
+      }
+      vi.restoreAllMocks();
+    });
+
+    it('creates a room and seats a guest through the order transaction', async () => {
+      const { roomId } = await createTwoPlayerRoom();
+
+      expect(await read(`rooms/${roomId}/playerOrder`)).toEqual([HOST, GUEST]);
+      expect(await read(`rooms/${roomId}/players/${GUEST}/isHost`)).toBe(false);
+      expect(await read(`roomIndex/${roomId}`)).toBe(true);
+    });
+
+    it('rejoins a seated player without touching the order', async () => {
+      const { roomId } = await createTwoPlayerRoom();
+
+      await connectAs(GUEST).joinRoom(roomId);
+
+      expect(await read(`rooms/${roomId}/playerOrder`)).toEqual([HOST, GUEST]);
+    });
+
+    it('lets only the host advance the turn, once per turn', async () => {
+      const { host, guest, roomId } = await createTwoPlayerRoom();
+      await host.startGame(SEED);
+
+      await expect(guest.nextTurn(0, 1)).rejects.toThrow();
+      expect(await host.nextTurn(0, 1)).toBe(true);
+      expect(await host.nextTurn(0, 1)).toBe(false);
+
+      expect(await read(`rooms/${roomId}/turnNumber`)).toBe(1);
+      expect(await read(`rooms/${roomId}/currentPlayerIndex`)).toBe(1);
+    });
+
+    it('drops a guest who left on their turn and hands the turn on', async () => {
+      const { host, guest, roomId } = await createTwoPlayerRoom();
+      await host.startGame(SEED);
+      await host.nextTurn(0, 1);
+
+      await guest.leaveRoom();
+      await vi.waitFor(() => expect(host.room?.players[GUEST]).toBeUndefined());
+      await host.cleanupDisconnectedPlayers();
+
+      expect(await read(`rooms/${roomId}/playerOrder`)).toEqual([HOST]);
+      expect(await read(`rooms/${roomId}/currentPlayerIndex`)).toBe(0);
+      expect(await read(`rooms/${roomId}/turnNumber`)).toBe(2);
+    });
+
+    it('promotes the remaining player only after the host has left', async () => {
+      const { host, guest, roomId } = await createTwoPlayerRoom();
+      await vi.waitFor(() => expect(guest.room?.players[HOST]).toBeDefined());
+
+      await expect(guest.promoteToHost()).rejects.toThrow();
+
+      await host.leaveRoom();
+      await vi.waitFor(() => expect(guest.shouldBecomeHost()).toBe(true));
+      await guest.promoteToHost();
+      await vi.waitFor(() => expect(guest.isHost()).toBe(true));
+      await guest.cleanupDisconnectedPlayers();
+
+      expect(await read(`rooms/${roomId}/hostId`)).toBe(GUEST);
+      expect(await read(`rooms/${roomId}/playerOrder`)).toEqual([GUEST]);
+    });
+  });
+});
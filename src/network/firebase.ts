@@ -1,5 +1,6 @@
 import { initializeApp } from 'firebase/app';
-import { getDatabase } from 'firebase/database';
+import { getDatabase, connectDatabaseEmulator } from 'firebase/database';
+import { getAuth, connectAuthEmulator } from 'firebase/auth';
 
 // Firebase 설정 - 실제 프로젝트 생성 후 값 교체 필요
 const firebaseConfig = {
@@ -14,3 +15,19 @@ const firebaseConfig = {
 
 export const app = initializeApp(firebaseConfig);
 export const database = getDatabase(app);
+export const auth = getAuth(app);
+
+const AUTH_EMULATOR_PORT = 9099;
+
+// 로컬 에뮬레이터 연결 ('127.0.0.1:9000' 형식, 첫 읽기/쓰기 전에만 호출 가능)
+// 인증 에뮬레이터는 같은 호스트의 9099 포트
+export function connectEmulator(hostAndPort: string): void {
+  const [host, port] = hostAndPort.split(':');
+  connectDatabaseEmulator(database, host, Number(port) || 9000);
+  connectAuthEmulator(auth, `http://${host}:${AUTH_EMULATOR_PORT}`, { disableWarnings: true });
+  console.log(`[Firebase] 에뮬레이터 연결: ${host}:${Number(port) || 9000}`);
+}
+
+if (import.meta.env.VITE_FIREBASE_EMULATOR_HOST) {
+  connectEmulator(import.meta.env.VITE_FIREBASE_EMULATOR_HOST);
+}
@@ -1,4 +1,8 @@
-export { NetworkManager } from './NetworkManager';
+export { NetworkManager, MAX_PLAYERS } from './NetworkManager';
 export { GameSync } from './GameSync';
-export type { RoomState, RoomPlayer, FruitState, GameAction } from './types';
+export { FirebaseTransport } from './FirebaseTransport';
+export { MemoryStore, MemoryTransport } from './MemoryTransport';
+export { createRoomTransport } from './createTransport';
+export type { RoomState, RoomPlayer, RoomSpectator, FruitState, GameAction, GameActionType, LeaderboardEntry, LeaderboardBoard } from './types';
 export type { GameSyncEvent } from './GameSync';
+export type { RoomTransport } from './RoomTransport';
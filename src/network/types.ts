@@ -1,9 +1,32 @@
+import type { SimulationSnapshot } from '../game/GameSimulation';
+
+// snapshot: 호스트만 물리 실행, 과일 위치를 주기적으로 전송 (기본)
+// lockstep: 모든 클라이언트가 같은 입력으로 물리 실행, 입력과 턴 경계만 전송
+export type SyncMode = 'snapshot' | 'lockstep';
+
 export interface RoomPlayer {
   id: string;
   name: string;
   score: number;
   isReady: boolean;
   isHost: boolean;
+  connected?: boolean; // false면 연결 끊김 (유예 시간 동안 자리 유지), 없으면 연결된 것으로 취급
+  joinedTurn?: number; // 중간 참가한 턴 (없으면 처음부터 참가)
+  lastSeen?: number;   // 마지막 하트비트 시각
+}
+
+// 관전자 (playerOrder에 들어가지 않고 방 상태만 구독)
+export interface RoomSpectator {
+  id: string;
+  name: string;
+  joinedAt: number;
+}
+
+// 빠른 매칭 대기열 (matchQueue/{id}), 방을 찾으면 삭제
+export interface MatchQueueEntry {
+  id: string;
+  name: string;
+  since: number;
 }
 
 export interface FruitState {
@@ -13,11 +36,20 @@ export interface FruitState {
   size: number;
   isDropped: boolean;
   ownerId: string; // 생성/마지막 합성한 플레이어 ID
+  frame?: number;  // 호스트 시뮬레이션 프레임 (보간용, 없으면 위치 그대로 표시)
+  vx?: number;     // 프레임당 속도 (패킷이 늦을 때 외삽용)
+  vy?: number;
+  angle?: number;           // 회전 (rad)
+  angularVelocity?: number; // 프레임당 회전 (rad)
 }
 
+// 호스트 → 서버 과일 위치 동기화 데이터
+export type FruitSyncData = Omit<FruitState, 'id' | 'isDropped'>;
+
 export interface DropRequest {
   id: string;
   playerId: string;
+  turnNumber?: number; // 요청한 턴 (심판이 지난 턴 요청 거부)
   x: number;
   size: number;
   velocityX: number;
@@ -25,30 +57,132 @@ export interface DropRequest {
   timestamp: number;
 }
 
+// 락스텝 발사 입력 (턴 번호당 하나)
+export interface LockstepInput {
+  turnNumber: number;
+  playerId: string;
+  x: number;
+  size: number;
+  velocityX: number;
+  velocityY: number;
+}
+
+// 턴 종료 시점의 상태 해시 (플레이어별 최신 값만 유지)
+export interface StateHashReport {
+  turnNumber: number;
+  hash: string;
+}
+
+// 호스트가 배포하는 재동기화 스냅샷
+export interface LockstepResync {
+  id: string;
+  turnNumber: number;
+  hash: string;
+  snapshot: SimulationSnapshot;
+}
+
+// 호스트가 주기적으로 저장하는 물리 월드 전체 (호스트 인계용)
+export interface HostCheckpoint {
+  hostId: string;
+  frame: number;
+  savedAt: number;
+  snapshot: SimulationSnapshot;
+}
+
+// 방을 맡은 심판 프로세스 (있으면 물리/점수/턴 진행은 심판이 담당)
+export interface RefereeInfo {
+  id: string;
+  since: number;
+}
+
+// 심판이 거부한 마지막 드롭 요청
+export interface DropRejection {
+  requestId: string;
+  playerId: string;
+  reason: string;
+  at: number;
+}
+
 export interface RoomState {
   id: string;
   status: 'waiting' | 'playing' | 'ended';
   players: Record<string, RoomPlayer>;
+  hostId?: string;    // 호스트 자리의 주인 (보안 규칙: 이 플레이어가 나갔거나 끊겨야 다른 플레이어가 isHost를 가져갈 수 있음)
+  spectators?: Record<string, RoomSpectator>;
   playerOrder: string[];
   currentPlayerIndex: number;
-  turnStartTime: number;
+  turnStartTime: number;  // 서버 타임스탬프 (비교는 serverNow 기준)
   partyScore: number;
   maxFruitSize: number;
+  seed: number;       // 게임 시드 (과일 큐, ID, 연출 난수의 근원)
+  turnNumber: number; // 게임 시작 후 진행된 턴 수 (턴별 과일 크기 결정에 사용)
+  gameSeq?: number;   // 이 방에서 시작한 게임 수 (startGame마다 1 증가, 리더보드 항목 ID에 사용)
+  advancedTurn?: number | null; // 마지막으로 넘어간 턴 번호 (claimTurnAdvance, 턴 중복 진행 방지)
   fruits: Record<string, FruitState>;
   currentFruit: {
     size: number;
     x: number;
   } | null;
   dropRequest?: DropRequest | null;
+  code?: string;                                 // 짧은 입장 코드 (roomCodes/{code} → 방 ID)
+  isPrivate?: boolean;                           // 방 목록에 표시하지 않음 (코드/초대 링크로만 입장)
+  hasPassword?: boolean;                         // 입장/관전에 비밀번호 필요 (해시는 roomSecrets/{방}에 따로 저장)
+  quickMatch?: boolean;                          // 빠른 매칭 방 (최소 인원이 모이면 자동 시작)
+  autoStartAt?: number | null;                   // 빠른 매칭: 자동 시작 시각 (방장이 기록)
+  syncMode?: SyncMode;                           // 없으면 'snapshot'
+  allowLateJoin?: boolean;                       // 게임 중 참가 허용 (다음 턴부터 참가)
+  inputs?: Record<string, LockstepInput>;        // 락스텝: `t{턴 번호}` → 발사 입력
+  stateHashes?: Record<string, StateHashReport>; // 락스텝: 플레이어 ID → 최근 상태 해시
+  resync?: LockstepResync | null;                // 락스텝: 재동기화 스냅샷
+  checkpoint?: HostCheckpoint | null;            // 스냅샷 모드: 호스트 인계용 월드 체크포인트
+  referee?: RefereeInfo | null;                  // 심판 프로세스 (없으면 호스트가 권위자)
+  lastRejection?: DropRejection | null;          // 심판이 거부한 마지막 드롭
   createdAt: number;
+  lastActivity?: number; // 마지막 하트비트 시각 (TTL 기준, 없으면 createdAt)
 }
 
+// 방 비밀번호 (roomSecrets/{방}, 읽기 규칙 없음 → 입장 증명 검사에만 사용)
+export interface RoomSecret {
+  passwordHash: string; // hashRoomPassword
+}
+
+// 방 이벤트 로그 항목 (roomActions/{roomId}/{actionKey(seq)}, 추가만 가능)
+// data 내용:
+// - join: { name, joinedTurn? }           leave: { reason: 'left' | 'timeout' }
+// - game_start: { seed, gameSeq }         game_over: { partyScore, frame? }
+// - turn: { turnNumber, fruitSize }       (playerId = 새 턴 플레이어)
+// - drop: { fruitId, frame, x, y, size, velocityX, velocityY } (launchActionData, 권위자가 시뮬레이션 발사 시 기록)
+// - merge: { frame, removedIds, newFruitId, x, y, size, scoreGain, combo, exploded, bankShot, overLineFrames } (mergeActionData)
+// - score: { score, partyScore }
+export type GameActionType = 'join' | 'leave' | 'game_start' | 'turn' | 'drop' | 'merge' | 'score' | 'game_over';
+
 export interface GameAction {
-  type: 'move' | 'drop' | 'merge' | 'game_over';
-  playerId: string;
-  timestamp: number;
+  seq: number;       // 방 안에서 1부터 빈틈없이 증가하는 순번
+  type: GameActionType;
+  playerId: string;  // 행동한 (또는 대상) 플레이어, 심판/호스트가 쓴 항목도 해당 플레이어 기준
+  timestamp: number; // 서버 타임스탬프
   data: Record<string, unknown>;
 }
 
 export type RoomEventCallback = (room: RoomState) => void;
 export type ActionEventCallback = (action: GameAction) => void;
+
+// 리더보드 항목 (leaderboard/{id}, leaderboardWeekly/{주}/{id}, leaderboardParty/{인원}/{id}에 같은 값)
+export interface LeaderboardEntry {
+  id: string;             // `${방 ID}_${gameSeq}` (게임당 하나, 한 번만 쓰기)
+  roomId: string;
+  finalScore: number;     // partyScore × 인원 배율
+  partyScore: number;
+  multiplier: number;
+  playerCount: number;    // 실제로 발사한 인원 (인원별 보드 기준)
+  playerNames: string[];  // 발사한 플레이어, 점수 순
+  maxFruitSize: number;
+  week: string;           // ISO 주 (예: 2026-W42)
+  submittedBy: string;    // 기록한 심판 ID
+  submittedAt: number;    // 서버 타임스탬프
+}
+
+export type LeaderboardBoard =
+  | { kind: 'all' }
+  | { kind: 'weekly'; week: string }
+  | { kind: 'party'; playerCount: number };
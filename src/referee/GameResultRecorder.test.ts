@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStore, MemoryTransport } from '../network/MemoryTransport';
+import { actionKey, actionLogPath, launchActionData, mergeActionData } from '../network/ActionLog';
+import type { GameAction, GameActionType, LeaderboardEntry, RoomPlayer, RoomState } from '../network/types';
+import { GameSimulation } from '../game/GameSimulation';
+import { SeededRandom, deriveSeed } from '../core/Random';
+import { getPlayerMultiplier } from '../core/Score';
+import { recordGameResult, verifyGameResult } from './GameResultRecorder';
+
+const SEED = 1234;
+const ROOM_ID = 'room1';
+const GAME_SEQ = 3;
+const LAUNCHES = 24;
+
+interface ScriptedGame {
+  actions: GameAction[];
+  partyScore: number;
+  scores: Record<string, number>;
+}
+
+// 호스트처럼 시뮬레이션하며 이벤트 로그 기록 (p1, p2가 번갈아 60프레임마다 발사)
+function playGame(): ScriptedGame {
+  const actions: GameAction[] = [];
+  const log = (type: GameActionType, playerId: string, data: Record<string, unknown>) => {
+    actions.push({ seq: actions.length + 1, type, playerId, timestamp: 1000 + actions.length, data });
+  };
+
+  log('join', 'p1', { name: 'Alice' });
+  log('join', 'p2', { name: 'Bob' });
+  log('game_start', 'p1', { seed: SEED, gameSeq: GAME_SEQ });
+
+  const simulation = new GameSimulation({ rng: new SeededRandom(deriveSeed(SEED, 'ids', 'p1')) });
+  const rng = new SeededRandom(7);
+  for (let turn = 0; turn < LAUNCHES; turn++) {
+    const playerId = turn % 2 === 0 ? 'p1' : 'p2';
+    simulation.launch({
+      playerId,
+      x: 60 + rng.nextInt(280),
+      velocity: { x: rng.next() * 4 - 2, y: -10 },
+      size: 1 + rng.nextInt(3),
+    });
+    for (let i = 0; i < 60; i++) {
+      for (const event of [...simulation.drainEvents(), ...simulation.step()]) {
+        if (event.type === 'launch') {
+          log('drop', event.input.playerId, launchActionData(event.frame, event.fruitId, event.input));
+        } else if (event.type === 'merge') {
+          const { playerId: owner, data } = mergeActionData(event.merge);
+          log('merge', owner, data);
+          log('score', owner, { score: simulation.scores[owner], partyScore: simulation.partyScore });
+        }
+      }
+    }
+    log('turn', turn % 2 === 0 ? 'p2' : 'p1', { turnNumber: turn + 1, fruitSize: 1 });
+  }
+  log('game_over', 'p1', { partyScore: simulation.partyScore, frame: simulation.frame });
+
+  const result = { actions, partyScore: simulation.partyScore, scores: { ...simulation.scores } };
+  simulation.destroy();
+  return result;
+}
+
+function player(id: string, name: string, score: number): RoomPlayer {
+  return { id, name, score, isReady: false, isHost: id === 'p1', connected: true };
+}
+
+function endedRoom(game: ScriptedGame): RoomState {
+  return {
+    id: ROOM_ID,
+    status: 'ended',
+    gameSeq: GAME_SEQ,
+    // p3는 게임이 끝날 때 자리에 있었지만 발사하지 않음
+    players: {
+      p1: player('p1', 'Alice', game.scores.p1 ?? 0),
+      p2: player('p2', 'Bob', game.scores.p2 ?? 0),
+      p3: player('p3', 'Carol', 0),
+    },
+    playerOrder: ['p1', 'p2', 'p3'],
+    currentPlayerIndex: 0,
+    turnStartTime: 0,
+    partyScore: game.partyScore,
+    maxFruitSize: 1,
+    seed: SEED,
+    turnNumber: LAUNCHES,
+    fruits: {},
+    currentFruit: null,
+    createdAt: 0,
+  };
+}
+
+describe('verifyGameResult', () => {
+  const game = playGame();
+
+  it('re-simulates the logged launches and scores only the players who launched', () => {
+    const result = verifyGameResult(endedRoom(game), game.actions);
+
+    expect(game.partyScore).toBeGreaterThan(0);
+    expect(result.id).toBe(`${ROOM_ID}_${GAME_SEQ}`);
+    expect(result.partyScore).toBe(game.partyScore);
+    expect(result.playerCount).toBe(2);
+    expect(result.multiplier).toBe(getPlayerMultiplier(2));
+    expect(result.finalScore).toBe(Math.floor(game.partyScore * getPlayerMultiplier(2)));
+    expect([...result.playerNames].sort()).toEqual(['Alice', 'Bob']);
+  });
+
+  it('rejects a party score the launches do not reproduce', () => {
+    const room = { ...endedRoom(game), partyScore: game.partyScore + 10 };
+    expect(() => verifyGameResult(room, game.actions)).toThrow('Party score does not match the recorded game');
+  });
+
+  it('rejects a log that belongs to a different game', () => {
+    const room = { ...endedRoom(game), gameSeq: GAME_SEQ + 1 };
+    expect(() => verifyGameResult(room, game.actions)).toThrow('No recorded game');
+  });
+
+  it('rejects a game that has not ended', () => {
+    const room: RoomState = { ...endedRoom(game), status: 'playing' };
+    expect(() => verifyGameResult(room, game.actions)).toThrow('Game is not finished');
+  });
+});
+
+describe('recordGameResult', () => {
+  let store: MemoryStore;
+  let transport: MemoryTransport;
+  const game = playGame();
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    store = new MemoryStore();
+    transport = new MemoryTransport(store);
+    for (const action of game.actions) {
+      store.write(`${actionLogPath(ROOM_ID)}/${actionKey(action.seq)}`, action);
+    }
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('writes the verified entry to all three boards under the game key', async () => {
+    const entry = await recordGameResult(transport, endedRoom(game), 'referee');
+
+    expect(entry).not.toBeNull();
+    const id = `${ROOM_ID}_${GAME_SEQ}`;
+    const paths = ['leaderboard', `leaderboardWeekly/${entry!.week}`, 'leaderboardParty/2'];
+    for (const path of paths) {
+      const stored = store.read(`${path}/${id}`) as LeaderboardEntry;
+      expect(stored.finalScore, path).toBe(entry!.finalScore);
+      expect(stored.submittedBy, path).toBe('referee');
+    }
+  });
+
+  it('writes nothing when verification fails', async () => {
+    const entry = await recordGameResult(transport, { ...endedRoom(game), partyScore: 1 }, 'referee');
+
+    expect(entry).toBeNull();
+    expect(store.read('leaderboard') ?? null).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+import { serverNow, type RoomTransport } from '../network/RoomTransport';
+import type { GameAction, LeaderboardEntry, RoomState } from '../network/types';
+import { readFinishedGameActions } from '../network/ActionLog';
+import { entryBoards, getWeekKey, leaderboardEntryId, leaderboardPath } from '../network/Leaderboard';
+import { buildReplay } from '../game/Replay';
+import { ReplayPlayback } from '../game/ReplayPlayback';
+import { getFinalScore } from '../core/Score';
+
+export type VerifiedResult = Omit<LeaderboardEntry, 'week' | 'submittedBy' | 'submittedAt'>;
+
+// 끝난 게임을 이벤트 로그의 발사 기록만으로 처음부터 다시 시뮬레이션해 결과 계산 (기록과 다르면 Error)
+// - 다시 시뮬레이션한 파티 점수가 방의 partyScore와 같아야 함 (합성/콤보/점수는 시뮬레이션이 다시 판정)
+// - 최종 점수는 게임오버 화면과 같은 식(getFinalScore)이지만, 인원은 실제로 발사한 플레이어만 셈
+//   (게임 끝에 방에 남아 있던 인원이 아님 → 마지막에 들어온 관전자/플레이어로 배율을 올릴 수 없음)
+export function verifyGameResult(room: RoomState, actions: GameAction[]): VerifiedResult {
+  if (room.status !== 'ended' || !room.gameSeq) {
+    throw new Error('Game is not finished');
+  }
+
+  const startIndex = actions.map((action) => action.type).lastIndexOf('game_start');
+  const start = actions[startIndex];
+  const replay = buildReplay(room, actions);
+  if (!start || start.data.gameSeq !== room.gameSeq || !replay || replay.endedAt === null) {
+    throw new Error('No recorded game');
+  }
+
+  const playback = new ReplayPlayback(replay);
+  let partyScore: number;
+  let scores: Record<string, number>;
+  let maxFruitSize: number;
+  try {
+    playback.seek(replay.endFrame);
+    partyScore = playback.world.partyScore;
+    scores = playback.world.scores;
+    maxFruitSize = playback.world.maxFruitSize;
+  } finally {
+    playback.destroy();
+  }
+
+  if (partyScore !== room.partyScore) {
+    throw new Error('Party score does not match the recorded game');
+  }
+
+  // 중간 참가자는 입장 기록의 joinedTurn부터 셈
+  const joinedTurns = new Map<string, number>();
+  for (const action of actions.slice(startIndex + 1)) {
+    if (action.type === 'join' && typeof action.data.joinedTurn === 'number') {
+      joinedTurns.set(action.playerId, action.data.joinedTurn);
+    }
+  }
+  const launcherIds = new Set(replay.launches.map((launch) => launch.playerId));
+  const players = replay.players
+    .filter((player) => launcherIds.has(player.id))
+    .map((player) => ({ ...player, score: scores[player.id] ?? 0, joinedTurn: joinedTurns.get(player.id) }))
+    .sort((a, b) => b.score - a.score);
+  const { multiplier, finalScore } = getFinalScore(partyScore, players, room.turnNumber || 0);
+
+  return {
+    id: leaderboardEntryId(room.id, room.gameSeq),
+    roomId: room.id,
+    finalScore,
+    partyScore,
+    multiplier,
+    playerCount: players.length,
+    playerNames: players.map((player) => player.name),
+    maxFruitSize,
+  };
+}
+
+// 심판 전용: 끝난 게임을 세 보드에 한 번에 등록 (게임당 한 번, 검증에 실패하면 등록하지 않고 null)
+// room은 'ended'를 본 시점의 방 상태 (그사이 대기방으로 돌아가 점수가 초기화돼도 그 게임 기준으로 검증)
+export async function recordGameResult(
+  transport: RoomTransport,
+  room: RoomState,
+  refereeId: string
+): Promise<LeaderboardEntry | null> {
+  let result: VerifiedResult;
+  try {
+    result = verifyGameResult(room, await readFinishedGameActions(transport, room.id));
+  } catch (error) {
+    console.warn(`[Leaderboard] 등록 거부 (${room.id}):`, (error as Error).message);
+    return null;
+  }
+
+  const now = serverNow(transport);
+  const entry: LeaderboardEntry = { ...result, week: getWeekKey(now), submittedBy: refereeId, submittedAt: now };
+  const updates: Record<string, unknown> = {};
+  for (const board of entryBoards(entry)) {
+    updates[`${leaderboardPath(board)}/${entry.id}`] = { ...entry, submittedAt: transport.serverTimestamp() };
+  }
+  await transport.update('', updates);
+  console.log('[Leaderboard] 등록:', entry.id, entry.finalScore);
+  return entry;
+}
@@ -0,0 +1,94 @@
+import type { RoomTransport, Unsubscribe } from '../network/RoomTransport';
+import type { RoomState } from '../network/types';
+import { isRoomAlive, sweepStaleRooms } from '../network/RoomGC';
+import { leaderboardEntryId } from '../network/Leaderboard';
+import { RoomReferee } from './RoomReferee';
+import { recordGameResult } from './GameResultRecorder';
+
+const SWEEP_INTERVAL_MS = 60000; // 버려진 방 정리 간격
+
+// 전체 방 목록을 구독하고 스냅샷 모드 방마다 심판을 붙였다 뗌
+// 다른 심판 프로세스가 이미 맡은 방은 건드리지 않음
+// 끝난 게임은 동기화 방식과 상관없이 리더보드에 등록 (여러 심판이 동시에 해도 규칙상 한 번만 기록됨)
+export class RefereeSupervisor {
+  private transport: RoomTransport;
+  private refereeId: string;
+  private unsubscribe: Unsubscribe | null = null;
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+  private referees = new Map<string, RoomReferee>();
+  private recordedGames = new Set<string>(); // 등록을 시도한 리더보드 항목 ID
+
+  constructor(transport: RoomTransport) {
+    this.transport = transport;
+    this.refereeId = `referee_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  }
+
+  get id(): string {
+    return this.refereeId;
+  }
+
+  start(): void {
+    // 방 목록만 필요하지만 RoomTransport는 경로 단위 구독만 지원
+    this.unsubscribe = this.transport.subscribe<Record<string, RoomState>>('rooms', (rooms) => {
+      this.handleRooms(rooms ?? {});
+    });
+    this.sweepTimer = setInterval(() => {
+      sweepStaleRooms(this.transport).catch((error) => console.warn('[Referee] 방 정리 실패:', error));
+    }, SWEEP_INTERVAL_MS);
+    console.log(`[Referee] 심판 시작: ${this.refereeId}`);
+  }
+
+  async stop(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.sweepTimer !== null) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+
+    const referees = Array.from(this.referees.values());
+    this.referees.clear();
+    await Promise.all(referees.map((referee) => referee.stop()));
+  }
+
+  private handleRooms(rooms: Record<string, RoomState>): void {
+    for (const [roomId, room] of Object.entries(rooms)) {
+      if (room.status === 'ended' && room.gameSeq) {
+        this.recordResult(room);
+      }
+
+      // 락스텝 방은 모든 클라이언트가 시뮬레이션하므로 심판 대상 아님, 버려진 방도 제외
+      const wanted = (room.syncMode ?? 'snapshot') === 'snapshot' && isRoomAlive(room);
+      const claimedByOther = !!room.referee && room.referee.id !== this.refereeId;
+      const referee = this.referees.get(roomId);
+
+      if (referee && (!wanted || claimedByOther)) {
+        this.referees.delete(roomId);
+        referee.stop(!claimedByOther);
+      } else if (!referee && wanted && !claimedByOther) {
+        const created = new RoomReferee(this.transport, roomId, this.refereeId);
+        this.referees.set(roomId, created);
+        created.start();
+      }
+    }
+
+    // 삭제된 방 (빈 방 정리 등)
+    for (const [roomId, referee] of this.referees) {
+      if (!rooms[roomId]) {
+        this.referees.delete(roomId);
+        referee.stop(false);
+      }
+    }
+  }
+
+  // 게임마다 한 번만 시도 (검증 실패도 다시 시도하지 않음)
+  private recordResult(room: RoomState): void {
+    const entryId = leaderboardEntryId(room.id, room.gameSeq!);
+    if (this.recordedGames.has(entryId)) return;
+    this.recordedGames.add(entryId);
+
+    recordGameResult(this.transport, room, this.refereeId).catch((error) => {
+      console.warn('[Referee] 리더보드 등록 실패:', entryId, error);
+    });
+  }
+}
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStore, MemoryTransport } from '../network/MemoryTransport';
+import { NetworkManager } from '../network/NetworkManager';
+import { actionLogPath } from '../network/ActionLog';
+import type { DropRejection, GameAction, RoomState } from '../network/types';
+import { RoomReferee } from './RoomReferee';
+
+const SEED = 1234;
+
+async function joinAs(store: MemoryStore, name: string): Promise<NetworkManager> {
+  const transport = new MemoryTransport(store);
+  return new NetworkManager(name, transport, await transport.signIn());
+}
+
+describe('RoomReferee', () => {
+  let store: MemoryStore;
+  let host: NetworkManager;
+  let guest: NetworkManager;
+  let referee: RoomReferee;
+  let roomId: string;
+
+  const room = () => store.read(`rooms/${roomId}`) as RoomState;
+  const rejection = () => room().lastRejection as DropRejection | undefined;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    store = new MemoryStore();
+    host = await joinAs(store, 'Host');
+    guest = await joinAs(store, 'Guest');
+    roomId = await host.createRoom();
+    await guest.joinRoom(roomId);
+
+    referee = new RoomReferee(new MemoryTransport(store), roomId, 'referee');
+    await referee.start();
+    await host.startGame(SEED);
+    await vi.waitFor(() => expect(host.room?.currentFruit).toBeTruthy());
+  });
+
+  afterEach(async () => {
+    await referee.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('accepts a valid drop, logs it and advances the turn', async () => {
+    const size = room().currentFruit!.size;
+    await host.requestDropWithVelocity(200, size, { x: 0, y: -10 });
+
+    await vi.waitFor(() => expect(room().turnNumber).toBe(1), { timeout: 3000 });
+
+    expect(room().dropRequest ?? null).toBeNull();
+    expect(room().playerOrder[room().currentPlayerIndex]).toBe(guest.id);
+    expect(Object.keys(room().fruits ?? {})).toHaveLength(1);
+    expect(rejection()).toBeUndefined();
+
+    const actions = Object.values(store.read(actionLogPath(roomId)) as Record<string, GameAction>);
+    expect(actions.some((action) => action.type === 'drop' && action.playerId === host.id)).toBe(true);
+    expect(actions.some((action) => action.type === 'turn' && action.playerId === guest.id)).toBe(true);
+  });
+
+  it('rejects a drop from a player whose turn it is not', async () => {
+    await guest.requestDropWithVelocity(200, room().currentFruit!.size, { x: 0, y: -10 });
+
+    await vi.waitFor(() => expect(rejection()?.reason).toBe('not_your_turn'));
+    expect(rejection()!.playerId).toBe(guest.id);
+    expect(room().turnNumber).toBe(0);
+    expect(room().fruits ?? {}).toEqual({});
+  });
+
+  it('rejects a drop with a different fruit size than the turn was dealt', async () => {
+    const size = room().currentFruit!.size;
+    await host.requestDropWithVelocity(200, size + 1, { x: 0, y: -10 });
+
+    await vi.waitFor(() => expect(rejection()?.reason).toBe('wrong_size'));
+    // 같은 턴을 다시 열어줌 (원래 크기로 복원)
+    expect(room().currentFruit?.size).toBe(size);
+    expect(room().fruits ?? {}).toEqual({});
+  });
+
+  it('rejects a launch faster than the maximum speed', async () => {
+    await host.requestDropWithVelocity(200, room().currentFruit!.size, { x: 0, y: -50 });
+
+    await vi.waitFor(() => expect(rejection()?.reason).toBe('too_fast'));
+    expect(room().turnNumber).toBe(0);
+    expect(room().fruits ?? {}).toEqual({});
+  });
+});
@@ -0,0 +1,443 @@
+import { serverNow, type RoomTransport, type Unsubscribe } from '../network/RoomTransport';
+import type { DropRequest, FruitSyncData, GameActionType, RoomState } from '../network/types';
+import { FruitDeltaEncoder, decodeRoomState, type EncodedRoomState } from '../network/FruitCodec';
+import {
+  GameSimulation,
+  type MergeEvent,
+  FRAME_MS,
+  WORLD_WIDTH,
+  MAX_LAUNCH_SPEED,
+} from '../game/GameSimulation';
+import { SeededRandom, deriveSeed } from '../core/Random';
+import { fruitSizeForTurn } from '../core/FruitQueue';
+import { claimTurnAdvance } from '../network/TurnClaim';
+import { ActionLog, launchActionData, mergeActionData } from '../network/ActionLog';
+import { getFruitData, SETTLE_FRAMES } from '../core/config';
+
+const SYNC_INTERVAL = 5;        // 과일 위치 동기화 간격 (프레임)
+const CHECKPOINT_INTERVAL = 60; // 월드 체크포인트 저장 간격 (프레임)
+const SPEED_TOLERANCE = 0.01;   // 클라이언트 부동소수 오차 허용
+const TURN_SKIP_MS = 15000;     // 드롭 요청 없이 이 시간이 지나면 턴 건너뜀 (턴 제한 10초 + 여유)
+
+// 방 하나를 맡는 심판: 드롭 요청 검증, 물리 시뮬레이션, 점수와 턴 진행을 클라이언트 대신 수행
+// 클라이언트와 같은 RoomTransport로 방을 구독하므로 Firebase(에뮬레이터 포함)와 인메모리 백엔드 모두에서 동작
+export class RoomReferee {
+  private transport: RoomTransport;
+  private roomId: string;
+  private refereeId: string;
+  private unsubscribe: Unsubscribe | null = null;
+  private actionLog: ActionLog | null = null;
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+
+  private room: RoomState | null = null;
+  private simulation: GameSimulation | null = null;
+  private fruitEncoder = new FruitDeltaEncoder();
+  private deletedFruitIds = new Set<string>();
+  private lastCheckpointHash: string | null = null;
+
+  // 현재 턴 (turnNumber가 바뀌면 과일 크기 다시 계산)
+  private turnNumber = -1;
+  private turnFruitSize = 1;
+  private launchedTurn: number | null = null; // 발사 후 다음 턴을 기다리는 턴
+  private settleFrames = 0;
+
+  // 심판이 맡기 전 점수 (체크포인트 없이 도중에 맡았을 때 기준값)
+  private baseScores: Record<string, number> = {};
+  private basePartyScore = 0;
+
+  constructor(transport: RoomTransport, roomId: string, refereeId: string) {
+    this.transport = transport;
+    this.roomId = roomId;
+    this.refereeId = refereeId;
+  }
+
+  async start(): Promise<void> {
+    const path = `rooms/${this.roomId}/referee`;
+    await this.transport.set(path, { id: this.refereeId, since: Date.now() });
+    await this.transport.onDisconnectRemove(path);
+
+    this.actionLog = new ActionLog(this.transport, this.roomId);
+    this.unsubscribe = this.transport.subscribe<EncodedRoomState>(`rooms/${this.roomId}`, (encoded) => {
+      if (encoded) {
+        this.handleRoomUpdate(decodeRoomState(encoded));
+      } else {
+        // 방 삭제됨 → 더 쓰지 않음 (쓰면 빈 방이 다시 생김)
+        this.room = null;
+        this.endSimulation();
+      }
+    });
+    this.tickTimer = setInterval(() => this.tick(), FRAME_MS);
+
+    console.log(`[Referee] 방 ${this.roomId} 담당 시작`);
+  }
+
+  // detach=true면 방에서 심판 표시 제거 (다음 update부터 호스트가 권위자)
+  async stop(detach = true): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.actionLog?.close();
+    this.actionLog = null;
+    if (this.tickTimer !== null) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+
+    // 호스트가 이어받을 수 있도록 마지막 상태 저장
+    if (detach && this.simulation && this.room?.status === 'playing') {
+      this.lastCheckpointHash = null;
+      await this.saveCheckpoint();
+    }
+    this.endSimulation();
+
+    const current = await this.transport.get<string>(`rooms/${this.roomId}/referee/id`);
+    if (detach && current === this.refereeId) {
+      await this.transport.remove(`rooms/${this.roomId}/referee`);
+    }
+
+    console.log(`[Referee] 방 ${this.roomId} 담당 종료`);
+  }
+
+  private handleRoomUpdate(room: RoomState): void {
+    this.room = room;
+
+    if (room.status !== 'playing') {
+      this.endSimulation();
+      return;
+    }
+
+    if (!this.simulation) {
+      this.beginSimulation(room);
+    }
+    this.removeUnknownFruits(room);
+  }
+
+  private beginSimulation(room: RoomState): void {
+    const simulation = new GameSimulation({
+      rng: new SeededRandom(deriveSeed(room.seed || 0, 'ids', 'referee')),
+      authoritative: true,
+    });
+    this.simulation = simulation;
+    this.fruitEncoder.reset();
+    this.deletedFruitIds.clear();
+    this.lastCheckpointHash = null;
+    this.turnNumber = -1;
+    this.launchedTurn = null;
+
+    const fruits = Object.values(room.fruits ?? {});
+    if (room.checkpoint) {
+      // 이전 권위자(호스트 또는 다른 심판)의 월드를 이어받음 (점수도 체크포인트에 포함)
+      const checkpointFrame = room.checkpoint.frame;
+      simulation.restore(room.checkpoint.snapshot, false);
+      for (const id of Array.from(simulation.bodies.keys())) {
+        if (!room.fruits?.[id]) {
+          simulation.removeFruit(id); // 체크포인트 이후 합성으로 사라진 과일
+        }
+      }
+      for (const fruit of fruits) {
+        if (!simulation.hasFruit(fruit.id)) {
+          simulation.addFruit(fruit.id, fruit.x, fruit.y, fruit.size, undefined, fruit.ownerId);
+        } else if (fruit.frame !== undefined && fruit.frame > checkpointFrame) {
+          simulation.applyMotion(fruit.id, {
+            x: fruit.x,
+            y: fruit.y,
+            vx: fruit.vx ?? 0,
+            vy: fruit.vy ?? 0,
+            angle: fruit.angle ?? 0,
+            angularVelocity: fruit.angularVelocity ?? 0,
+          });
+        }
+      }
+      this.baseScores = {};
+      this.basePartyScore = 0;
+      console.log(`[Referee] 프레임 ${checkpointFrame} 체크포인트에서 시작`);
+    } else {
+      // 체크포인트 없이 도중에 맡으면 현재 과일 위치와 점수에서 이어감
+      for (const fruit of fruits) {
+        simulation.addFruit(fruit.id, fruit.x, fruit.y, fruit.size, undefined, fruit.ownerId);
+      }
+      this.baseScores = {};
+      for (const [playerId, player] of Object.entries(room.players)) {
+        this.baseScores[playerId] = player.score;
+      }
+      this.basePartyScore = room.partyScore;
+    }
+    simulation.raiseMaxFruitSize(room.maxFruitSize);
+  }
+
+  private endSimulation(): void {
+    this.simulation?.destroy();
+    this.simulation = null;
+    this.launchedTurn = null;
+  }
+
+  // 클라이언트가 직접 쓴 과일 제거 (과일은 심판만 만듦)
+  private removeUnknownFruits(room: RoomState): void {
+    const simulation = this.simulation;
+    if (!simulation) return;
+
+    const unknownIds = Object.keys(room.fruits ?? {}).filter(
+      (id) => !simulation.hasFruit(id) && !this.deletedFruitIds.has(id)
+    );
+    if (unknownIds.length === 0) return;
+
+    console.warn(`[Referee] 허용되지 않은 과일 제거 (${this.roomId}):`, unknownIds);
+    const updates: Record<string, unknown> = {};
+    for (const id of unknownIds) {
+      updates[id] = null;
+    }
+    this.transport.update(`rooms/${this.roomId}/fruits`, updates);
+  }
+
+  private tick(): void {
+    const room = this.room;
+    const simulation = this.simulation;
+    if (!room || !simulation || room.status !== 'playing') return;
+
+    this.trackTurn(room);
+    this.processDropRequest(room, simulation);
+
+    for (const event of simulation.step()) {
+      if (event.type === 'merge') {
+        this.handleMerge(event.merge, simulation);
+      } else if (event.type === 'game_over') {
+        this.endGame();
+        return;
+      }
+    }
+
+    if (this.launchedTurn !== null && ++this.settleFrames > SETTLE_FRAMES) {
+      this.advanceTurn(room, simulation);
+    } else if (this.shouldSkipTurn(room)) {
+      console.log(`[Referee] 방 ${this.roomId} 응답 없는 플레이어 턴 건너뜀`);
+      this.advanceTurn(room, simulation);
+    }
+
+    if (simulation.frame % SYNC_INTERVAL === 0) {
+      this.syncFruits(simulation);
+    }
+    if (simulation.frame % CHECKPOINT_INTERVAL === 0) {
+      this.saveCheckpoint();
+    }
+  }
+
+  // 다른 경로(호스트의 연결 해제 정리 등)로 턴이 넘어갔으면 그 턴의 과일 크기로 갱신
+  private trackTurn(room: RoomState): void {
+    const turnNumber = room.turnNumber || 0;
+    if (turnNumber === this.turnNumber) return;
+
+    this.turnNumber = turnNumber;
+    this.turnFruitSize = fruitSizeForTurn(room.seed || 0, turnNumber, room.maxFruitSize);
+    if (this.launchedTurn !== null && this.launchedTurn < turnNumber) {
+      this.launchedTurn = null;
+    }
+  }
+
+  // 현재 플레이어가 끊겼거나 시간 제한을 넘겨도 드롭 요청이 없으면 건너뜀
+  // 방금 턴을 넘겨 방 상태가 아직 안 따라왔으면 (turnNumber 불일치) 기다림
+  private shouldSkipTurn(room: RoomState): boolean {
+    if (this.launchedTurn !== null || room.dropRequest || (room.turnNumber || 0) !== this.turnNumber) {
+      return false;
+    }
+    const currentPlayerId = room.playerOrder[room.currentPlayerIndex];
+    const disconnected = room.players[currentPlayerId]?.connected === false;
+    return disconnected || serverNow(this.transport) - room.turnStartTime > TURN_SKIP_MS;
+  }
+
+  private processDropRequest(room: RoomState, simulation: GameSimulation): void {
+    const request = room.dropRequest;
+    // 요청한 클라이언트가 currentFruit를 비울 때까지 대기 (거부 시 복원한 currentFruit를 덮어쓰지 않도록)
+    if (!request || room.currentFruit) return;
+
+    const reason = this.validateDropRequest(room, request);
+    if (reason) {
+      this.rejectDropRequest(request, reason);
+      return;
+    }
+
+    const input = {
+      playerId: request.playerId,
+      x: request.x,
+      velocity: { x: request.velocityX, y: request.velocityY },
+      size: request.size,
+    };
+    const fruitId = simulation.launch(input);
+    this.launchedTurn = this.turnNumber;
+    this.settleFrames = 0;
+
+    // 드롭 요청 소비 + 과일 기록 (처음 전송이므로 인코더가 전체 필드를 씀)
+    this.room = { ...room, dropRequest: null };
+    this.transport.update(`rooms/${this.roomId}`, { dropRequest: null });
+    this.syncFruits(simulation);
+    this.logAction('drop', request.playerId, launchActionData(simulation.frame, fruitId, input));
+  }
+
+  // 거부 사유 (통과하면 null)
+  private validateDropRequest(room: RoomState, request: DropRequest): string | null {
+    const currentPlayerId = room.playerOrder[room.currentPlayerIndex];
+    if (request.playerId !== currentPlayerId) return 'not_your_turn';
+    if (request.turnNumber !== this.turnNumber) return 'wrong_turn';
+    if (this.launchedTurn !== null) return 'already_dropped';
+    if (request.size !== this.turnFruitSize) return 'wrong_size';
+
+    const radius = getFruitData(request.size).radius;
+    if (!Number.isFinite(request.x) || request.x < radius || request.x > WORLD_WIDTH - radius) {
+      return 'out_of_bounds';
+    }
+
+    const speed = Math.hypot(request.velocityX, request.velocityY);
+    if (!Number.isFinite(speed) || speed > MAX_LAUNCH_SPEED + SPEED_TOLERANCE) return 'too_fast';
+
+    return null;
+  }
+
+  // 거부: 같은 턴을 다시 열어줌 (턴 시작 시간 갱신 → 클라이언트가 turn_start로 다시 준비)
+  private rejectDropRequest(request: DropRequest, reason: string): void {
+    console.warn(`[Referee] 드롭 요청 거부 (${this.roomId}, ${request.playerId}): ${reason}`);
+
+    this.room = { ...this.room!, dropRequest: null };
+    this.transport.update(`rooms/${this.roomId}`, {
+      dropRequest: null,
+      lastRejection: {
+        requestId: request.id,
+        playerId: request.playerId,
+        reason,
+        at: Date.now(),
+      },
+      turnStartTime: this.transport.serverTimestamp(),
+      currentFruit: { size: this.turnFruitSize, x: WORLD_WIDTH / 2 },
+    });
+  }
+
+  private handleMerge(merge: MergeEvent, simulation: GameSimulation): void {
+    for (const id of merge.removedIds) {
+      this.deletedFruitIds.add(id);
+    }
+
+    const updates: Record<string, unknown> = {};
+    if (simulation.maxFruitSize > (this.room?.maxFruitSize || 1)) {
+      updates.maxFruitSize = simulation.maxFruitSize;
+    }
+
+    // 점수는 누적값으로 덮어씀 (클라이언트가 쓴 값은 다음 합성 때 바로잡힘)
+    if (merge.scoreGain > 0) {
+      for (const credit of merge.credits) {
+        const score = (this.baseScores[credit.playerId] ?? 0) + (simulation.scores[credit.playerId] ?? 0);
+        updates[`players/${credit.playerId}/score`] = score;
+      }
+      updates.partyScore = this.basePartyScore + simulation.partyScore;
+    }
+
+    if (Object.keys(updates).length > 0) {
+      this.transport.update(`rooms/${this.roomId}`, updates);
+    }
+
+    // 즉시 동기화
+    this.syncFruits(simulation);
+
+    const { playerId, data } = mergeActionData(merge);
+    this.logAction('merge', playerId, data);
+    if (merge.scoreGain > 0) {
+      for (const credit of merge.credits) {
+        this.logAction('score', credit.playerId, {
+          score: updates[`players/${credit.playerId}/score`],
+          partyScore: updates.partyScore,
+        });
+      }
+    }
+  }
+
+  private advanceTurn(room: RoomState, simulation: GameSimulation): void {
+    this.launchedTurn = null;
+    this.settleFrames = 0;
+
+    const playerCount = room.playerOrder?.length || 1;
+    const expectedTurn = this.turnNumber;
+    const turnNumber = expectedTurn + 1;
+    const maxFruitSize = Math.max(room.maxFruitSize, simulation.maxFruitSize);
+
+    this.turnNumber = turnNumber;
+    this.turnFruitSize = fruitSizeForTurn(room.seed || 0, turnNumber, maxFruitSize);
+    const currentFruit = { size: this.turnFruitSize, x: WORLD_WIDTH / 2 };
+
+    // 심판이 붙기 전의 호스트가 같은 턴을 넘겼으면 그쪽 결과를 따름 (다음 방 업데이트의 trackTurn으로 동기화)
+    claimTurnAdvance(this.transport, this.roomId, expectedTurn).then((claimed) => {
+      if (!claimed) {
+        console.warn(`[Referee] 이미 넘어간 턴 (${this.roomId}, ${expectedTurn})`);
+        if (this.turnNumber === turnNumber) this.turnNumber = expectedTurn;
+        return;
+      }
+      const nextIndex = (room.currentPlayerIndex + 1) % playerCount;
+      this.transport.update(`rooms/${this.roomId}`, {
+        currentPlayerIndex: nextIndex,
+        turnNumber,
+        turnStartTime: this.transport.serverTimestamp(),
+        currentFruit,
+      });
+      this.logAction('turn', room.playerOrder?.[nextIndex] ?? '', { turnNumber, fruitSize: currentFruit.size });
+    });
+  }
+
+  private endGame(): void {
+    console.log(`[Referee] 방 ${this.roomId} 게임 종료`);
+    this.syncFruits(this.simulation!);
+    this.transport.update(`rooms/${this.roomId}`, { status: 'ended', currentFruit: null });
+    this.logAction('game_over', this.refereeId, {
+      partyScore: this.basePartyScore + this.simulation!.partyScore,
+      frame: this.simulation!.frame,
+    });
+    this.endSimulation();
+  }
+
+  // 방 이벤트 로그 기록 (실패해도 심판은 계속 진행)
+  private logAction(type: GameActionType, playerId: string, data: Record<string, unknown>): void {
+    this.actionLog?.append(type, playerId, data).catch((error) => {
+      console.warn(`[Referee] 액션 기록 실패 (${this.roomId}, ${type}):`, error);
+    });
+  }
+
+  // 호스트와 같은 형식으로 움직인 과일만 전송
+  private syncFruits(simulation: GameSimulation): void {
+    const fruits: Record<string, FruitSyncData> = {};
+    const frame = simulation.frame;
+
+    for (const [id, body] of simulation.bodies) {
+      const size = simulation.getFruitSize(id);
+      if (size) {
+        fruits[id] = {
+          x: body.position.x,
+          y: body.position.y,
+          angle: body.angle,
+          size,
+          ownerId: simulation.getOwner(id) || '',
+          frame,
+          vx: body.velocity.x,
+          vy: body.velocity.y,
+          angularVelocity: body.angularVelocity,
+        };
+      }
+    }
+
+    const updates = this.fruitEncoder.encode(fruits, Array.from(this.deletedFruitIds));
+    this.deletedFruitIds.clear();
+    if (Object.keys(updates).length === 0) return;
+
+    this.transport.update(`rooms/${this.roomId}/fruits`, updates);
+  }
+
+  private async saveCheckpoint(): Promise<void> {
+    const simulation = this.simulation;
+    if (!simulation) return;
+
+    const hash = simulation.stateHash();
+    if (hash === this.lastCheckpointHash) return;
+    this.lastCheckpointHash = hash;
+
+    const snapshot = simulation.snapshot();
+    await this.transport.set(`rooms/${this.roomId}/checkpoint`, {
+      hostId: this.refereeId,
+      frame: snapshot.frame,
+      savedAt: Date.now(),
+      snapshot,
+    });
+  }
+}
@@ -0,0 +1,41 @@
+// 심판 프로세스 (Node): npm run referee [-- --emulator 127.0.0.1:9000] [--token <custom token>]
+// Firebase 설정은 웹과 같은 VITE_FIREBASE_* 환경변수(.env)를 사용
+// 보안 규칙을 통과하려면 referee: true 클레임이 담긴 커스텀 토큰 필요 (--token 또는 REFEREE_TOKEN)
+import { database, auth, connectEmulator } from '../network/firebase';
+import { FirebaseTransport } from '../network/FirebaseTransport';
+import { RefereeSupervisor } from './RefereeSupervisor';
+
+function readOption(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+const emulatorHost = readOption('--emulator');
+if (emulatorHost && !import.meta.env.VITE_FIREBASE_EMULATOR_HOST) {
+  connectEmulator(emulatorHost);
+}
+
+const transport = new FirebaseTransport(database, auth);
+const token = readOption('--token') ?? process.env.REFEREE_TOKEN;
+if (token) {
+  await transport.signInWithToken(token);
+} else {
+  console.warn('[Referee] 토큰 없음, 익명 로그인 (보안 규칙이 켜져 있으면 심판 쓰기가 거부됨)');
+  await transport.signIn();
+}
+
+const supervisor = new RefereeSupervisor(transport);
+supervisor.start();
+
+let stopping = false;
+async function shutdown(): Promise<void> {
+  if (stopping) return;
+  stopping = true;
+
+  console.log('[Referee] 종료 중...');
+  await supervisor.stop();
+  process.exit(0);
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
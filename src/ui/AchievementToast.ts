@@ -0,0 +1,76 @@
+import type { AchievementInfo } from '../game/Achievements';
+import { escapeHtml } from './Html';
+
+const TOAST_DURATION_MS = 3000;
+
+function attachStyles(): void {
+  if (document.getElementById('achievement-toast-style')) return;
+
+  const style = document.createElement('style');
+  style.id = 'achievement-toast-style';
+  style.textContent = `
+    .achievement-toasts {
+      position: fixed;
+      top: 16px;
+      left: 50%;
+      transform: translateX(-50%);
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      z-index: 1200;
+      pointer-events: none;
+    }
+    .achievement-toast {
+      padding: 10px 18px;
+      border-radius: 10px;
+      border: 2px solid #ffcc00;
+      background: rgba(30,20,50,0.92);
+      box-shadow: 0 0 20px rgba(255,204,0,0.4);
+      color: white;
+      text-align: center;
+      animation: achievement-toast-in 0.3s ease-out;
+      transition: opacity 0.4s;
+    }
+    .achievement-toast.hiding {
+      opacity: 0;
+    }
+    .achievement-toast-title {
+      font-size: 12px;
+      color: #ffcc00;
+    }
+    .achievement-toast-name {
+      font-size: 16px;
+      font-weight: bold;
+    }
+    @keyframes achievement-toast-in {
+      from { transform: translateY(-20px); opacity: 0; }
+      to { transform: translateY(0); opacity: 1; }
+    }
+  `;
+  document.head.appendChild(style);
+}
+
+// 업적 달성 알림 (화면 상단, 몇 초 뒤 사라짐, 여러 개면 아래로 쌓임)
+export function showAchievementToast(achievement: AchievementInfo): void {
+  attachStyles();
+
+  let container = document.querySelector<HTMLElement>('.achievement-toasts');
+  if (!container) {
+    container = document.createElement('div');
+    container.className = 'achievement-toasts';
+    document.body.appendChild(container);
+  }
+
+  const toast = document.createElement('div');
+  toast.className = 'achievement-toast';
+  toast.innerHTML = `
+    <div class="achievement-toast-title">Achievement Unlocked</div>
+    <div class="achievement-toast-name">${escapeHtml(achievement.name)}</div>
+  `;
+  container.appendChild(toast);
+
+  window.setTimeout(() => {
+    toast.classList.add('hiding');
+    window.setTimeout(() => toast.remove(), 400);
+  }, TOAST_DURATION_MS);
+}
@@ -1,14 +1,43 @@
-import { NetworkManager } from '../network/NetworkManager';
-import type { RoomState } from '../network/types';
+import { NetworkManager, MAX_PLAYERS } from '../network/NetworkManager';
+import { createRoomTransport } from '../network/createTransport';
+import type { RoomTransport } from '../network/RoomTransport';
+import type { LeaderboardBoard, RoomState } from '../network/types';
+import { getWeekKey } from '../network/Leaderboard';
+import { GAME_CONFIG } from '../core/config';
+import { ProfileStore, getAverageShare } from '../core/ProfileStore';
+import { buildReplay, parseReplay, type GameReplay } from '../game/Replay';
+import { ACHIEVEMENTS } from '../game/Achievements';
+import { ReplayViewer } from './ReplayViewer';
+import { escapeHtml } from './Html';
+
+const PLAYER_NAME_KEY = 'player_name';
 
 export class Lobby {
   private container: HTMLElement;
   private network: NetworkManager | null = null;
+  private transport: RoomTransport = createRoomTransport();
+  private signedIn: Promise<string>; // 로그인한 플레이어 ID (페이지 로드 시 바로 시작)
+  private isReturning = false;
+  private inviteCode: string | null = new URLSearchParams(window.location.search).get('room'); // 초대 링크 (?room=ABCDE)
   private onGameStart: ((network: NetworkManager) => void) | null = null;
+  private replayViewer: ReplayViewer | null = null;
 
   constructor(container: HTMLElement) {
     this.container = container;
     this.render();
+
+    this.signedIn = this.transport.signIn();
+    this.signedIn.catch((error) => console.error('[Lobby] 로그인 실패:', error));
+    this.restoreSavedName();
+  }
+
+  // 돌아온 플레이어: 지난번 이름을 채워두고 환영 문구 변경
+  private restoreSavedName(): void {
+    const savedName = localStorage.getItem(PLAYER_NAME_KEY);
+    if (!savedName) return;
+
+    (document.getElementById('player-name') as HTMLInputElement).value = savedName;
+    this.isReturning = true;
   }
 
   private render(): void {
@@ -22,19 +51,41 @@ export class Lobby {
         </div>
 
         <div id="menu-section" class="lobby-section" style="display: none;">
-          <p class="welcome-text">Welcome, <span id="display-name"></span>!</p>
+          <p class="welcome-text"><span id="welcome-prefix">Welcome</span>, <span id="display-name"></span>!</p>
+          <div class="create-room-options">
+            <input type="password" id="create-password-input" placeholder="Password (optional)" maxlength="20" />
+            <label class="sync-mode-option">
+              <input type="checkbox" id="private-toggle" /> Private
+            </label>
+          </div>
+          <button id="quick-match-btn" class="btn btn-success">Quick Match</button>
           <button id="create-room-btn" class="btn btn-primary">Create Room</button>
           <button id="join-room-btn" class="btn btn-secondary">Join Room</button>
           <button id="refresh-rooms-btn" class="btn btn-secondary">Refresh Rooms</button>
+          <button id="leaderboard-btn" class="btn btn-secondary">Leaderboard</button>
+          <button id="profile-btn" class="btn btn-secondary">Profile</button>
+          <button id="open-replay-btn" class="btn btn-secondary">Open Replay</button>
+          <input type="file" id="replay-file-input" accept=".json,application/json" style="display: none;" />
           <div id="room-list" class="room-list"></div>
         </div>
 
         <div id="waiting-room-section" class="lobby-section" style="display: none;">
           <h2>Room: <span id="room-id-display"></span></h2>
+          <button id="copy-invite-btn" class="btn btn-secondary">Copy Invite Link</button>
           <div id="players-list" class="players-list"></div>
+          <p id="spectator-count" class="spectator-count"></p>
+          <p id="auto-start-display" class="spectator-count"></p>
+          <label id="sync-mode-option" class="sync-mode-option" style="display: none;">
+            <input type="checkbox" id="lockstep-toggle" /> Lockstep sync
+          </label>
+          <label id="late-join-option" class="sync-mode-option" style="display: none;">
+            <input type="checkbox" id="late-join-toggle" /> Allow late join
+          </label>
           <div class="waiting-room-actions">
             <button id="ready-btn" class="btn btn-primary">Ready</button>
             <button id="start-btn" class="btn btn-success" style="display: none;">Start Game</button>
+            <button id="take-seat-btn" class="btn btn-primary" style="display: none;">Take Seat</button>
+            <button id="last-replay-btn" class="btn btn-secondary">Last Replay</button>
             <button id="leave-room-btn" class="btn btn-danger">Leave</button>
           </div>
         </div>
@@ -43,12 +94,45 @@ export class Lobby {
           <div class="modal-content">
             <h3>Join Room</h3>
             <input type="text" id="room-code-input" placeholder="Enter room code" />
+            <input type="password" id="join-password-input" placeholder="Password (if any)" maxlength="20" />
             <div class="modal-actions">
               <button id="confirm-join-btn" class="btn btn-primary">Join</button>
+              <button id="confirm-watch-btn" class="btn btn-secondary">Watch</button>
               <button id="cancel-join-btn" class="btn btn-secondary">Cancel</button>
             </div>
           </div>
         </div>
+
+        <div id="leaderboard-modal" class="modal" style="display: none;">
+          <div class="modal-content">
+            <h3>Leaderboard</h3>
+            <div class="leaderboard-tabs">
+              <button class="btn btn-secondary leaderboard-tab" data-kind="all">All Time</button>
+              <button class="btn btn-secondary leaderboard-tab" data-kind="weekly">This Week</button>
+              <select id="leaderboard-party-select" class="leaderboard-select">
+                <option value="">Party Size</option>
+                ${Array.from({ length: MAX_PLAYERS }, (_, i) => `<option value="${i + 1}">${i + 1} ${i === 0 ? 'Player' : 'Players'}</option>`).join('')}
+              </select>
+            </div>
+            <div id="leaderboard-list" class="room-list leaderboard-list"></div>
+            <button id="close-leaderboard-btn" class="btn btn-secondary">Close</button>
+          </div>
+        </div>
+
+        <div id="profile-modal" class="modal" style="display: none;">
+          <div class="modal-content">
+            <h3 id="profile-name">Profile</h3>
+            <div id="profile-stats" class="profile-stats"></div>
+            <div id="profile-achievements" class="profile-achievements"></div>
+            <div id="profile-games" class="room-list profile-games"></div>
+            <div class="modal-actions">
+              <button id="export-profile-btn" class="btn btn-secondary">Export</button>
+              <button id="import-profile-btn" class="btn btn-secondary">Import</button>
+              <button id="close-profile-btn" class="btn btn-secondary">Close</button>
+            </div>
+            <input type="file" id="profile-file-input" accept=".json,application/json" style="display: none;" />
+          </div>
+        </div>
       </div>
     `;
 
@@ -137,7 +221,8 @@ export class Lobby {
         background: linear-gradient(135deg, #ff4757, #ff6b81);
         color: white;
       }
-      input[type="text"] {
+      input[type="text"],
+      input[type="password"] {
         padding: 12px 16px;
         font-size: 16px;
         border: 2px solid rgba(255,107,157,0.3);
@@ -148,10 +233,17 @@ export class Lobby {
         width: 200px;
         transition: border-color 0.2s, box-shadow 0.2s;
       }
-      input[type="text"]:focus {
+      input[type="text"]:focus,
+      input[type="password"]:focus {
         border-color: #ff6b9d;
         box-shadow: 0 0 15px rgba(255,107,157,0.3);
       }
+      .create-room-options {
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        gap: 8px;
+      }
       .room-list {
         display: flex;
         flex-direction: column;
@@ -197,6 +289,19 @@ export class Lobby {
         border: 2px solid #ffcc00;
         box-shadow: 0 0 10px rgba(255,204,0,0.3);
       }
+      .spectator-count {
+        font-size: 14px;
+        color: #aaa;
+        margin: 0;
+      }
+      .sync-mode-option {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        font-size: 14px;
+        color: #ccc;
+        cursor: pointer;
+      }
       .waiting-room-actions {
         display: flex;
         gap: 10px;
@@ -229,6 +334,87 @@ export class Lobby {
         display: flex;
         gap: 10px;
       }
+      .leaderboard-tabs {
+        display: flex;
+        gap: 8px;
+      }
+      .leaderboard-tabs .btn {
+        min-width: 0;
+        padding: 8px 14px;
+        font-size: 14px;
+      }
+      .leaderboard-tab.active {
+        background: linear-gradient(135deg, #ff6b9d, #ff9a56);
+      }
+      .leaderboard-select {
+        padding: 8px;
+        border-radius: 8px;
+        border: 2px solid rgba(255,107,157,0.3);
+        background: rgba(30,20,50,0.8);
+        color: white;
+      }
+      .leaderboard-list {
+        min-width: 360px;
+        max-height: 320px;
+      }
+      .leaderboard-rank {
+        color: #ffcc00;
+        font-weight: bold;
+        margin-right: 10px;
+      }
+      .leaderboard-names {
+        flex: 1;
+        font-size: 13px;
+        color: #ccc;
+        margin: 0 10px;
+      }
+      .profile-stats {
+        display: grid;
+        grid-template-columns: repeat(3, 1fr);
+        gap: 10px;
+        min-width: 360px;
+      }
+      .profile-stat {
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        padding: 10px;
+        border-radius: 8px;
+        background: rgba(255,255,255,0.05);
+      }
+      .profile-stat-value {
+        font-size: 20px;
+        font-weight: bold;
+        color: #ffcc00;
+      }
+      .profile-stat-label {
+        font-size: 12px;
+        color: #ccc;
+      }
+      .profile-achievements {
+        display: flex;
+        flex-direction: column;
+        gap: 4px;
+        min-width: 360px;
+      }
+      .profile-achievement {
+        display: flex;
+        justify-content: space-between;
+        gap: 10px;
+        font-size: 13px;
+        color: #777;
+      }
+      .profile-achievement.unlocked {
+        color: white;
+      }
+      .profile-achievement.unlocked .profile-achievement-name {
+        color: #ffcc00;
+      }
+      .profile-games {
+        min-width: 360px;
+        max-height: 240px;
+        font-size: 13px;
+      }
     `;
     document.head.appendChild(style);
   }
@@ -236,30 +422,80 @@ export class Lobby {
   private attachEventListeners(): void {
     const confirmNameBtn = document.getElementById('confirm-name-btn')!;
     const createRoomBtn = document.getElementById('create-room-btn')!;
+    const quickMatchBtn = document.getElementById('quick-match-btn')!;
     const joinRoomBtn = document.getElementById('join-room-btn')!;
     const refreshRoomsBtn = document.getElementById('refresh-rooms-btn')!;
     const readyBtn = document.getElementById('ready-btn')!;
     const startBtn = document.getElementById('start-btn')!;
     const leaveRoomBtn = document.getElementById('leave-room-btn')!;
     const confirmJoinBtn = document.getElementById('confirm-join-btn')!;
+    const confirmWatchBtn = document.getElementById('confirm-watch-btn')!;
+    const takeSeatBtn = document.getElementById('take-seat-btn')!;
+    const copyInviteBtn = document.getElementById('copy-invite-btn')!;
     const cancelJoinBtn = document.getElementById('cancel-join-btn')!;
+    const openReplayBtn = document.getElementById('open-replay-btn')!;
+    const replayFileInput = document.getElementById('replay-file-input') as HTMLInputElement;
+    const lastReplayBtn = document.getElementById('last-replay-btn')!;
+    const leaderboardBtn = document.getElementById('leaderboard-btn')!;
+    const closeLeaderboardBtn = document.getElementById('close-leaderboard-btn')!;
+    const partySelect = document.getElementById('leaderboard-party-select') as HTMLSelectElement;
+    const profileBtn = document.getElementById('profile-btn')!;
+    const closeProfileBtn = document.getElementById('close-profile-btn')!;
+    const exportProfileBtn = document.getElementById('export-profile-btn')!;
+    const importProfileBtn = document.getElementById('import-profile-btn')!;
+    const profileFileInput = document.getElementById('profile-file-input') as HTMLInputElement;
+    const lockstepToggle = document.getElementById('lockstep-toggle') as HTMLInputElement;
+    const lateJoinToggle = document.getElementById('late-join-toggle') as HTMLInputElement;
 
     confirmNameBtn.addEventListener('click', () => this.confirmName());
     createRoomBtn.addEventListener('click', () => this.createRoom());
+    quickMatchBtn.addEventListener('click', () => this.quickMatch());
     joinRoomBtn.addEventListener('click', () => this.showJoinModal());
     refreshRoomsBtn.addEventListener('click', () => this.refreshRooms());
     readyBtn.addEventListener('click', () => this.toggleReady());
     startBtn.addEventListener('click', () => this.startGame());
     leaveRoomBtn.addEventListener('click', () => this.leaveRoom());
     confirmJoinBtn.addEventListener('click', () => this.confirmJoinRoom());
+    confirmWatchBtn.addEventListener('click', () => this.confirmJoinRoom(true));
+    takeSeatBtn.addEventListener('click', () => this.takeSeat());
+    copyInviteBtn.addEventListener('click', () => this.copyInviteLink());
     cancelJoinBtn.addEventListener('click', () => this.hideJoinModal());
+    openReplayBtn.addEventListener('click', () => replayFileInput.click());
+    replayFileInput.addEventListener('change', () => this.openReplayFile(replayFileInput));
+    lastReplayBtn.addEventListener('click', () => this.watchLastReplay());
+    leaderboardBtn.addEventListener('click', () => this.showLeaderboard());
+    closeLeaderboardBtn.addEventListener('click', () => this.hideLeaderboard());
+    document.querySelectorAll<HTMLButtonElement>('.leaderboard-tab').forEach((tab) => {
+      tab.addEventListener('click', () => {
+        const board: LeaderboardBoard = tab.dataset.kind === 'weekly'
+          ? { kind: 'weekly', week: getWeekKey(this.network!.serverNow()) }
+          : { kind: 'all' };
+        this.loadLeaderboard(board);
+      });
+    });
+    partySelect.addEventListener('change', () => {
+      if (partySelect.value) {
+        this.loadLeaderboard({ kind: 'party', playerCount: Number(partySelect.value) });
+      }
+    });
+    profileBtn.addEventListener('click', () => this.showProfile());
+    closeProfileBtn.addEventListener('click', () => this.hideProfile());
+    exportProfileBtn.addEventListener('click', () => this.exportProfile());
+    importProfileBtn.addEventListener('click', () => profileFileInput.click());
+    profileFileInput.addEventListener('change', () => this.importProfile(profileFileInput));
+    lockstepToggle.addEventListener('change', () => {
+      this.network?.setSyncMode(lockstepToggle.checked ? 'lockstep' : 'snapshot');
+    });
+    lateJoinToggle.addEventListener('change', () => {
+      this.network?.setAllowLateJoin(lateJoinToggle.checked);
+    });
 
     document.getElementById('player-name')!.addEventListener('keypress', (e) => {
       if (e.key === 'Enter') this.confirmName();
     });
   }
 
-  private confirmName(): void {
+  private async confirmName(): Promise<void> {
     const nameInput = document.getElementById('player-name') as HTMLInputElement;
     const name = nameInput.value.trim();
 
@@ -268,19 +504,42 @@ export class Lobby {
       return;
     }
 
-    this.network = new NetworkManager(name);
+    let playerId: string;
+    try {
+      playerId = await this.signedIn;
+    } catch {
+      alert('Failed to sign in');
+      return;
+    }
+
+    const isReturning = this.isReturning && localStorage.getItem(PLAYER_NAME_KEY) === name;
+    localStorage.setItem(PLAYER_NAME_KEY, name);
+    ProfileStore.getInstance().setName(name);
+
+    this.network = new NetworkManager(name, this.transport, playerId);
+    document.getElementById('welcome-prefix')!.textContent = isReturning ? 'Welcome back' : 'Welcome';
     document.getElementById('display-name')!.textContent = name;
     document.getElementById('name-input-section')!.style.display = 'none';
     document.getElementById('menu-section')!.style.display = 'flex';
 
     this.refreshRooms();
+
+    // 초대 링크로 들어왔으면 코드를 채운 입장 창을 바로 띄움
+    if (this.inviteCode) {
+      (document.getElementById('room-code-input') as HTMLInputElement).value = this.inviteCode;
+      this.inviteCode = null;
+      this.showJoinModal();
+    }
   }
 
   private async createRoom(): Promise<void> {
     if (!this.network) return;
 
+    const password = (document.getElementById('create-password-input') as HTMLInputElement).value;
+    const isPrivate = (document.getElementById('private-toggle') as HTMLInputElement).checked;
+
     try {
-      const roomId = await this.network.createRoom();
+      const roomId = await this.network.createRoom({ isPrivate, password: password || undefined });
       this.showWaitingRoom(roomId);
     } catch (error) {
       alert('Failed to create room');
@@ -288,6 +547,24 @@ export class Lobby {
     }
   }
 
+  private async quickMatch(): Promise<void> {
+    if (!this.network) return;
+
+    const quickMatchBtn = document.getElementById('quick-match-btn') as HTMLButtonElement;
+    quickMatchBtn.disabled = true;
+    quickMatchBtn.textContent = 'Searching...';
+    try {
+      const roomId = await this.network.quickMatch();
+      this.showWaitingRoom(roomId);
+    } catch (error) {
+      alert('Quick match failed');
+      console.error(error);
+    } finally {
+      quickMatchBtn.disabled = false;
+      quickMatchBtn.textContent = 'Quick Match';
+    }
+  }
+
   private showJoinModal(): void {
     document.getElementById('join-room-modal')!.style.display = 'flex';
   }
@@ -296,19 +573,158 @@ export class Lobby {
     document.getElementById('join-room-modal')!.style.display = 'none';
   }
 
-  private async confirmJoinRoom(): Promise<void> {
+  private showLeaderboard(): void {
+    document.getElementById('leaderboard-modal')!.style.display = 'flex';
+    this.loadLeaderboard({ kind: 'all' });
+  }
+
+  private hideLeaderboard(): void {
+    document.getElementById('leaderboard-modal')!.style.display = 'none';
+  }
+
+  private async loadLeaderboard(board: LeaderboardBoard): Promise<void> {
+    if (!this.network) return;
+
+    // 선택된 탭 표시 (인원별 보드는 선택 상자로 표시)
+    document.querySelectorAll<HTMLButtonElement>('.leaderboard-tab').forEach((tab) => {
+      tab.classList.toggle('active', tab.dataset.kind === board.kind);
+    });
+    if (board.kind !== 'party') {
+      (document.getElementById('leaderboard-party-select') as HTMLSelectElement).value = '';
+    }
+
+    const list = document.getElementById('leaderboard-list')!;
+    list.innerHTML = '<p>Loading...</p>';
+
+    try {
+      const entries = await this.network.getLeaderboard(board);
+      if (entries.length === 0) {
+        list.innerHTML = '<p>No scores yet</p>';
+        return;
+      }
+
+      list.innerHTML = entries
+        .map((entry, index) => `
+        <div class="room-item">
+          <span class="leaderboard-rank">#${index + 1}</span>
+          <span>${escapeHtml(entry.finalScore.toLocaleString())}</span>
+          <span class="leaderboard-names">${escapeHtml((entry.playerNames ?? []).join(', '))}</span>
+          <span>${escapeHtml(entry.playerCount)}P · Max ${escapeHtml(entry.maxFruitSize)}</span>
+        </div>
+      `)
+        .join('');
+    } catch (error) {
+      console.error('[Lobby] Failed to load leaderboard:', error);
+      list.innerHTML = '<p>Failed to load leaderboard</p>';
+    }
+  }
+
+  private showProfile(): void {
+    document.getElementById('profile-modal')!.style.display = 'flex';
+    this.renderProfile();
+  }
+
+  private hideProfile(): void {
+    document.getElementById('profile-modal')!.style.display = 'none';
+  }
+
+  private renderProfile(): void {
+    const profile = ProfileStore.getInstance().current;
+    const stats: [string, string][] = [
+      ['Games', profile.gamesPlayed.toLocaleString()],
+      ['Best Party', profile.bestPartyScore.toLocaleString()],
+      ['Merges', profile.totalMerges.toLocaleString()],
+      ['Biggest Fruit', profile.biggestFruit > 0 ? `Size ${profile.biggestFruit}` : '-'],
+      ['Detonations', profile.detonations.toLocaleString()],
+      ['Avg Share', `${Math.round(getAverageShare(profile) * 100)}%`],
+    ];
+
+    document.getElementById('profile-name')!.textContent = profile.name || 'Profile';
+    document.getElementById('profile-stats')!.innerHTML = stats
+      .map(([label, value]) => `
+        <div class="profile-stat">
+          <span class="profile-stat-value">${escapeHtml(value)}</span>
+          <span class="profile-stat-label">${label}</span>
+        </div>
+      `)
+      .join('');
+
+    // 업적: 얻은 것은 얻은 날짜와 함께, 못 얻은 것은 흐리게
+    document.getElementById('profile-achievements')!.innerHTML = ACHIEVEMENTS
+      .map((achievement) => {
+        const unlockedAt = profile.achievements[achievement.id];
+        return `
+        <div class="profile-achievement${unlockedAt ? ' unlocked' : ''}" title="${achievement.description}">
+          <span class="profile-achievement-name">${achievement.name}</span>
+          <span>${unlockedAt ? new Date(unlockedAt).toLocaleDateString() : achievement.description}</span>
+        </div>
+      `;
+      })
+      .join('');
+
+    const games = document.getElementById('profile-games')!;
+    if (profile.recentGames.length === 0) {
+      games.innerHTML = '<p>No games yet</p>';
+      return;
+    }
+    games.innerHTML = profile.recentGames
+      .map((game) => `
+        <div class="room-item">
+          <span>${escapeHtml(new Date(game.endedAt).toLocaleDateString())}</span>
+          <span>${escapeHtml(game.score.toLocaleString())} / ${escapeHtml(game.partyScore.toLocaleString())}</span>
+          <span>${escapeHtml(game.playerCount)}P · ${escapeHtml(game.merges)} merges</span>
+        </div>
+      `)
+      .join('');
+  }
+
+  // 프로필을 JSON 파일로 저장 (다른 브라우저에서 가져오기용)
+  private exportProfile(): void {
+    const store = ProfileStore.getInstance();
+    const blob = new Blob([store.export()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `fireworks-profile-${store.current.name || 'player'}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private async importProfile(input: HTMLInputElement): Promise<void> {
+    const file = input.files?.[0];
+    input.value = ''; // 같은 파일을 다시 골라도 change가 발생하도록
+    if (!file) return;
+
+    try {
+      ProfileStore.getInstance().import(await file.text());
+      this.renderProfile();
+    } catch (error) {
+      alert((error as Error).message || 'Failed to import profile');
+    }
+  }
+
+  private async confirmJoinRoom(spectate = false): Promise<void> {
     if (!this.network) return;
 
     const roomCodeInput = document.getElementById('room-code-input') as HTMLInputElement;
-    const roomId = roomCodeInput.value.trim();
+    const password = (document.getElementById('join-password-input') as HTMLInputElement).value || undefined;
 
-    if (!roomId) {
+    if (!roomCodeInput.value.trim()) {
       alert('Please enter a room code');
       return;
     }
 
     try {
-      await this.network.joinRoom(roomId);
+      const roomId = await this.network.resolveRoomId(roomCodeInput.value);
+      if (!roomId) {
+        throw new Error('Room not found');
+      }
+
+      if (spectate) {
+        await this.network.spectateRoom(roomId, password);
+      } else {
+        await this.network.joinRoom(roomId, password);
+      }
       this.hideJoinModal();
       this.showWaitingRoom(roomId);
     } catch (error) {
@@ -337,23 +753,39 @@ export class Lobby {
         return;
       }
 
+      // 이미 자리가 있는 방 (다른 탭 등)은 재입장, 게임 중이거나 꽉 찬 방은 관전으로 표시
+      const myId = this.network.id;
       roomList.innerHTML = validRooms
-        .map(
-          (room) => `
+        .map((room) => {
+          const playerCount = Object.keys(room.players).length;
+          const open = room.status === 'waiting' || (room.status === 'playing' && !!room.allowLateJoin);
+          const canJoin = open && playerCount < MAX_PLAYERS;
+          const label = room.players[myId] ? 'Rejoin' : canJoin ? 'Join' : 'Watch';
+          const locked = !!room.hasPassword && !room.players[myId];
+          return `
         <div class="room-item">
-          <span>${room.id.substring(0, 8)}... (${Object.keys(room.players).length}/10)</span>
-          <button class="btn btn-primary join-room-item" data-room-id="${room.id}">Join</button>
+          <span>${locked ? '🔒 ' : ''}${escapeHtml(room.code ?? room.id.substring(0, 8) + '...')} (${playerCount}/${MAX_PLAYERS})${room.status === 'waiting' ? '' : ' playing'}</span>
+          <button class="btn btn-primary join-room-item" data-room-id="${escapeHtml(room.id)}" data-spectate="${label === 'Watch'}" data-locked="${locked}">${label}</button>
         </div>
-      `
-        )
+      `;
+        })
         .join('');
 
       roomList.querySelectorAll('.join-room-item').forEach((btn) => {
         btn.addEventListener('click', async (e) => {
-          const roomId = (e.target as HTMLElement).dataset.roomId!;
+          const { roomId, spectate, locked } = (e.target as HTMLElement).dataset;
+          let password: string | undefined;
+          if (locked === 'true') {
+            password = prompt('Room password') ?? undefined;
+            if (password === undefined) return;
+          }
           try {
-            await this.network!.joinRoom(roomId);
-            this.showWaitingRoom(roomId);
+            if (spectate === 'true') {
+              await this.network!.spectateRoom(roomId!, password);
+            } else {
+              await this.network!.joinRoom(roomId!, password);
+            }
+            this.showWaitingRoom(roomId!);
           } catch (error) {
             alert((error as Error).message || 'Failed to join room');
           }
@@ -381,32 +813,74 @@ export class Lobby {
 
     if (room.status === 'playing' && this.onGameStart && this.network) {
       this.gameStarted = true; // 한 번만 실행되도록
+      this.stopAutoStartTimer();
+      this.replayViewer?.close();
       this.container.innerHTML = '';
       this.onGameStart(this.network);
       return;
     }
 
+    // 방장이 나갔으면 남은 첫 번째 플레이어가 승계, 방장은 나간 플레이어를 순서에서 정리
+    if (this.network?.shouldBecomeHost()) {
+      this.network.promoteToHost();
+      return;
+    }
+    if (this.network?.isHost() && this.network.needsPlayerCleanup()) {
+      this.network.cleanupDisconnectedPlayers();
+    }
+    this.updateAutoStart(room);
+
     const playersList = document.getElementById('players-list');
     if (!playersList) return;
 
+    if (room.code) {
+      document.getElementById('room-id-display')!.textContent = room.code;
+    }
+
     const players = Object.values(room.players);
 
     playersList.innerHTML = players
       .map(
         (player) => `
       <div class="player-item ${player.isReady ? 'ready' : ''} ${player.isHost ? 'host' : ''}">
-        <span>${player.name}</span>
-        <span>${player.isHost ? '👑 Host' : player.isReady ? '✓ Ready' : 'Waiting...'}</span>
+        <span>${escapeHtml(player.name)}</span>
+        <span>${player.connected === false ? 'Offline' : player.isHost ? '👑 Host' : player.isReady ? '✓ Ready' : 'Waiting...'}</span>
       </div>
     `
       )
       .join('');
 
+    const spectatorCount = Object.keys(room.spectators ?? {}).length;
+    document.getElementById('spectator-count')!.textContent =
+      spectatorCount > 0 ? `👀 ${spectatorCount} watching` : '';
+
     const currentPlayer = room.players[this.network!.id];
     const startBtn = document.getElementById('start-btn') as HTMLButtonElement;
     const readyBtn = document.getElementById('ready-btn') as HTMLButtonElement;
+    const takeSeatBtn = document.getElementById('take-seat-btn') as HTMLButtonElement;
+    const syncModeOption = document.getElementById('sync-mode-option') as HTMLElement;
+    const lockstepToggle = document.getElementById('lockstep-toggle') as HTMLInputElement;
+    const lateJoinOption = document.getElementById('late-join-option') as HTMLElement;
+    const lateJoinToggle = document.getElementById('late-join-toggle') as HTMLInputElement;
+
+    // 동기화 모드, 중간 참가 허용은 방장만 변경 (다른 플레이어는 표시만)
+    syncModeOption.style.display = 'flex';
+    lockstepToggle.checked = room.syncMode === 'lockstep';
+    lockstepToggle.disabled = !currentPlayer?.isHost;
+    lateJoinOption.style.display = 'flex';
+    lateJoinToggle.checked = !!room.allowLateJoin;
+    lateJoinToggle.disabled = !currentPlayer?.isHost;
 
-    if (currentPlayer?.isHost) {
+    // 관전자는 준비/시작 대신 빈 자리에 앉기만 가능
+    takeSeatBtn.style.display = currentPlayer ? 'none' : 'block';
+    if (!currentPlayer) {
+      takeSeatBtn.disabled = !this.network!.canTakeSeat();
+      readyBtn.style.display = 'none';
+      startBtn.style.display = 'none';
+      return;
+    }
+
+    if (currentPlayer.isHost) {
       // 방장은 Ready 버튼 숨김, Start 버튼만 표시
       readyBtn.style.display = 'none';
       startBtn.style.display = 'block';
@@ -422,6 +896,62 @@ export class Lobby {
     }
   }
 
+  private autoStartTimer: number | null = null;
+
+  // 빠른 매칭 방: 최소 인원이 모이면 방장이 카운트다운 시작 (인원이 줄면 취소), 끝나면 방장이 시작
+  private updateAutoStart(room: RoomState): void {
+    const display = document.getElementById('auto-start-display');
+    if (!display || !this.network) return;
+    if (!room.quickMatch) {
+      display.textContent = '';
+      this.stopAutoStartTimer();
+      return;
+    }
+
+    const connectedCount = Object.values(room.players).filter((p) => p.connected !== false).length;
+    const minPlayers = GAME_CONFIG.QUICK_MATCH_MIN_PLAYERS;
+    const enough = connectedCount >= minPlayers;
+
+    if (this.network.isHost()) {
+      if (enough && !room.autoStartAt) {
+        this.network.setAutoStart(this.network.serverNow() + GAME_CONFIG.QUICK_MATCH_COUNTDOWN * 1000);
+      } else if (!enough && room.autoStartAt) {
+        this.network.setAutoStart(null);
+      }
+    }
+
+    if (enough && room.autoStartAt) {
+      if (this.autoStartTimer === null) {
+        this.autoStartTimer = window.setInterval(() => this.tickAutoStart(), 250);
+        this.tickAutoStart();
+      }
+    } else {
+      this.stopAutoStartTimer();
+      display.textContent = `Waiting for players (${connectedCount}/${minPlayers})`;
+    }
+  }
+
+  private tickAutoStart(): void {
+    const startAt = this.network?.room?.autoStartAt;
+    const display = document.getElementById('auto-start-display');
+    if (!startAt || !display) return;
+
+    // 자동 시작 시각은 서버 시각 기준 (모든 클라이언트에 같은 카운트다운 표시)
+    const remaining = Math.max(0, Math.ceil((startAt - this.network!.serverNow()) / 1000));
+    display.textContent = `Starting in ${remaining}s`;
+    if (remaining === 0 && this.network!.isHost()) {
+      this.stopAutoStartTimer();
+      this.startGame();
+    }
+  }
+
+  private stopAutoStartTimer(): void {
+    if (this.autoStartTimer !== null) {
+      clearInterval(this.autoStartTimer);
+      this.autoStartTimer = null;
+    }
+  }
+
   private isReady = false;
 
   private async toggleReady(): Promise<void> {
@@ -435,6 +965,32 @@ export class Lobby {
     readyBtn.className = this.isReady ? 'btn btn-secondary' : 'btn btn-primary';
   }
 
+  // 초대 링크: 현재 주소 + ?room=코드 (코드가 없는 예전 방은 방 ID)
+  private async copyInviteLink(): Promise<void> {
+    const room = this.network?.room;
+    if (!room) return;
+
+    const url = new URL(window.location.href);
+    url.search = '';
+    url.searchParams.set('room', room.code ?? room.id);
+    try {
+      await navigator.clipboard.writeText(url.toString());
+      alert('Invite link copied');
+    } catch {
+      prompt('Invite link', url.toString());
+    }
+  }
+
+  private async takeSeat(): Promise<void> {
+    if (!this.network) return;
+
+    try {
+      await this.network.takeSeat();
+    } catch (error) {
+      alert((error as Error).message || 'Failed to take a seat');
+    }
+  }
+
   private async startGame(): Promise<void> {
     if (!this.network) return;
 
@@ -444,6 +1000,7 @@ export class Lobby {
   private async leaveRoom(): Promise<void> {
     if (!this.network) return;
 
+    this.stopAutoStartTimer();
     await this.network.leaveRoom();
     document.getElementById('waiting-room-section')!.style.display = 'none';
     document.getElementById('menu-section')!.style.display = 'flex';
@@ -451,6 +1008,38 @@ export class Lobby {
     this.refreshRooms();
   }
 
+  // 내보낸 리플레이 파일 재생
+  private async openReplayFile(input: HTMLInputElement): Promise<void> {
+    const file = input.files?.[0];
+    input.value = ''; // 같은 파일을 다시 골라도 change가 발생하도록
+    if (!file) return;
+
+    try {
+      this.showReplay(parseReplay(await file.text()));
+    } catch (error) {
+      alert((error as Error).message || 'Failed to open replay');
+    }
+  }
+
+  // 이 방에서 마지막으로 끝난 게임 재생 (방 이벤트 로그 기준)
+  private async watchLastReplay(): Promise<void> {
+    const room = this.network?.room;
+    if (!this.network || !room) return;
+
+    const replay = buildReplay(room, await this.network.getActionHistory());
+    if (!replay) {
+      alert('No finished game yet');
+      return;
+    }
+    this.showReplay(replay);
+  }
+
+  private showReplay(replay: GameReplay): void {
+    this.replayViewer?.close();
+    this.replayViewer = new ReplayViewer(replay);
+    this.replayViewer.setOnClose(() => (this.replayViewer = null));
+  }
+
   setOnGameStart(callback: (network: NetworkManager) => void): void {
     this.onGameStart = callback;
   }
@@ -0,0 +1,243 @@
+import { getFruitData } from '../core/config';
+import { FRAME_MS, WORLD_HEIGHT, WORLD_WIDTH } from '../game/GameSimulation';
+import { Renderer, type FruitView } from '../game/Renderer';
+import { ReplayPlayback } from '../game/ReplayPlayback';
+import { replayFileName, serializeReplay, type GameReplay } from '../game/Replay';
+import { escapeHtml } from './Html';
+
+// 리플레이 파일로 저장 (브라우저 다운로드)
+export function downloadReplay(replay: GameReplay): void {
+  const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = replayFileName(replay);
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// 리플레이 재생 화면 (화면 전체를 덮는 오버레이, 닫으면 원래 화면 그대로)
+// 게임 캔버스와 같은 Renderer로 그리고, 재생/일시정지, 탐색, 2배속, 턴별 이동 제공
+export class ReplayViewer {
+  private replay: GameReplay;
+  private playback: ReplayPlayback;
+  private overlay: HTMLElement;
+  private renderer: Renderer;
+  private playing = true;
+  private speed = 1;
+  private accumulator = 0;
+  private lastTime: number | null = null;
+  private animationId: number | null = null;
+  private onClose: (() => void) | null = null;
+
+  constructor(replay: GameReplay) {
+    this.replay = replay;
+    this.playback = new ReplayPlayback(replay);
+    this.attachStyles();
+    this.overlay = this.createUI();
+    document.body.appendChild(this.overlay);
+
+    const canvas = this.overlay.querySelector('#replay-canvas') as HTMLCanvasElement;
+    this.renderer = new Renderer(canvas, WORLD_WIDTH, WORLD_HEIGHT);
+
+    this.animationId = requestAnimationFrame(this.loop);
+  }
+
+  setOnClose(callback: () => void): void {
+    this.onClose = callback;
+  }
+
+  close(): void {
+    if (this.animationId !== null) {
+      cancelAnimationFrame(this.animationId);
+      this.animationId = null;
+    }
+    this.playback.destroy();
+    this.overlay.remove();
+    this.onClose?.();
+  }
+
+  private attachStyles(): void {
+    if (document.getElementById('replay-viewer-style')) return;
+
+    const style = document.createElement('style');
+    style.id = 'replay-viewer-style';
+    style.textContent = `
+      .replay-overlay {
+        position: fixed;
+        top: 0;
+        left: 0;
+        width: 100%;
+        height: 100%;
+        background: rgba(0,0,0,0.95);
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        justify-content: center;
+        gap: 12px;
+        z-index: 1100;
+        color: white;
+      }
+      .replay-title {
+        font-size: 18px;
+        color: #ffcc00;
+      }
+      .replay-overlay canvas {
+        border: 4px solid #e94560;
+        border-radius: 8px;
+        max-height: 65vh;
+      }
+      .replay-controls {
+        display: flex;
+        align-items: center;
+        gap: 10px;
+        width: 408px;
+      }
+      .replay-controls input[type="range"] {
+        flex: 1;
+        accent-color: #ff6b9d;
+      }
+      .replay-controls .btn {
+        padding: 8px 14px;
+        font-size: 14px;
+      }
+      .replay-status {
+        font-size: 14px;
+        font-family: monospace;
+        color: #ccc;
+      }
+      .replay-timeline {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 4px;
+        max-width: 408px;
+        max-height: 64px;
+        overflow-y: auto;
+      }
+      .replay-turn-btn {
+        padding: 2px 8px;
+        font-size: 12px;
+        border: 1px solid rgba(255,107,157,0.5);
+        border-radius: 10px;
+        background: rgba(255,255,255,0.08);
+        color: white;
+        cursor: pointer;
+      }
+      .replay-turn-btn.active {
+        background: #ff6b9d;
+      }
+    `;
+    document.head.appendChild(style);
+  }
+
+  private createUI(): HTMLElement {
+    const names = this.replay.players.map((player) => player.name).join(', ');
+    const overlay = document.createElement('div');
+    overlay.className = 'replay-overlay';
+    overlay.innerHTML = `
+      <div class="replay-title">Replay · ${escapeHtml(names)}</div>
+      <canvas id="replay-canvas"></canvas>
+      <div class="replay-status" id="replay-status"></div>
+      <div class="replay-controls">
+        <button class="btn btn-primary" id="replay-play-btn">Pause</button>
+        <input type="range" id="replay-seek" min="0" max="${escapeHtml(this.replay.endFrame)}" value="0" />
+        <button class="btn btn-secondary" id="replay-speed-btn">1x</button>
+      </div>
+      <div class="replay-timeline" id="replay-timeline">
+        ${this.replay.launches.map((launch, index) => `
+          <button class="replay-turn-btn" data-index="${index}" title="${escapeHtml(this.getPlayerName(launch.playerId))}">T${escapeHtml(Number(launch.turnNumber) + 1)}</button>
+        `).join('')}
+      </div>
+      <div class="replay-controls">
+        <button class="btn btn-secondary" id="replay-export-btn">Export</button>
+        <button class="btn btn-danger" id="replay-close-btn">Close</button>
+      </div>
+    `;
+
+    const playBtn = overlay.querySelector('#replay-play-btn') as HTMLButtonElement;
+    const speedBtn = overlay.querySelector('#replay-speed-btn') as HTMLButtonElement;
+    const seekInput = overlay.querySelector('#replay-seek') as HTMLInputElement;
+
+    playBtn.addEventListener('click', () => {
+      // 끝까지 본 뒤 재생하면 처음부터
+      if (!this.playing && this.playback.isFinished) {
+        this.playback.seek(0);
+      }
+      this.setPlaying(!this.playing);
+    });
+    speedBtn.addEventListener('click', () => {
+      this.speed = this.speed === 1 ? 2 : 1;
+      speedBtn.textContent = `${this.speed}x`;
+    });
+    seekInput.addEventListener('input', () => {
+      this.playback.seek(parseInt(seekInput.value));
+      this.accumulator = 0;
+    });
+    overlay.querySelectorAll<HTMLButtonElement>('.replay-turn-btn').forEach((button) => {
+      button.addEventListener('click', () => {
+        // 발사 프레임 다음으로 이동 (발사가 적용된 상태에서 시작)
+        const launch = this.replay.launches[Number(button.dataset.index)];
+        this.playback.seek(launch.frame + 1);
+        this.accumulator = 0;
+      });
+    });
+    overlay.querySelector('#replay-export-btn')!.addEventListener('click', () => downloadReplay(this.replay));
+    overlay.querySelector('#replay-close-btn')!.addEventListener('click', () => this.close());
+
+    return overlay;
+  }
+
+  private setPlaying(playing: boolean): void {
+    this.playing = playing;
+    this.accumulator = 0;
+    (this.overlay.querySelector('#replay-play-btn') as HTMLButtonElement).textContent = playing ? 'Pause' : 'Play';
+  }
+
+  private getPlayerName(playerId: string): string {
+    return this.replay.players.find((player) => player.id === playerId)?.name ?? playerId.substring(0, 6);
+  }
+
+  // 실제 경과 시간만큼 고정 간격 프레임 진행 (2배속이면 2배)
+  private loop = (time: number): void => {
+    const elapsed = this.lastTime === null ? 0 : Math.min(time - this.lastTime, 100);
+    this.lastTime = time;
+
+    if (this.playing) {
+      this.accumulator += elapsed * this.speed;
+      while (this.accumulator >= FRAME_MS && !this.playback.isFinished) {
+        this.playback.stepFrame();
+        this.accumulator -= FRAME_MS;
+      }
+      if (this.playback.isFinished) {
+        this.setPlaying(false);
+      }
+    }
+
+    this.render();
+    this.animationId = requestAnimationFrame(this.loop);
+  };
+
+  private render(): void {
+    const world = this.playback.world;
+    const fruits: FruitView[] = [];
+    for (const [id, body] of world.bodies) {
+      const size = world.getFruitSize(id);
+      if (!size) continue;
+      fruits.push({ ...getFruitData(size), x: body.position.x, y: body.position.y, angle: body.angle });
+    }
+
+    const launch = this.playback.currentLaunch;
+    this.renderer.render(fruits, launch?.x ?? WORLD_WIDTH / 2, null);
+
+    const seconds = Math.floor((this.playback.frame * FRAME_MS) / 1000);
+    const turn = launch ? `T${launch.turnNumber + 1} ${this.getPlayerName(launch.playerId)}` : '-';
+    (this.overlay.querySelector('#replay-status') as HTMLElement).textContent =
+      `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')} · ${turn} · Score ${this.playback.recordedPartyScore}`;
+    (this.overlay.querySelector('#replay-seek') as HTMLInputElement).value = String(this.playback.frame);
+
+    const activeIndex = launch ? this.replay.launches.indexOf(launch) : -1;
+    this.overlay.querySelectorAll<HTMLButtonElement>('.replay-turn-btn').forEach((button) => {
+      button.classList.toggle('active', Number(button.dataset.index) === activeIndex);
+    });
+  }
+}
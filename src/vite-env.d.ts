@@ -8,6 +8,8 @@ interface ImportMetaEnv {
   readonly VITE_FIREBASE_STORAGE_BUCKET: string;
   readonly VITE_FIREBASE_MESSAGING_SENDER_ID: string;
   readonly VITE_FIREBASE_APP_ID: string;
+  readonly VITE_ROOM_TRANSPORT?: 'firebase' | 'local';
+  readonly VITE_FIREBASE_EMULATOR_HOST?: string;
 }
 
 interface ImportMeta {
@@ -1,4 +1,6 @@
+/// <reference types="vitest" />
 import { defineConfig, Plugin } from 'vite';
+import { configDefaults } from 'vitest/config';
 import { resolve } from 'path';
 import { writeFileSync } from 'fs';
 
@@ -18,7 +20,11 @@ function versionPlugin(): Plugin {
   };
 }
 
-export default defineConfig({
+// 보안 규칙 테스트는 Realtime Database 에뮬레이터가 있어야 실행 가능 → npm test에서는 빼고 npm run test:rules로 실행
+const RULES_TEST = 'src/network/databaseRules.test.ts';
+
+// --ssr 빌드는 심판 프로세스(Node)용: public 에셋 복사와 version.json 생성 생략
+export default defineConfig(({ isSsrBuild }) => ({
   resolve: {
     alias: {
       '@': resolve(__dirname, 'src'),
@@ -31,6 +37,12 @@ export default defineConfig({
   build: {
     outDir: 'dist',
     sourcemap: true,
+    copyPublicDir: !isSsrBuild,
+  },
+  plugins: isSsrBuild ? [] : [versionPlugin()],
+  test: {
+    exclude: process.env.FIREBASE_DATABASE_EMULATOR_HOST
+      ? configDefaults.exclude
+      : [...configDefaults.exclude, RULES_TEST],
   },
-  plugins: [versionPlugin()],
-});
+}));